@@ -3,10 +3,15 @@ import { parseAbi } from "viem";
 /**
  * 最小 ABI 片段集合（字符串形式）：
  * - 工厂事件：V2 PairCreated / V3 PoolCreated
- * - V2 Pair：Swap / Mint / getReserves / token0 / token1
- * - V3 Pool：Swap / slot0 / token0 / token1 / fee
- * - ERC20：decimals / totalSupply / symbol / name
- * - （后续 sellability/tax 可能用到的 Router 选择性补充）
+ * - V2 Pair：Swap / Mint / Burn / Sync / getReserves / token0 / token1
+ * - V3 Pool：Swap / Mint / Burn / Collect / slot0 / liquidity / token0 / token1 / fee
+ * - V4 PoolManager（单例）：Initialize / Swap / extsload
+ * - 发射台（four.meme 预设）：建币 / 曲线买卖 / 毕业加池
+ * - ERC20：decimals / totalSupply / symbol / name / balanceOf / approve / transfer
+ * - 代理：信标合约的 implementation（EIP-1967 beacon）
+ * - 权限：Ownable owner / getOwner、AccessControl 角色、Safe 多签、时间锁
+ * - 交易限制：常见的单笔/持仓上限、交易开关与冷却 getter（各合约命名不一，逐个试探）
+ * - Router：V2 询价与支持转账税的兑换；V3 SwapRouter02 的 exactInputSingle（买卖模拟用）
  *
  * 字符串 ABI 便于 parseAbiItem，但在合约调用中需要结构化 ABI，见下方 PARSED_ABI。
  */
@@ -16,6 +21,7 @@ export const ABI = {
   v2Factory: [
     "event PairCreated(address indexed token0, address indexed token1, address pair, uint)",
     // "event PairCreated(address indexed token0, address indexed token1, address pair, uint256)",
+    "function getPair(address tokenA, address tokenB) view returns (address pair)",
   ],
 
   v3Factory: [
@@ -28,6 +34,8 @@ export const ABI = {
     // events
     "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
     "event Mint(address indexed sender, uint256 amount0, uint256 amount1)",
+    "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+    "event Sync(uint112 reserve0, uint112 reserve1)", // 每次储备变化（Swap/Mint/Burn 前）都会发出
     // views
     "function token0() view returns (address)",
     "function token1() view returns (address)",
@@ -38,6 +46,10 @@ export const ABI = {
   v3Pool: [
     // UniswapV3Pool-like
     "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+    "event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)",
+    // Burn 只把代币记为头寸欠款，Collect 才真正转出池子
+    "event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)",
+    "event Collect(address indexed owner, address recipient, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount0, uint128 amount1)",
     // views
     "function token0() view returns (address)",
     "function token1() view returns (address)",
@@ -46,6 +58,25 @@ export const ABI = {
     "function liquidity() view returns (uint128)",
   ],
 
+  // ---- V4 PoolManager（所有池都在这一个合约里，按 PoolId 区分）----
+  v4PoolManager: [
+    // events（PoolId/Currency/IHooks 在 ABI 层面即 bytes32/address）
+    "event Initialize(bytes32 indexed id, address indexed currency0, address indexed currency1, uint24 fee, int24 tickSpacing, address hooks, uint160 sqrtPriceX96, int24 tick)",
+    "event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)",
+    "event ModifyLiquidity(bytes32 indexed id, address indexed sender, int24 tickLower, int24 tickUpper, int256 liquidityDelta, bytes32 salt)",
+    // views：池状态没有 getter，按存储槽读取（见 reservesPrice.getV4RelativePrice）
+    "function extsload(bytes32 slot) view returns (bytes32)",
+  ],
+
+  // ---- 发射台：four.meme TokenManager2（联合曲线，毕业后加池到 PancakeSwap V2）----
+  // 顺序约定：create / buy / sell / graduate；其它发射台经 LAUNCHPADS 自带事件签名
+  fourMeme: [
+    "event TokenCreate(address creator, address token, uint256 requestId, string name, string symbol, uint256 totalSupply, uint256 launchTime, uint256 launchFee)",
+    "event TokenPurchase(address token, address account, uint256 price, uint256 amount, uint256 cost, uint256 fee, uint256 offers, uint256 funds)",
+    "event TokenSale(address token, address account, uint256 price, uint256 amount, uint256 cost, uint256 fee, uint256 offers, uint256 funds)",
+    "event LiquidityAdded(address base, uint256 offers, address quote, uint256 funds)",
+  ],
+
   // ---- ERC20 Minimal ----
   erc20: [
     "function decimals() view returns (uint8)",
@@ -53,9 +84,54 @@ export const ABI = {
     "function symbol() view returns (string)",
     "function name() view returns (string)",
     "function balanceOf(address) view returns (uint256)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function transfer(address to, uint256 amount) returns (bool)",
     "event Transfer(address indexed from, address indexed to, uint256 value)",
   ],
 
+  // ---- EIP-1967 信标：实现地址由 beacon.implementation() 给出 ----
+  beacon: ["function implementation() view returns (address)"],
+
+  // ---- 权限归属：Ownable（BEP20 习惯用 getOwner）与 AccessControl(Enumerable) ----
+  ownable: [
+    "function owner() view returns (address)",
+    "function getOwner() view returns (address)",
+  ],
+  accessControl: [
+    "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+    "function getRoleMemberCount(bytes32 role) view returns (uint256)",
+    "function getRoleMember(bytes32 role, uint256 index) view returns (address)",
+  ],
+  // owner 是合约时用来识别 Safe 多签与时间锁（OZ TimelockController / Compound Timelock）
+  safe: [
+    "function getThreshold() view returns (uint256)",
+    "function getOwners() view returns (address[])",
+  ],
+  timelock: [
+    "function getMinDelay() view returns (uint256)",
+    "function delay() view returns (uint256)",
+  ],
+
+  // ---- 交易限制：meme 合约常见的 public 变量 getter ----
+  restrictions: [
+    "function _maxTxAmount() view returns (uint256)",
+    "function maxTxAmount() view returns (uint256)",
+    "function maxTransactionAmount() view returns (uint256)",
+    "function maxBuyAmount() view returns (uint256)",
+    "function _maxWalletSize() view returns (uint256)",
+    "function maxWallet() view returns (uint256)",
+    "function maxWalletSize() view returns (uint256)",
+    "function maxWalletAmount() view returns (uint256)",
+    "function _maxWalletToken() view returns (uint256)",
+    "function tradingEnabled() view returns (bool)",
+    "function tradingOpen() view returns (bool)",
+    "function tradingActive() view returns (bool)",
+    "function cooldownEnabled() view returns (bool)",
+    "function buyCooldownEnabled() view returns (bool)",
+    "function transferDelayEnabled() view returns (bool)",
+    "function cooldownTimerInterval() view returns (uint256)",
+  ],
+
   // ---- (Optional) Router fragments for callStatic checks ----
   // 说明：sellability/taxEstimator 可能会需要模拟 swap
   // 你可以针对具体 DEX 引入其 Router 接口的精简片段。
@@ -63,20 +139,41 @@ export const ABI = {
   uniV2RouterLike: [
     "function getAmountsOut(uint256 amountIn, address[] calldata path) view returns (uint256[] memory amounts)",
     "function getAmountsIn(uint256 amountOut, address[] calldata path) view returns (uint256[] memory amounts)",
+    // 按实际到账数量成交，带转账税的代币也能走通（蜜罐模拟用）
+    "function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] calldata path, address to, uint256 deadline)",
+  ],
+
+  // ---- Uniswap SwapRouter02 / Pancake SmartRouter：结构体里没有 deadline ----
+  v3SwapRouter: [
+    "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)",
   ],
 
   // ---- Uniswap V3 / Pancake V3 Quoter ----
   v3Quoter: [
     "function quoteExactInputSingle(address tokenIn, address tokenOut, uint24 fee, uint256 amountIn, uint160 sqrtPriceLimitX96) external returns (uint256 amountOut)",
   ],
+  // QuoterV2：参数为结构体，返回值多出价格/跨 tick 数/gas 估计
+  v3QuoterV2: [
+    "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+  ],
 } as const;
 
 /** 针对合约调用的结构化 ABI（parseAbi 结果） */
 export const PARSED_ABI = {
   v2Pair: parseAbi(ABI.v2Pair),
   v3Pool: parseAbi(ABI.v3Pool),
+  v4PoolManager: parseAbi(ABI.v4PoolManager),
   erc20: parseAbi(ABI.erc20),
+  beacon: parseAbi(ABI.beacon),
+  ownable: parseAbi(ABI.ownable),
+  accessControl: parseAbi(ABI.accessControl),
+  safe: parseAbi(ABI.safe),
+  timelock: parseAbi(ABI.timelock),
+  restrictions: parseAbi(ABI.restrictions),
   uniV2RouterLike: parseAbi(ABI.uniV2RouterLike),
   v3Quoter: parseAbi(ABI.v3Quoter),
+  v3QuoterV2: parseAbi(ABI.v3QuoterV2),
+  v3SwapRouter: parseAbi(ABI.v3SwapRouter),
+  v2Factory: parseAbi(ABI.v2Factory),
   v3Factory: parseAbi(ABI.v3Factory),
 };
@@ -0,0 +1,346 @@
+import type { AbiEvent, PublicClient } from "viem";
+import { BACKFILL } from "../config.js";
+import { logger } from "../logger.js";
+import { DedupSet } from "../state/stores.js";
+import type { ChainLabel } from "./registry.js";
+
+/**
+ * WSS 断线补洞（每条链一个游标）：
+ * - 记录“已处理到的区块”：实时日志的 blockNumber 与 newHeads 链头
+ * - 任一订阅 onError → 标记缺口；订阅重建后，下一次拿到链头时触发补洞
+ * - 补洞：eth_getLogs 按 BACKFILL.CHUNK_BLOCKS 分段拉取 [缺口起点, 链头]，
+ *   每段内按 (blockNumber, logIndex) 排序，交给与实时订阅相同的 handler 回放
+ * - (blockHash, txHash, logIndex) 去重：实时与回放重叠的日志只处理一次
+ * - 链重组：removed 日志单独放行一次（供下游撤回），并通知等待确认的告警
+ * - waitConfirmed：等待日志所在区块之上再出 N 个块，期间被移除则返回 false
+ */
+
+/** 可回放的日志源：地址与事件集合在补洞时才取（可随市场增删变化） */
+export interface LogSource {
+  id: string;
+  addresses: () => readonly `0x${string}`[];
+  events: () => readonly AbiEvent[];
+  dispatch: (logs: any[]) => void;
+}
+
+const SEEN_TTL_MS = 30 * 60_000;
+const RESUBSCRIBE_MIN_MS = 1_000;
+const RESUBSCRIBE_MAX_MS = 30_000;
+const CONFIRM_TIMEOUT_MS = 3 * 60_000;
+
+interface ConfirmWaiter {
+  ref: string;
+  target: bigint;
+  resolve: (confirmed: boolean) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class ChainLogCursor {
+  private sources = new Map<string, LogSource>();
+  private seen = new DedupSet(SEEN_TTL_MS);
+  private removedRefs = new DedupSet(SEEN_TTL_MS);
+  private waiters = new Set<ConfirmWaiter>();
+  private lastLogBlock: bigint | undefined;
+  private lastHead: bigint | undefined;
+  private gapFrom: bigint | undefined;
+  private backfilling = false;
+
+  constructor(
+    readonly chain: ChainLabel,
+    private client: PublicClient
+  ) {}
+
+  /** 注册一个可回放的日志源；返回注销函数 */
+  register(source: LogSource) {
+    this.sources.set(source.id, source);
+    return () => {
+      this.sources.delete(source.id);
+    };
+  }
+
+  /**
+   * 日志入口去重：首次出现返回 true；同一日志再次出现返回 false
+   * removed 日志与原日志分开计数，同时推进“已处理区块”
+   */
+  accept(log: any) {
+    const ref = logRef(log);
+    if (log?.removed) {
+      if (!ref || this.seen.has(`removed:${ref}`)) return false;
+      this.seen.add(`removed:${ref}`);
+      this.removedRefs.add(ref);
+      for (const w of this.waiters) {
+        if (w.ref === ref) this.settle(w, false);
+      }
+      return true;
+    }
+    if (ref) {
+      if (this.seen.has(ref)) return false;
+      this.seen.add(ref);
+    }
+    const bn = toBigInt(log?.blockNumber);
+    if (bn !== undefined && (this.lastLogBlock ?? -1n) < bn) {
+      this.lastLogBlock = bn;
+    }
+    return true;
+  }
+
+  /** 已确认处理到的区块（链头减安全余量，与最新日志区块取大） */
+  processedBlock() {
+    const fromHead =
+      this.lastHead !== undefined
+        ? this.lastHead - BigInt(BACKFILL.SAFETY_BLOCKS)
+        : undefined;
+    if (fromHead === undefined) return this.lastLogBlock;
+    if (this.lastLogBlock === undefined) return fromHead;
+    return fromHead > this.lastLogBlock ? fromHead : this.lastLogBlock;
+  }
+
+  /** 订阅出错（通常是 WSS 断线）时调用：记下缺口起点 */
+  markGap(reason: string) {
+    if (this.gapFrom !== undefined) return;
+    const from = this.processedBlock();
+    if (from === undefined) return; // 尚未处理过任何区块，无从补起
+    this.gapFrom = from;
+    logger.warn(
+      { chain: this.chain, from: from.toString(), reason },
+      "Subscription gap opened"
+    );
+  }
+
+  /**
+   * 等待日志获得 depth 个确认（其所在区块之上再出 depth 个块）
+   * 期间日志被重组移除、或超时仍未确认 → false
+   */
+  waitConfirmed(log: any, depth: number, timeoutMs = CONFIRM_TIMEOUT_MS) {
+    const ref = logRef(log);
+    const bn = toBigInt(log?.blockNumber);
+    if (depth <= 0 || !ref || bn === undefined) return Promise.resolve(true);
+    if (this.removedRefs.has(ref)) return Promise.resolve(false);
+    const target = bn + BigInt(depth);
+    if (this.lastHead !== undefined && this.lastHead >= target) {
+      return Promise.resolve(true);
+    }
+    return new Promise<boolean>((resolve) => {
+      const waiter: ConfirmWaiter = {
+        ref,
+        target,
+        resolve,
+        timer: setTimeout(() => this.settle(waiter, false), timeoutMs),
+      };
+      this.waiters.add(waiter);
+    });
+  }
+
+  private settle(waiter: ConfirmWaiter, confirmed: boolean) {
+    if (!this.waiters.delete(waiter)) return;
+    clearTimeout(waiter.timer);
+    waiter.resolve(confirmed && !this.removedRefs.has(waiter.ref));
+  }
+
+  /** 新链头；若存在缺口则触发补洞 */
+  onHead(head: bigint) {
+    if (this.lastHead === undefined || head > this.lastHead) {
+      this.lastHead = head;
+    }
+    for (const w of this.waiters) {
+      if (head >= w.target) this.settle(w, true);
+    }
+    if (this.gapFrom !== undefined && !this.backfilling) {
+      const from = this.gapFrom;
+      this.gapFrom = undefined;
+      this.backfill(from, head).catch((err) => {
+        // 失败则把缺口还回去，等下一个链头重试
+        this.gapFrom =
+          this.gapFrom === undefined || from < this.gapFrom
+            ? from
+            : this.gapFrom;
+        logger.error(
+          { chain: this.chain, err: String(err?.message ?? err) },
+          "Backfill failed"
+        );
+      });
+    }
+  }
+
+  private async backfill(from: bigint, to: bigint) {
+    if (to < from) return;
+    this.backfilling = true;
+    try {
+      const maxSpan = BigInt(BACKFILL.MAX_BLOCKS);
+      if (to - from > maxSpan) {
+        logger.warn(
+          {
+            chain: this.chain,
+            from: from.toString(),
+            to: to.toString(),
+            maxBlocks: BACKFILL.MAX_BLOCKS,
+          },
+          "Gap exceeds BACKFILL_MAX_BLOCKS, older blocks are skipped"
+        );
+        from = to - maxSpan;
+      }
+      const chunk = BigInt(BACKFILL.CHUNK_BLOCKS);
+      let replayed = 0;
+      for (let start = from; start <= to; start += chunk) {
+        const end = start + chunk - 1n > to ? to : start + chunk - 1n;
+        replayed += await this.replayRange(start, end);
+      }
+      logger.info(
+        {
+          chain: this.chain,
+          from: from.toString(),
+          to: to.toString(),
+          replayed,
+        },
+        "Backfill completed"
+      );
+    } finally {
+      this.backfilling = false;
+    }
+  }
+
+  /** 每个日志源按其地址分批 getLogs，汇总后统一排序回放 */
+  private async replayRange(fromBlock: bigint, toBlock: bigint) {
+    const collected: Array<{ source: LogSource; log: any }> = [];
+    for (const source of this.sources.values()) {
+      const addrs = source.addresses();
+      const events = source.events();
+      if (!addrs.length || !events.length) continue;
+      for (let i = 0; i < addrs.length; i += BACKFILL.ADDRESS_BATCH) {
+        const logs = await this.client.getLogs({
+          address: addrs.slice(i, i + BACKFILL.ADDRESS_BATCH),
+          events: events as AbiEvent[],
+          fromBlock,
+          toBlock,
+        });
+        for (const log of logs) collected.push({ source, log });
+      }
+    }
+
+    collected.sort((a, b) => compareLogs(a.log, b.log));
+    for (const { source, log } of collected) {
+      // 源可能在回放期间被注销（市场被移除）
+      if (!this.sources.has(source.id)) continue;
+      source.dispatch([log]);
+    }
+    return collected.length;
+  }
+}
+
+function toBigInt(v: unknown) {
+  if (typeof v === "bigint") return v;
+  if (typeof v === "number" && Number.isFinite(v)) return BigInt(v);
+  return undefined;
+}
+
+/**
+ * 回看最近 maxBlocks 个区块的日志（按 BACKFILL.CHUNK_BLOCKS 分段 getLogs）
+ * 供闸门查历史事件（如 LP 的首次铸造）；结果按 (blockNumber, logIndex) 升序
+ */
+export async function getRecentLogs(
+  client: PublicClient,
+  params: {
+    address: `0x${string}`;
+    event: AbiEvent;
+    args?: Record<string, unknown>;
+    maxBlocks?: number;
+  }
+) {
+  const head = await client.getBlockNumber();
+  const span = BigInt(params.maxBlocks ?? BACKFILL.MAX_BLOCKS);
+  const from = head > span ? head - span : 0n;
+  const chunk = BigInt(BACKFILL.CHUNK_BLOCKS);
+  const out: any[] = [];
+  for (let start = from; start <= head; start += chunk) {
+    const end = start + chunk - 1n > head ? head : start + chunk - 1n;
+    const logs = await client.getLogs({
+      address: params.address,
+      event: params.event,
+      args: params.args as any,
+      fromBlock: start,
+      toBlock: end,
+    });
+    out.push(...logs);
+  }
+  return out.sort(compareLogs);
+}
+
+/** 日志标识：blockHash:txHash:logIndex（重组后重新打包的日志视为新日志） */
+export function logRef(log: any) {
+  if (!log?.transactionHash || log?.logIndex == null) return undefined;
+  const block = String(log.blockHash ?? "").toLowerCase();
+  const tx = String(log.transactionHash).toLowerCase();
+  return `${block}:${tx}:${Number(log.logIndex)}`;
+}
+
+function compareLogs(a: any, b: any) {
+  const ba = toBigInt(a.blockNumber) ?? 0n;
+  const bb = toBigInt(b.blockNumber) ?? 0n;
+  if (ba !== bb) return ba < bb ? -1 : 1;
+  return Number(a.logIndex ?? 0) - Number(b.logIndex ?? 0);
+}
+
+const cursors = new Map<ChainLabel, ChainLogCursor>();
+
+/** 取（或创建）链游标；首次创建时启动链头订阅 */
+export function getChainCursor(chain: ChainLabel, client: PublicClient) {
+  let cursor = cursors.get(chain);
+  if (!cursor) {
+    cursor = new ChainLogCursor(chain, client);
+    cursors.set(chain, cursor);
+    const c = cursor;
+    resilientWatch(`${chain} newHeads`, c, (onError) =>
+      client.watchBlockNumber({
+        emitMissed: false,
+        onBlockNumber: (bn) => c.onHead(bn),
+        onError,
+      })
+    );
+  }
+  return cursor;
+}
+
+/**
+ * 断线自愈的订阅：onError 时标记缺口、注销旧订阅，并按指数退避重建
+ * start 需把传入的 onError 交给底层 watch*；返回整体停止函数
+ */
+export function resilientWatch(
+  label: string,
+  cursor: ChainLogCursor,
+  start: (onError: (e: Error) => void) => () => void
+) {
+  let stopped = false;
+  let unwatch: (() => void) | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let delay = RESUBSCRIBE_MIN_MS;
+
+  const connect = () => {
+    if (stopped) return;
+    let failed = false;
+    unwatch = start((e) => {
+      if (failed || stopped) return;
+      failed = true;
+      logger.error(
+        { label, err: String((e as any)?.shortMessage ?? e?.message ?? e) },
+        "Subscription error, resubscribing"
+      );
+      cursor.markGap(label);
+      try {
+        unwatch?.();
+      } catch {}
+      timer = setTimeout(connect, delay);
+      delay = Math.min(delay * 2, RESUBSCRIBE_MAX_MS);
+    });
+    // 成功建立后的下一次错误从最小退避开始
+    setTimeout(() => {
+      if (!failed) delay = RESUBSCRIBE_MIN_MS;
+    }, RESUBSCRIBE_MAX_MS).unref();
+  };
+  connect();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    unwatch?.();
+  };
+}
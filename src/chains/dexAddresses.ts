@@ -2,22 +2,72 @@
  * 常用 DEX 与基础代币地址清单（主网）
  * 说明：
  * - 仅包含我们当前需要的最小集（后续可扩展）
- * - V2/V3 工厂地址用于订阅新池事件
- * - baseTokens 用于价格折算（WBNB/WETH/稳定币）
+ * - V2/V3 工厂地址用于订阅新池事件；router/quoter 用于可卖性校验，V3 swapRouter 用于买卖模拟
+ * - V4 只有一个单例 PoolManager：新池（Initialize）与成交（Swap）都由它发出
+ * - initCodeHash 用于 CREATE2 推导池地址（识别热榜池属于哪个 DEX）；未核实的不填
+ * - 发射台（联合曲线）合约：建币与曲线买卖都由它发出事件
+ * - LP 锁仓合约（lpLockers）：锁进去的 V2 LP 由锁仓合约持有，balanceOf 即锁仓量
+ * - baseTokens 用于价格折算（原生包裹币/稳定币）
  */
 
+// Uniswap V2 及未改动字节码的分叉（QuickSwap 等）共用
+const UNISWAP_V2_INIT_CODE_HASH =
+  "0x96e8ac4277198ff8b6f785478aa9a39f403cb768dd02cbee326c3e7da348845f";
+const UNISWAP_V3_INIT_CODE_HASH =
+  "0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54";
+// Uniswap SwapRouter02：以太坊 / Arbitrum / Polygon 同址（Base 另有部署）
+const UNISWAP_SWAP_ROUTER_02 = "0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45";
+
+// PancakeSwap V3：各链地址相同，池由独立的 PoolDeployer 部署
+const pancakeV3 = {
+  factory: "0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865",
+  deployer: "0x41ff9AA7e16B8B1a8a8dc4f0eFacd93D02d071c9",
+  quoter: "0xB048Bbc1Ee6b733FFfCFb9e9CeF7375518e25997", // QuoterV2
+  swapRouter: "0x13f4EA83D0bd40E75C8222255bc855a974568Dd4", // SmartRouter
+  initCodeHash:
+    "0x6ce8eb472fa82df5469c6ab6d485f17c3ad13c8cd7af59b3d4a8026c5ce0f7e2",
+} as const;
+
+// SushiSwap V2：除以太坊 / Base 外各链同址
+const sushiswapV2 = {
+  factory: "0xc35DADB65012eC5796536bD9864eD8773aBc74C4",
+  router: "0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506",
+} as const;
+
 export const dex = {
   bsc: {
     pancakeV2: {
-      factory: "0xCA143Ce32Fe78f1f7019d7d551a6402fC5350c73", // Pancake V2 Factory
-      // routerV2 常见：'0x10ED43C718714eb63d5aA57B78B54704E256024E'
+      factory: "0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73", // Pancake V2 Factory
+      router: "0x10ED43C718714eb63d5aA57B78B54704E256024E",
+      initCodeHash:
+        "0x00fb7f630766e6a796048ea87d01acd3068e8ff67d078148a3fa3f4a84f69bd5",
     },
-    pancakeV3: {
-      factory: "0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865", // Pancake V3 Factory
-      // smartRouter 可按需补充
+    pancakeV3,
+    biswapV2: {
+      factory: "0x858E3312ed3A876947EA49d572A7C42DE08af7EE",
+      router: "0x3a6d8cA21D1CF76F653A67577FA0D27453350dD8",
+      initCodeHash:
+        "0xfea293c909d87cd4153593f077b76bb7e94340200f4ee84211ae8e4f9bd7ffdf",
+    },
+    apeswapV2: {
+      factory: "0x0841BD0B734E4F5853f0dD8d7Ea041c241fb0Da6",
+      router: "0xcF0feBd3f17CEf5b47b0cD257aCf6025c5BFf3b7",
+      initCodeHash:
+        "0xf4ccce374816856d11f00e4069e7cada164065686fbef53c6167a63ec2fd8c5b",
+    },
+    sushiswapV2,
+    uniswapV4: {
+      poolManager: "0x28e2Ea090877bF75740558f6BFB36A5ffeE9e9dF",
+    },
+    fourMeme: {
+      tokenManager: "0x5c952063c7fc8610FFDB798152D69F0B9550762b", // TokenManager2
+    },
+    lpLockers: {
+      "uncx-v2": "0xC765bddB93b0D1c1A88282BA0fa6B2d00E3e0c83", // UNCX（Unicrypt）PancakeSwap V2 Locker
+      pinklock: "0x407993575c91ce7643a4d4cCACc9A98c36eE1BBE", // PinkLock V2
     },
     baseTokens: {
-      WBNB: "0xBB4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
+      WBNB: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
       USDT: "0x55d398326f99059fF775485246999027B3197955",
       BUSD: "0xe9e7cea3dedca5984780bafc599bd69add087d56", // （BUSD主网历史地址，注意监管退场后流动性可能减少）
       USDC: "0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d",
@@ -27,11 +77,26 @@ export const dex = {
   ethereum: {
     uniswapV2: {
       factory: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f", // Uniswap V2 Factory
-      // routerV2: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D'
+      router: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
+      initCodeHash: UNISWAP_V2_INIT_CODE_HASH,
     },
     uniswapV3: {
       factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984", // Uniswap V3 Factory
-      // swapRouter: '0xE592427A0AEce92De3Edee1F18E0157C05861564'
+      quoter: "0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6", // Quoter (V1)
+      swapRouter: UNISWAP_SWAP_ROUTER_02,
+      initCodeHash: UNISWAP_V3_INIT_CODE_HASH,
+    },
+    sushiswapV2: {
+      factory: "0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac",
+      router: "0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F",
+    },
+    pancakeV3,
+    uniswapV4: {
+      poolManager: "0x000000000004444c5dc75cB358380D2e3dE08A90",
+    },
+    lpLockers: {
+      "uncx-v2": "0x663A5C229c09b049E36dCc11a9B0d4a8Eb9db214", // UNCX Uniswap V2 Locker
+      "team-finance": "0xE2fE530C047f2d85298b07D9333C05737f1435fB",
     },
     baseTokens: {
       WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
@@ -40,4 +105,75 @@ export const dex = {
       DAI: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
     },
   },
+
+  base: {
+    uniswapV2: {
+      factory: "0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6",
+      router: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+      initCodeHash: UNISWAP_V2_INIT_CODE_HASH,
+    },
+    uniswapV3: {
+      factory: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD",
+      quoter: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a", // QuoterV2
+      swapRouter: "0x2626664c2603336E57B271c5C0b26F421741e481", // SwapRouter02
+      initCodeHash: UNISWAP_V3_INIT_CODE_HASH,
+    },
+    sushiswapV2: {
+      factory: "0x71524B4f93c58fcbF659783284E38825f0622859",
+      router: "0x6BDED42c6DA8FBf0d2bA55B2fa120C5e0c8D7891",
+    },
+    uniswapV4: {
+      poolManager: "0x498581fF718922c3f8e6A244956aF099B2652b2b",
+    },
+    baseTokens: {
+      WETH: "0x4200000000000000000000000000000000000006",
+      USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    },
+  },
+
+  arbitrum: {
+    uniswapV2: {
+      factory: "0xf1D7CC64Fb4452F05c498126312eBE29f30Fbcf9",
+      router: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+      initCodeHash: UNISWAP_V2_INIT_CODE_HASH,
+    },
+    uniswapV3: {
+      factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+      quoter: "0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6", // Quoter (V1)
+      swapRouter: UNISWAP_SWAP_ROUTER_02,
+      initCodeHash: UNISWAP_V3_INIT_CODE_HASH,
+    },
+    sushiswapV2,
+    uniswapV4: {
+      poolManager: "0x360E68faCcca8cA495c1B759Fd9EEe466db9FB32",
+    },
+    baseTokens: {
+      WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+      USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      USDT: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+    },
+  },
+
+  polygon: {
+    quickswapV2: {
+      factory: "0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32",
+      router: "0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff",
+      initCodeHash: UNISWAP_V2_INIT_CODE_HASH,
+    },
+    uniswapV3: {
+      factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+      quoter: "0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6", // Quoter (V1)
+      swapRouter: UNISWAP_SWAP_ROUTER_02,
+      initCodeHash: UNISWAP_V3_INIT_CODE_HASH,
+    },
+    sushiswapV2,
+    uniswapV4: {
+      poolManager: "0x67366782805870060151383F4BbFF9daB53e5cD6",
+    },
+    baseTokens: {
+      WPOL: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
+      USDC: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+      USDT: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+    },
+  },
 } as const;
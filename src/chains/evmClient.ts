@@ -1,30 +1,25 @@
-import { createPublicClient, http, webSocket, PublicClient } from "viem";
-import { mainnet, bsc as bscChain } from "viem/chains";
+import { PublicClient } from "viem";
 import { CHAINS } from "../config.js";
 import { logger } from "../logger.js";
+import { createRpcPool } from "./rpcPool.js";
+import type { ChainLabel } from "./registry.js";
 
 /**
- * 根据 config 创建多链 viem PublicClient（优先 WSS，降级 HTTP）
+ * 根据 config 为每条已启用的链创建 viem PublicClient（多 WSS/HTTP 端点，按健康度故障转移）
  * - 生产建议使用稳定的付费 WSS，避免被限流
  */
-export type EvmClients = {
-  bsc: PublicClient;
-  ethereum: PublicClient;
-};
+export type EvmClients = Record<ChainLabel, PublicClient>;
 
 export function createEvmClients(): EvmClients {
-  const bsc = createPublicClient({
-    chain: bscChain,
-    transport: CHAINS.bsc.wss ? webSocket(CHAINS.bsc.wss) : http(), // 降级；仅供开发联调
-    pollingInterval: 1_500,
-  });
+  const clients: EvmClients = {};
+  const endpoints: Record<ChainLabel, number> = {};
+  for (const cfg of Object.values(CHAINS)) {
+    const pool = createRpcPool(cfg.label, cfg.viemChain, cfg);
+    pool.start();
+    clients[cfg.label] = pool.publicClient() as PublicClient;
+    endpoints[cfg.label] = pool.size;
+  }
 
-  const ethereum = createPublicClient({
-    chain: mainnet,
-    transport: CHAINS.ethereum.wss ? webSocket(CHAINS.ethereum.wss) : http(),
-    pollingInterval: 1_500,
-  });
-
-  logger.info("EVM clients created (BSC & ETH)");
-  return { bsc, ethereum };
+  logger.info({ endpoints }, "EVM clients created");
+  return clients;
 }
@@ -0,0 +1,206 @@
+import { toEventSelector, type AbiEvent, type PublicClient } from "viem";
+import { BACKFILL } from "../config.js";
+import { logger } from "../logger.js";
+import {
+  getChainCursor,
+  resilientWatch,
+  type ChainLogCursor,
+} from "./backfill.js";
+import type { ChainLabel } from "./registry.js";
+
+/**
+ * 每条链一个日志多路复用器：
+ * - 已注册地址按 BACKFILL.ADDRESS_BATCH 个一批，每批一个带 address 过滤的订阅（事件集合各批相同）
+ * - 收到日志后按 (address, topic0) 路由到已注册的市场 handler，未注册的直接丢弃
+ * - 单例合约（V4 PoolManager）上的市场再按 topic1（PoolId）细分
+ * - 新地址放进有空位的批次，只重订该批；出现新的事件类型时各批都重订。
+ *   同一轮事件循环内的注册合并成一次重订（重启恢复时批量注册不会逐个重订）；
+ *   注销只改路由表，地址留在过滤里直到该批下次重订；批次清空时停掉订阅
+ * - 重订前先在链游标上标记缺口，切换间隙的日志由补洞回放
+ * - 自身作为一个日志源注册到链游标，断线补洞按已注册地址批量 getLogs
+ * - handler 可以是异步的，同步抛错与 Promise 拒绝都只记日志
+ */
+
+export interface MuxRoute {
+  event: AbiEvent;
+  onLog: (log: any) => void | Promise<void>;
+}
+
+interface WatchBatch {
+  addresses: Set<string>; // lowercase，不含 topic1
+  stop?: () => void;
+}
+
+export class ChainLogMux {
+  // address(lowercase)[:topic1] -> topic0 -> handler
+  private routes = new Map<string, Map<string, MuxRoute["onLog"]>>();
+  private events = new Map<string, AbiEvent>(); // topic0 -> event
+  private batches: WatchBatch[] = [];
+  private dirty = new Set<WatchBatch>(); // 待重订的批次
+
+  constructor(
+    readonly chain: ChainLabel,
+    private client: PublicClient,
+    private cursor: ChainLogCursor
+  ) {
+    cursor.register({
+      id: `${chain}:mux`,
+      addresses: () =>
+        [
+          ...new Set([...this.routes.keys()].map((k) => k.split(":")[0])),
+        ] as `0x${string}`[],
+      events: () => [...this.events.values()],
+      dispatch: this.dispatch,
+    });
+  }
+
+  get size() {
+    return this.routes.size;
+  }
+
+  /**
+   * 注册一个地址的事件 handler；返回注销函数
+   * id：单例合约上按第一个 indexed 参数（topic1，如 V4 PoolId）区分市场
+   */
+  register(address: `0x${string}`, routes: MuxRoute[], id?: `0x${string}`) {
+    const addr = id
+      ? `${address.toLowerCase()}:${id.toLowerCase()}`
+      : address.toLowerCase();
+    const table = this.routes.get(addr) ?? new Map();
+    let newTopic = false;
+    for (const { event, onLog } of routes) {
+      const topic = toEventSelector(event);
+      table.set(topic, onLog);
+      if (!this.events.has(topic)) {
+        this.events.set(topic, event);
+        newTopic = true;
+      }
+    }
+    this.routes.set(addr, table);
+
+    const base = address.toLowerCase();
+    let batch = this.batches.find((b) => b.addresses.has(base));
+    const added = !batch;
+    if (!batch) {
+      batch = this.batches.find(
+        (b) => b.addresses.size < BACKFILL.ADDRESS_BATCH
+      );
+      if (!batch) {
+        batch = { addresses: new Set() };
+        this.batches.push(batch);
+      }
+      batch.addresses.add(base);
+    }
+    if (newTopic) this.batches.forEach((b) => this.markDirty(b));
+    else if (added) this.markDirty(batch);
+
+    return () => {
+      const current = this.routes.get(addr);
+      if (!current) return;
+      for (const { event, onLog } of routes) {
+        const topic = toEventSelector(event);
+        if (current.get(topic) === onLog) current.delete(topic);
+      }
+      if (!current.size) this.routes.delete(addr);
+      // 单例合约上可能还有其他市场（按 topic1 区分）
+      const inUse = [...this.routes.keys()].some(
+        (k) => k === base || k.startsWith(`${base}:`)
+      );
+      if (!inUse) this.release(base);
+    };
+  }
+
+  /** 地址不再有市场：移出所在批次（过滤条件在该批下次重订时更新），批次空了就停订 */
+  private release(base: string) {
+    const batch = this.batches.find((b) => b.addresses.has(base));
+    if (!batch) return;
+    batch.addresses.delete(base);
+    if (batch.addresses.size) return;
+    batch.stop?.();
+    batch.stop = undefined;
+    this.dirty.delete(batch);
+    this.batches = this.batches.filter((b) => b !== batch);
+  }
+
+  /** 本轮事件循环结束后统一重订 */
+  private markDirty(batch: WatchBatch) {
+    if (!this.dirty.size) {
+      setImmediate(() => {
+        const batches = [...this.dirty];
+        this.dirty.clear();
+        this.resubscribe(batches);
+      });
+    }
+    this.dirty.add(batch);
+  }
+
+  private dispatch = (logs: any[]) => {
+    for (const l of logs) {
+      const topic = l.topics?.[0]?.toLowerCase();
+      const addr = String(l.address).toLowerCase();
+      const sub = l.topics?.[1]?.toLowerCase();
+      const handler = (
+        (sub && this.routes.get(`${addr}:${sub}`)) ||
+        this.routes.get(addr)
+      )?.get(topic);
+      if (!handler) continue;
+      if (!this.cursor.accept(l)) continue;
+      const fail = (err: unknown) =>
+        logger.error(
+          { chain: this.chain, address: l.address, err },
+          "Log handler failed"
+        );
+      try {
+        Promise.resolve(handler(l)).catch(fail);
+      } catch (err) {
+        fail(err);
+      }
+    }
+  };
+
+  /** 重建若干批次的订阅（新地址入批或事件集合变化时） */
+  private resubscribe(batches: WatchBatch[]) {
+    if (!batches.length) return;
+    const events = [...this.events.values()];
+    for (const batch of batches) {
+      if (batch.stop) {
+        // 旧订阅停掉到新订阅建立之间的日志靠补洞回放
+        this.cursor.markGap(`${this.chain} log mux resubscribe`);
+        batch.stop();
+      }
+      const address = [...batch.addresses] as `0x${string}`[];
+      batch.stop = resilientWatch(
+        `${this.chain} log mux`,
+        this.cursor,
+        (onError) =>
+          this.client.watchEvent({
+            address,
+            events,
+            onLogs: this.dispatch,
+            onError,
+          })
+      );
+    }
+    logger.info(
+      {
+        chain: this.chain,
+        events: events.map((e) => e.name),
+        batches: batches.length,
+        addresses: batches.reduce((n, b) => n + b.addresses.size, 0),
+      },
+      "Log mux subscribed"
+    );
+  }
+}
+
+const muxes = new Map<ChainLabel, ChainLogMux>();
+
+/** 取（或创建）链的日志多路复用器 */
+export function getLogMux(chain: ChainLabel, client: PublicClient) {
+  let mux = muxes.get(chain);
+  if (!mux) {
+    mux = new ChainLogMux(chain, client, getChainCursor(chain, client));
+    muxes.set(chain, mux);
+  }
+  return mux;
+}
@@ -0,0 +1,361 @@
+import {
+  encodeAbiParameters,
+  encodePacked,
+  getAddress,
+  getCreate2Address,
+  keccak256,
+  type Chain,
+} from "viem";
+import { arbitrum, base, bsc, mainnet, polygon } from "viem/chains";
+import { ABI } from "./abis.js";
+import { dex } from "./dexAddresses.js";
+
+/**
+ * 链注册表：每条链在这里声明一次
+ * - id / viem chain、区块浏览器、DexScreener slug
+ * - DEX 列表：V2/V3 工厂（订阅新池）、router / quoter / swapRouter（可卖性校验与买卖模拟）、init code hash（推导池地址）
+ * - 基准币（原生包裹币 + 稳定币）
+ * - 发射台（联合曲线）：合约地址、事件签名与字段映射（LAUNCHPADS 可整体覆盖）
+ * - LP 锁仓合约（LP_LOCKERS 可追加）
+ * 新增一条链 = 在 CHAIN_DEFINITIONS 加一项，并在 .env 配置 <LABEL>_WSS / <LABEL>_HTTP、
+ * 把 label 加入 CHAINS_ENABLED；其余模块按 label 查表，不再写死链名。
+ * 新增一个同 ABI 的分叉 DEX = 在对应链的 dexes 加一项。
+ */
+
+/** 链标签（大写，如 "BSC" / "ETH" / "BASE"），即 CHAIN_DEFINITIONS 的键 */
+export type ChainLabel = string;
+
+export type DexVersion = "v2" | "v3" | "v4";
+
+interface DexBase {
+  name: string; // 全链唯一的 DEX 名（写入 WatchEntry.dex），如 "pancakeswap-v2"
+  dexScreenerId: string; // DexScreener 的 dexId
+  factory: `0x${string}`;
+  initCodeHash?: `0x${string}`; // 未核实的不填：该 DEX 的池只能按 dexId 识别
+}
+
+export interface V2DexDefinition extends DexBase {
+  version: "v2";
+  router: `0x${string}`;
+}
+
+export interface V3DexDefinition extends DexBase {
+  version: "v3";
+  quoter: `0x${string}`;
+  quoterVersion: 1 | 2; // Quoter V1 为平铺参数，QuoterV2 为结构体参数
+  deployer?: `0x${string}`; // CREATE2 的部署者（PancakeSwap V3 为独立的 PoolDeployer）
+  swapRouter?: `0x${string}`; // SwapRouter02 接口的路由（买卖模拟用）；缺省则 V3 不做模拟
+}
+
+/** V4：factory 即单例 PoolManager，池以 PoolId（bytes32）标识，没有独立合约地址 */
+export interface V4DexDefinition extends DexBase {
+  version: "v4";
+}
+
+export type DexDefinition =
+  | V2DexDefinition
+  | V3DexDefinition
+  | V4DexDefinition;
+
+/**
+ * 发射台（联合曲线）定义：
+ * - events 为完整事件签名（parseAbiItem 可解析）；create/graduate 可缺省
+ * - fields 把事件参数名映射到统一含义；raised 为累计募集额（用于计算曲线进度）
+ * - 没有 graduate 事件时，进度达到 100% 视为毕业
+ */
+export interface LaunchpadDefinition {
+  name: string;
+  address: `0x${string}`;
+  quote?: `0x${string}`; // 计价币；缺省为原生币（按包裹币报价）
+  quoteDecimals: number;
+  graduationFunds: number; // 毕业所需募集额（计价币单位）
+  dex?: string; // 毕业后加池的 V2 DEX（registry 名）；缺省为该链主 V2 DEX
+  events: {
+    create?: string;
+    buy: string;
+    sell: string;
+    graduate?: string;
+  };
+  fields: {
+    token: string;
+    trader: string;
+    quoteAmount: string; // 单笔买入花费 / 卖出所得（计价币）
+    raised?: string;
+    creator?: string;
+    graduatedToken?: string; // graduate 事件里的 token 参数名（缺省同 token）
+  };
+}
+
+/** LP 锁仓合约：持有被锁的 V2 LP（UNCX / PinkLock / Team Finance 等） */
+export interface LpLocker {
+  name: string;
+  address: `0x${string}`;
+}
+
+const lockers = (m: Record<string, `0x${string}`>): LpLocker[] =>
+  Object.entries(m).map(([name, address]) => ({ name, address }));
+
+export interface ChainDefinition {
+  label: ChainLabel;
+  id: number;
+  viemChain: Chain;
+  explorer: string; // 区块浏览器根地址（不带结尾 /）
+  dexScreenerSlug: string; // DexScreener 的 chainId / URL 路径
+  dexes: readonly DexDefinition[]; // 同版本内靠前的为主 DEX（旧记录缺少 dex 名时的默认）
+  baseTokens: Readonly<Record<string, `0x${string}`>>;
+  wrappedNative: string; // baseTokens 中原生包裹币的键
+  stables: readonly string[]; // baseTokens 中稳定币的键（按优先级）
+  launchpads: readonly LaunchpadDefinition[];
+  lpLockers: readonly LpLocker[];
+}
+
+const v2 = (
+  name: string,
+  dexScreenerId: string,
+  addrs: Omit<V2DexDefinition, "name" | "dexScreenerId" | "version">
+): V2DexDefinition => ({ name, dexScreenerId, version: "v2", ...addrs });
+
+const v3 = (
+  name: string,
+  dexScreenerId: string,
+  addrs: Omit<
+    V3DexDefinition,
+    "name" | "dexScreenerId" | "version" | "quoterVersion"
+  >,
+  quoterVersion: 1 | 2
+): V3DexDefinition => ({
+  name,
+  dexScreenerId,
+  version: "v3",
+  quoterVersion,
+  ...addrs,
+});
+
+const v4 = (
+  name: string,
+  dexScreenerId: string,
+  addrs: { poolManager: `0x${string}` }
+): V4DexDefinition => ({
+  name,
+  dexScreenerId,
+  version: "v4",
+  factory: addrs.poolManager,
+});
+
+export const CHAIN_DEFINITIONS: Record<ChainLabel, ChainDefinition> = {
+  BSC: {
+    label: "BSC",
+    id: 56,
+    viemChain: bsc,
+    explorer: "https://bscscan.com",
+    dexScreenerSlug: "bsc",
+    dexes: [
+      v2("pancakeswap-v2", "pancakeswap", dex.bsc.pancakeV2),
+      v3("pancakeswap-v3", "pancakeswap", dex.bsc.pancakeV3, 2),
+      v2("biswap-v2", "biswap", dex.bsc.biswapV2),
+      v2("apeswap-v2", "apeswap", dex.bsc.apeswapV2),
+      v2("sushiswap-v2", "sushiswap", dex.bsc.sushiswapV2),
+      v4("uniswap-v4", "uniswap", dex.bsc.uniswapV4),
+    ],
+    baseTokens: dex.bsc.baseTokens,
+    wrappedNative: "WBNB",
+    stables: ["USDT", "USDC", "BUSD"],
+    launchpads: [
+      {
+        name: "four.meme",
+        address: dex.bsc.fourMeme.tokenManager,
+        quoteDecimals: 18,
+        graduationFunds: 24,
+        dex: "pancakeswap-v2",
+        events: {
+          create: ABI.fourMeme[0],
+          buy: ABI.fourMeme[1],
+          sell: ABI.fourMeme[2],
+          graduate: ABI.fourMeme[3],
+        },
+        fields: {
+          token: "token",
+          trader: "account",
+          quoteAmount: "cost",
+          raised: "funds",
+          creator: "creator",
+          graduatedToken: "base",
+        },
+      },
+    ],
+    lpLockers: lockers(dex.bsc.lpLockers),
+  },
+  ETH: {
+    label: "ETH",
+    id: 1,
+    viemChain: mainnet,
+    explorer: "https://etherscan.io",
+    dexScreenerSlug: "ethereum",
+    dexes: [
+      v2("uniswap-v2", "uniswap", dex.ethereum.uniswapV2),
+      v3("uniswap-v3", "uniswap", dex.ethereum.uniswapV3, 1),
+      v2("sushiswap-v2", "sushiswap", dex.ethereum.sushiswapV2),
+      v3("pancakeswap-v3", "pancakeswap", dex.ethereum.pancakeV3, 2),
+      v4("uniswap-v4", "uniswap", dex.ethereum.uniswapV4),
+    ],
+    baseTokens: dex.ethereum.baseTokens,
+    wrappedNative: "WETH",
+    stables: ["USDT", "USDC", "DAI"],
+    launchpads: [],
+    lpLockers: lockers(dex.ethereum.lpLockers),
+  },
+  BASE: {
+    label: "BASE",
+    id: 8453,
+    viemChain: base,
+    explorer: "https://basescan.org",
+    dexScreenerSlug: "base",
+    dexes: [
+      v2("uniswap-v2", "uniswap", dex.base.uniswapV2),
+      v3("uniswap-v3", "uniswap", dex.base.uniswapV3, 2),
+      v2("sushiswap-v2", "sushiswap", dex.base.sushiswapV2),
+      v4("uniswap-v4", "uniswap", dex.base.uniswapV4),
+    ],
+    baseTokens: dex.base.baseTokens,
+    wrappedNative: "WETH",
+    stables: ["USDC"],
+    launchpads: [],
+    lpLockers: [],
+  },
+  ARBITRUM: {
+    label: "ARBITRUM",
+    id: 42161,
+    viemChain: arbitrum,
+    explorer: "https://arbiscan.io",
+    dexScreenerSlug: "arbitrum",
+    dexes: [
+      v2("uniswap-v2", "uniswap", dex.arbitrum.uniswapV2),
+      v3("uniswap-v3", "uniswap", dex.arbitrum.uniswapV3, 1),
+      v2("sushiswap-v2", "sushiswap", dex.arbitrum.sushiswapV2),
+      v4("uniswap-v4", "uniswap", dex.arbitrum.uniswapV4),
+    ],
+    baseTokens: dex.arbitrum.baseTokens,
+    wrappedNative: "WETH",
+    stables: ["USDC", "USDT"],
+    launchpads: [],
+    lpLockers: [],
+  },
+  POLYGON: {
+    label: "POLYGON",
+    id: 137,
+    viemChain: polygon,
+    explorer: "https://polygonscan.com",
+    dexScreenerSlug: "polygon",
+    dexes: [
+      v2("quickswap-v2", "quickswap", dex.polygon.quickswapV2),
+      v3("uniswap-v3", "uniswap", dex.polygon.uniswapV3, 1),
+      v2("sushiswap-v2", "sushiswap", dex.polygon.sushiswapV2),
+      v4("uniswap-v4", "uniswap", dex.polygon.uniswapV4),
+    ],
+    baseTokens: dex.polygon.baseTokens,
+    wrappedNative: "WPOL",
+    stables: ["USDC", "USDT"],
+    launchpads: [],
+    lpLockers: [],
+  },
+};
+
+/**
+ * 取链上指定版本的 DEX：按名称匹配，未给名称（旧记录）时取该版本的主 DEX
+ * 给了名称但不在注册表中 → undefined
+ */
+export function findDex<V extends DexVersion>(
+  chain: ChainDefinition,
+  version: V,
+  name?: string
+) {
+  const list = chain.dexes.filter(
+    (d): d is Extract<DexDefinition, { version: V }> => d.version === version
+  );
+  return name ? list.find((d) => d.name === name) : list[0];
+}
+
+/** 按 CREATE2 推导池地址（V3 需传 fee）；缺少 init code hash 时返回 undefined */
+export function computePoolAddress(
+  dexDef: DexDefinition,
+  tokenA: `0x${string}`,
+  tokenB: `0x${string}`,
+  fee?: number
+) {
+  if (dexDef.version === "v4" || !dexDef.initCodeHash) return undefined;
+  const [t0, t1] = [getAddress(tokenA), getAddress(tokenB)].sort((a, b) =>
+    a.toLowerCase() < b.toLowerCase() ? -1 : 1
+  );
+  if (dexDef.version === "v2") {
+    return getCreate2Address({
+      from: dexDef.factory,
+      salt: keccak256(encodePacked(["address", "address"], [t0, t1])),
+      bytecodeHash: dexDef.initCodeHash,
+    });
+  }
+  if (fee === undefined) return undefined;
+  return getCreate2Address({
+    from: dexDef.deployer ?? dexDef.factory,
+    salt: keccak256(
+      encodeAbiParameters(
+        [{ type: "address" }, { type: "address" }, { type: "uint24" }],
+        [t0, t1, fee]
+      )
+    ),
+    bytecodeHash: dexDef.initCodeHash,
+  });
+}
+
+/**
+ * 识别一个池属于哪个 DEX（热榜候选没有工厂信息）：
+ * - 先按 CREATE2 推导地址精确匹配
+ * - 推导不了（缺 hash / 缺 fee）时按 DexScreener dexId 匹配同版本的 DEX
+ */
+export function identifyDex(
+  chain: ChainDefinition,
+  version: DexVersion,
+  pool: `0x${string}`,
+  token0: `0x${string}`,
+  token1: `0x${string}`,
+  fee?: number,
+  dexScreenerId?: string
+): DexDefinition | undefined {
+  const candidates = chain.dexes.filter((d) => d.version === version);
+  const addr = pool.toLowerCase();
+  const exact = candidates.find(
+    (d) => computePoolAddress(d, token0, token1, fee)?.toLowerCase() === addr
+  );
+  if (exact) return exact;
+  const id = dexScreenerId?.toLowerCase();
+  if (!id) return undefined;
+  return candidates.find(
+    (d) =>
+      id.includes(d.dexScreenerId) &&
+      (!d.initCodeHash || (d.version === "v3" && fee === undefined))
+  );
+}
+
+/** V4 PoolKey（currency 为 0 地址表示原生币） */
+export interface V4PoolKey {
+  currency0: `0x${string}`;
+  currency1: `0x${string}`;
+  fee: number;
+  tickSpacing: number;
+  hooks: `0x${string}`;
+}
+
+/** PoolId = keccak256(abi.encode(PoolKey)) */
+export function computeV4PoolId(key: V4PoolKey) {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "address" },
+        { type: "address" },
+        { type: "uint24" },
+        { type: "int24" },
+        { type: "address" },
+      ],
+      [key.currency0, key.currency1, key.fee, key.tickSpacing, key.hooks]
+    )
+  );
+}
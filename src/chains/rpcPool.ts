@@ -0,0 +1,368 @@
+import {
+  createPublicClient,
+  createTransport,
+  http,
+  shouldThrow,
+  webSocket,
+  type Chain,
+  type EIP1193RequestFn,
+  type PublicClient,
+  type Transport,
+  type WebSocketTransport,
+} from "viem";
+import { RPC } from "../config.js";
+import { logger } from "../logger.js";
+import type { ChainLabel } from "./registry.js";
+
+/**
+ * 每条链一组 RPC 端点（多个 WSS + 多个 HTTP）：
+ * - 健康度：请求延迟与失败率做 EWMA，定时 eth_blockNumber 探测，落后链头过多的端点降权
+ * - 读请求：按健康度依次尝试，失败自动切到下一个（revert 等确定性错误直接抛出，不计失败）
+ * - 订阅：viem 的 watch* 对 fallback 类型取第一个 WSS；这里按健康度原地重排，
+ *   订阅断开重建（resilientWatch）时自然落到当前最健康的 WSS 上
+ * - quorumRead：关键闸门读取在固定区块上向多个端点取值，多数一致才采信
+ */
+
+type TransportInstance = ReturnType<Transport>;
+type WebSocketValue = NonNullable<ReturnType<WebSocketTransport>["value"]>;
+
+export interface EndpointHealth {
+  url: string;
+  kind: "wss" | "http";
+  latencyMs: number;
+  errorRate: number;
+  lagBlocks: number;
+  penalty: number;
+}
+
+const EWMA_ALPHA = 0.2;
+
+class RpcEndpoint {
+  latencyMs = 0;
+  errorRate = 0;
+  lagBlocks = 0;
+  head: bigint | undefined;
+  instance!: TransportInstance;
+  private client: PublicClient | undefined;
+
+  constructor(
+    readonly url: string,
+    readonly kind: "wss" | "http",
+    readonly transport: Transport
+  ) {}
+
+  record(ok: boolean, ms?: number) {
+    this.errorRate = this.errorRate * (1 - EWMA_ALPHA) + (ok ? 0 : EWMA_ALPHA);
+    if (ms !== undefined) {
+      this.latencyMs = this.latencyMs
+        ? this.latencyMs * (1 - EWMA_ALPHA) + ms * EWMA_ALPHA
+        : ms;
+    }
+  }
+
+  /** 越大越差：失败率为主、延迟为辅，明显落后链头直接垫底 */
+  penalty(maxLatency: number) {
+    const latency = maxLatency > 0 ? this.latencyMs / maxLatency : 0;
+    const lagging = this.lagBlocks > RPC.MAX_LAG_BLOCKS ? 1 : 0;
+    return this.errorRate * 0.7 + latency * 0.3 + lagging;
+  }
+
+  /** 单端点 client（quorumRead 用） */
+  publicClient(chain: Chain) {
+    this.client ??= createPublicClient({ chain, transport: this.transport });
+    return this.client;
+  }
+
+  /** 包一层 subscribe，订阅出错也计入该端点的失败率 */
+  subscriptionTransport(): TransportInstance {
+    const inst = this.instance;
+    const value = inst.value as WebSocketValue | undefined;
+    if (!value?.subscribe) return inst;
+    const { subscribe } = value;
+    const wrapped: WebSocketValue["subscribe"] = (args) =>
+      subscribe({
+        ...args,
+        onError: (e) => {
+          this.record(false);
+          args.onError?.(e);
+        },
+      });
+    return { ...inst, value: { ...value, subscribe: wrapped } };
+  }
+}
+
+export class RpcPool {
+  readonly endpoints: RpcEndpoint[];
+  // 供 watch* 选取订阅端点；WSS 在前，按健康度原地重排
+  private subscribers: TransportInstance[] = [];
+  private client: PublicClient | undefined;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    readonly label: ChainLabel,
+    readonly chain: Chain,
+    urls: { wss: readonly string[]; http: readonly string[] }
+  ) {
+    this.endpoints = [
+      ...urls.wss.map(
+        (u) =>
+          new RpcEndpoint(
+            u,
+            "wss",
+            webSocket(u, { keepAlive: true, reconnect: true })
+          )
+      ),
+      ...urls.http.map((u) => new RpcEndpoint(u, "http", http(u))),
+    ];
+    // 未配置任何端点：退回链默认的公共 HTTP（仅供开发联调）
+    if (!this.endpoints.length) {
+      this.endpoints.push(new RpcEndpoint("default", "http", http()));
+    }
+    for (const ep of this.endpoints) {
+      ep.instance = ep.transport({
+        chain,
+        retryCount: 0,
+        timeout: RPC.TIMEOUT_MS,
+      });
+    }
+    this.subscribers.push(
+      ...this.endpoints.map((ep) => ep.subscriptionTransport())
+    );
+  }
+
+  get size() {
+    return this.endpoints.length;
+  }
+
+  /** 按健康度排序（稳定排序：分数相同保持配置顺序） */
+  ranked() {
+    const maxLatency = Math.max(...this.endpoints.map((e) => e.latencyMs));
+    return [...this.endpoints].sort(
+      (a, b) => a.penalty(maxLatency) - b.penalty(maxLatency)
+    );
+  }
+
+  private rerank() {
+    const ranked = this.ranked();
+    const ordered = [
+      ...ranked.filter((e) => e.kind === "wss"),
+      ...ranked.filter((e) => e.kind === "http"),
+    ];
+    const byEndpoint = new Map(
+      this.endpoints.map((ep, i) => [ep, this.subscribers[i]])
+    );
+    const next = ordered.map((ep) => byEndpoint.get(ep)!);
+    // 原地替换：client.transport.transports 引用的是同一个数组
+    this.endpoints.splice(0, this.endpoints.length, ...ordered);
+    this.subscribers.splice(0, this.subscribers.length, ...next);
+  }
+
+  private async request({
+    method,
+    params,
+  }: {
+    method: string;
+    params?: unknown;
+  }) {
+    let lastErr: unknown;
+    for (const ep of this.ranked()) {
+      const start = Date.now();
+      try {
+        const res = await ep.instance.request({ method, params });
+        ep.record(true, Date.now() - start);
+        return res;
+      } catch (err) {
+        if (shouldThrow(err as Error)) {
+          ep.record(true, Date.now() - start);
+          throw err;
+        }
+        ep.record(false, Date.now() - start);
+        lastErr = err;
+      }
+    }
+    throw lastErr;
+  }
+
+  /** 池化 transport：请求按健康度故障转移，订阅取最健康的 WSS */
+  transport(): Transport<"fallback", { transports: TransportInstance[] }> {
+    return ({ retryCount }) =>
+      createTransport(
+        {
+          key: "rpcPool",
+          name: `RPC Pool (${this.label})`,
+          request: ((args) => this.request(args)) as EIP1193RequestFn,
+          retryCount: retryCount ?? 1,
+          timeout: RPC.TIMEOUT_MS,
+          type: "fallback",
+        },
+        { transports: this.subscribers }
+      );
+  }
+
+  publicClient() {
+    this.client ??= createPublicClient({
+      chain: this.chain,
+      transport: this.transport(),
+      pollingInterval: 1_500,
+    });
+    return this.client;
+  }
+
+  /** 各端点的单独 client，按健康度排序 */
+  endpointClients() {
+    return this.ranked().map((ep) => ep.publicClient(this.chain));
+  }
+
+  /** 定时探测：延迟、可用性与链头落后程度 */
+  async probe() {
+    const heads = await Promise.all(
+      this.endpoints.map(async (ep) => {
+        const start = Date.now();
+        try {
+          const hex = await withTimeout(
+            ep.instance.request({
+              method: "eth_blockNumber",
+            }) as Promise<`0x${string}`>,
+            RPC.TIMEOUT_MS
+          );
+          ep.record(true, Date.now() - start);
+          ep.head = BigInt(hex);
+        } catch {
+          ep.record(false, Date.now() - start);
+        }
+        return ep.head;
+      })
+    );
+    const best = heads.reduce<bigint | undefined>(
+      (m, h) => (h !== undefined && (m === undefined || h > m) ? h : m),
+      undefined
+    );
+    for (const ep of this.endpoints) {
+      ep.lagBlocks =
+        best !== undefined && ep.head !== undefined
+          ? Number(best - ep.head)
+          : 0;
+    }
+    this.rerank();
+  }
+
+  start() {
+    if (this.timer || this.size < 2) return;
+    const tick = () =>
+      this.probe().catch((err) =>
+        logger.warn({ chain: this.label, err: String(err) }, "RPC probe failed")
+      );
+    tick();
+    this.timer = setInterval(tick, RPC.PROBE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  health(): EndpointHealth[] {
+    const maxLatency = Math.max(...this.endpoints.map((e) => e.latencyMs));
+    return this.endpoints.map((ep) => ({
+      url: redactUrl(ep.url),
+      kind: ep.kind,
+      latencyMs: Math.round(ep.latencyMs),
+      errorRate: Number(ep.errorRate.toFixed(3)),
+      lagBlocks: ep.lagBlocks,
+      penalty: Number(ep.penalty(maxLatency).toFixed(3)),
+    }));
+  }
+}
+
+function withTimeout<T>(p: Promise<T>, ms: number) {
+  return new Promise<T>((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error("timeout")), ms);
+    p.then(
+      (v) => {
+        clearTimeout(t);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(t);
+        reject(e);
+      }
+    );
+  });
+}
+
+/** 日志里不打印端点 URL 的 path/query（常带 API key） */
+function redactUrl(url: string) {
+  try {
+    const u = new URL(url);
+    return `${u.protocol}//${u.host}`;
+  } catch {
+    return url;
+  }
+}
+
+const pools = new Map<ChainLabel, RpcPool>();
+
+export function createRpcPool(
+  label: ChainLabel,
+  chain: Chain,
+  urls: { wss: readonly string[]; http: readonly string[] }
+) {
+  const pool = new RpcPool(label, chain, urls);
+  pools.set(label, pool);
+  return pool;
+}
+
+export function getRpcPool(label: ChainLabel) {
+  return pools.get(label);
+}
+
+/**
+ * 多端点一致读：在 (链头 - 1) 上向各端点读取，取值相同的端点数达到 RPC_QUORUM 才返回
+ * - 未开启（RPC_QUORUM<=1）或端点不足 2 个时退化为普通读取
+ * - 要求数不超过端点数；达不到则抛错，由调用方走兜底
+ */
+export async function quorumRead<T>(
+  chain: ChainLabel,
+  client: PublicClient,
+  read: (client: PublicClient, blockNumber?: bigint) => Promise<T>
+): Promise<T> {
+  const pool = getRpcPool(chain);
+  if (!pool || RPC.QUORUM <= 1 || pool.size < 2) return read(client);
+
+  const need = Math.min(RPC.QUORUM, pool.size);
+  const blockNumber = (await client.getBlockNumber()) - 1n;
+  const results = await Promise.allSettled(
+    pool.endpointClients().map((c) => read(c, blockNumber))
+  );
+
+  const tally = new Map<string, { value: T; count: number }>();
+  for (const r of results) {
+    if (r.status !== "fulfilled") continue;
+    const k = stableKey(r.value);
+    const hit = tally.get(k);
+    if (hit) hit.count++;
+    else tally.set(k, { value: r.value, count: 1 });
+  }
+  const best = [...tally.values()].sort((a, b) => b.count - a.count)[0];
+  if (!best || best.count < need) {
+    throw new Error(
+      `rpc quorum not reached (${best?.count ?? 0}/${need}, ${
+        tally.size
+      } distinct results)`
+    );
+  }
+  if (tally.size > 1) {
+    logger.warn(
+      { chain, blockNumber: blockNumber.toString(), distinct: tally.size },
+      "RPC endpoints disagree on quorum read"
+    );
+  }
+  return best.value;
+}
+
+function stableKey(v: unknown) {
+  return JSON.stringify(v, (_k, x) =>
+    typeof x === "bigint" ? `${x.toString()}n` : x
+  );
+}
@@ -1,7 +1,15 @@
-import { parseAbiItem, PublicClient } from "viem";
+import { parseAbiItem, PublicClient, type AbiEvent } from "viem";
 import { ABI } from "./abis.js";
 import { CHAINS } from "../config.js";
 import { logger } from "../logger.js";
+import type { EvmClients } from "./evmClient.js";
+import { computeV4PoolId, type ChainLabel } from "./registry.js";
+import {
+  getChainCursor,
+  resilientWatch,
+  type ChainLogCursor,
+} from "./backfill.js";
+import { getLogMux } from "./logMux.js";
 
 type LogArgs = Record<string | number, unknown> | readonly unknown[] | undefined;
 
@@ -25,13 +33,23 @@ const poolCreatedItem = parseAbiItem(ABI.v3Factory[0]); // PoolCreated
 
 const v2SwapItem = parseAbiItem(ABI.v2Pair[0]); // Swap (V2)
 const v2MintItem = parseAbiItem(ABI.v2Pair[1]); // Mint (V2)
+const v2BurnItem = parseAbiItem(ABI.v2Pair[2]); // Burn (V2)
+const v2SyncItem = parseAbiItem(ABI.v2Pair[3]); // Sync (V2)
 
 const v3SwapItem = parseAbiItem(ABI.v3Pool[0]); // Swap (V3)
+const v3MintItem = parseAbiItem(ABI.v3Pool[1]); // Mint (V3)
+const v3BurnItem = parseAbiItem(ABI.v3Pool[2]); // Burn (V3)
+const v3CollectItem = parseAbiItem(ABI.v3Pool[3]); // Collect (V3)
+
+const v4InitializeItem = parseAbiItem(ABI.v4PoolManager[0]); // Initialize (V4)
+const v4SwapItem = parseAbiItem(ABI.v4PoolManager[1]); // Swap (V4)
+const v4ModifyLiquidityItem = parseAbiItem(ABI.v4PoolManager[2]); // ModifyLiquidity (V4)
 
 /** 回调类型定义 */
 export type FactoryHandlers = {
   onNewV2Pair: (ctx: {
-    chain: "BSC" | "ETH";
+    chain: ChainLabel;
+    dex: string; // registry 中的 DEX 名
     factory: `0x${string}`;
     pair: `0x${string}`;
     token0: `0x${string}`;
@@ -40,7 +58,8 @@ export type FactoryHandlers = {
   }) => void;
 
   onNewV3Pool: (ctx: {
-    chain: "BSC" | "ETH";
+    chain: ChainLabel;
+    dex: string;
     factory: `0x${string}`;
     pool: `0x${string}`;
     token0: `0x${string}`;
@@ -48,11 +67,25 @@ export type FactoryHandlers = {
     fee: number;
     log: any;
   }) => void;
+
+  onNewV4Pool: (ctx: {
+    chain: ChainLabel;
+    dex: string;
+    poolManager: `0x${string}`;
+    poolId: `0x${string}`;
+    currency0: `0x${string}`; // 0 地址 = 原生币
+    currency1: `0x${string}`;
+    fee: number;
+    tickSpacing: number;
+    hooks: `0x${string}`;
+    log: any;
+  }) => void;
 };
 
+/** 市场事件回调可以是异步的：返回的 Promise 被拒绝时由多路复用器记日志 */
 export type PairHandlers = {
   onV2Swap?: (ctx: {
-    chain: "BSC" | "ETH";
+    chain: ChainLabel;
     pair: `0x${string}`;
     args: {
       sender: `0x${string}`;
@@ -62,20 +95,44 @@ export type PairHandlers = {
       amount1Out: bigint;
       to: `0x${string}`;
     };
+    removed: boolean; // 链重组移除了这条日志
     log: any;
-  }) => void;
+  }) => void | Promise<void>;
 
   onV2Mint?: (ctx: {
-    chain: "BSC" | "ETH";
+    chain: ChainLabel;
     pair: `0x${string}`;
     args: { sender: `0x${string}`; amount0: bigint; amount1: bigint };
+    removed: boolean;
     log: any;
-  }) => void;
+  }) => void | Promise<void>;
+
+  onV2Burn?: (ctx: {
+    chain: ChainLabel;
+    pair: `0x${string}`;
+    args: {
+      sender: `0x${string}`;
+      amount0: bigint;
+      amount1: bigint;
+      to: `0x${string}`;
+    };
+    removed: boolean;
+    log: any;
+  }) => void | Promise<void>;
+
+  // 同一笔交易里 Sync 先于 Swap/Mint/Burn 发出，携带变化后的储备
+  onV2Sync?: (ctx: {
+    chain: ChainLabel;
+    pair: `0x${string}`;
+    args: { reserve0: bigint; reserve1: bigint };
+    removed: boolean;
+    log: any;
+  }) => void | Promise<void>;
 };
 
 export type PoolHandlers = {
   onV3Swap?: (ctx: {
-    chain: "BSC" | "ETH";
+    chain: ChainLabel;
     pool: `0x${string}`;
     args: {
       sender: `0x${string}`;
@@ -86,260 +143,554 @@ export type PoolHandlers = {
       liquidity: bigint;
       tick: number;
     };
+    removed: boolean;
     log: any;
-  }) => void;
+  }) => void | Promise<void>;
+
+  // Mint/Burn 的 amount 为头寸流动性（L），amount0/amount1 为对应代币数量
+  onV3Mint?: (ctx: {
+    chain: ChainLabel;
+    pool: `0x${string}`;
+    args: {
+      owner: `0x${string}`;
+      tickLower: number;
+      tickUpper: number;
+      amount: bigint;
+      amount0: bigint;
+      amount1: bigint;
+    };
+    removed: boolean;
+    log: any;
+  }) => void | Promise<void>;
+
+  onV3Burn?: (ctx: {
+    chain: ChainLabel;
+    pool: `0x${string}`;
+    args: {
+      owner: `0x${string}`;
+      tickLower: number;
+      tickUpper: number;
+      amount: bigint;
+      amount0: bigint;
+      amount1: bigint;
+    };
+    removed: boolean;
+    log: any;
+  }) => void | Promise<void>;
+
+  onV3Collect?: (ctx: {
+    chain: ChainLabel;
+    pool: `0x${string}`;
+    args: {
+      owner: `0x${string}`;
+      recipient: `0x${string}`;
+      amount0: bigint;
+      amount1: bigint;
+    };
+    removed: boolean;
+    log: any;
+  }) => void | Promise<void>;
+};
+
+export type V4PoolHandlers = {
+  onV4Swap?: (ctx: {
+    chain: ChainLabel;
+    poolId: `0x${string}`;
+    args: {
+      sender: `0x${string}`; // 调用 PoolManager 的合约（通常是路由），不是最终交易者
+      amount0: bigint; // 注意：V4 为交易者视角，<0 表示付出，>0 表示收到
+      amount1: bigint;
+      sqrtPriceX96: bigint;
+      liquidity: bigint;
+      tick: number;
+      fee: number;
+    };
+    removed: boolean;
+    log: any;
+  }) => void | Promise<void>;
+
+  onV4ModifyLiquidity?: (ctx: {
+    chain: ChainLabel;
+    poolId: `0x${string}`;
+    args: {
+      sender: `0x${string}`; // 调用 PoolManager 的合约（通常是 PositionManager）
+      tickLower: number;
+      tickUpper: number;
+      liquidityDelta: bigint; // >0 加池，<0 撤池
+    };
+    removed: boolean;
+    log: any;
+  }) => void | Promise<void>;
 };
 
-/** —— 工厂订阅：新建 Pair/Pool —— */
+/**
+ * 订阅一个合约事件（工厂），并注册为可回放的日志源：
+ * - WSS 出错时自动重建订阅（resilientWatch）
+ * - 断线期间的日志由游标 eth_getLogs 补回，走同一个 onLog
+ * - 实时与回放重叠的日志按 (txHash, logIndex) 只处理一次
+ */
+function watchReplayable(
+  client: PublicClient,
+  cursor: ChainLogCursor,
+  id: string,
+  address: `0x${string}`,
+  event: AbiEvent,
+  onLog: (log: any) => void
+): () => void {
+  const dispatch = (logs: any[]) => {
+    for (const l of logs) {
+      if (!cursor.accept(l)) continue;
+      onLog(l);
+    }
+  };
+  const unregister = cursor.register({
+    id,
+    addresses: () => [address],
+    events: () => [event],
+    dispatch,
+  });
+  const unwatch = resilientWatch(id, cursor, (onError) =>
+    client.watchEvent({ address, event, onLogs: dispatch, onError })
+  );
+  return () => {
+    unwatch();
+    unregister();
+  };
+}
+
+/** —— 工厂订阅：注册表中每个 DEX 的新建 Pair/Pool —— */
 export function watchFactories(
-  clients: { bsc: PublicClient; ethereum: PublicClient },
+  clients: EvmClients,
   handlers: FactoryHandlers
 ) {
-  // BSC - Pancake V2
-  clients.bsc.watchEvent({
-    address: CHAINS.bsc.dex.pancakeV2Factory as `0x${string}`,
-    event: pairCreatedItem,
-    onLogs: (logs) => {
-      for (const l of logs) {
-        const token0 =
-          getLogArg<`0x${string}`>(l.args, "token0", 0) ??
-          getLogArg<`0x${string}`>(l.args, "arg0", 0);
-        const token1 =
-          getLogArg<`0x${string}`>(l.args, "token1", 1) ??
-          getLogArg<`0x${string}`>(l.args, "arg1", 1);
-        const pair = getLogArg<`0x${string}`>(l.args, "pair", 2);
-        if (!token0 || !token1 || !pair) {
-          logger.warn({ args: l.args }, "PairCreated log missing fields");
-          continue;
-        }
-        logger.info({ pair }, "BSC V2 PairCreated");
-        handlers.onNewV2Pair({
-          chain: "BSC",
-          factory: CHAINS.bsc.dex.pancakeV2Factory as `0x${string}`,
-          pair,
-          token0,
-          token1,
-          log: l,
-        });
-      }
-    },
-    onError: (e) => logger.error(e, "BSC V2 PairCreated subscription error"),
-  });
+  const factories = Object.values(CHAINS).flatMap((cfg) =>
+    cfg.dexes.map((d) => ({ chain: cfg.label, dex: d }))
+  );
 
-  // BSC - Pancake V3
-  clients.bsc.watchEvent({
-    address: CHAINS.bsc.dex.pancakeV3Factory as `0x${string}`,
-    event: poolCreatedItem,
-    onLogs: (logs) => {
-      for (const l of logs) {
-        const token0 = getLogArg<`0x${string}`>(l.args, "token0", 0);
-        const token1 = getLogArg<`0x${string}`>(l.args, "token1", 1);
-        const feeRaw = getLogArg<number | bigint>(l.args, "fee", 2);
-        const pool = getLogArg<`0x${string}`>(l.args, "pool", 4);
-        if (!token0 || !token1 || feeRaw === undefined || !pool) {
-          logger.warn({ args: l.args }, "PoolCreated log missing fields");
-          continue;
+  for (const { chain, dex } of factories) {
+    const client = clients[chain];
+    const cursor = getChainCursor(chain, client);
+    const factory = dex.factory;
+    if (dex.version === "v2") {
+      watchReplayable(
+        client,
+        cursor,
+        `${chain} ${dex.name} PairCreated`,
+        factory,
+        pairCreatedItem,
+        (l) => {
+          if (l.removed) return; // 新池被重组移除：交由闸门/扫尾自然淘汰
+          const token0 =
+            getLogArg<`0x${string}`>(l.args, "token0", 0) ??
+            getLogArg<`0x${string}`>(l.args, "arg0", 0);
+          const token1 =
+            getLogArg<`0x${string}`>(l.args, "token1", 1) ??
+            getLogArg<`0x${string}`>(l.args, "arg1", 1);
+          const pair = getLogArg<`0x${string}`>(l.args, "pair", 2);
+          if (!token0 || !token1 || !pair) {
+            logger.warn({ args: l.args }, "PairCreated log missing fields");
+            return;
+          }
+          logger.info({ pair, dex: dex.name }, `${chain} V2 PairCreated`);
+          handlers.onNewV2Pair({
+            chain,
+            dex: dex.name,
+            factory,
+            pair,
+            token0,
+            token1,
+            log: l,
+          });
         }
-        const fee = typeof feeRaw === "bigint" ? Number(feeRaw) : Number(feeRaw);
-        logger.info({ pool, fee }, "BSC V3 PoolCreated");
-        handlers.onNewV3Pool({
-          chain: "BSC",
-          factory: CHAINS.bsc.dex.pancakeV3Factory as `0x${string}`,
-          pool,
-          token0,
-          token1,
-          fee: Number(fee),
-          log: l,
-        });
-      }
-    },
-    onError: (e) => logger.error(e, "BSC V3 PoolCreated subscription error"),
-  });
-
-  // ETH - Uniswap V2
-  clients.ethereum.watchEvent({
-    address: CHAINS.ethereum.dex.uniV2Factory as `0x${string}`,
-    event: pairCreatedItem,
-    onLogs: (logs) => {
-      for (const l of logs) {
-        const token0 =
-          getLogArg<`0x${string}`>(l.args, "token0", 0) ??
-          getLogArg<`0x${string}`>(l.args, "arg0", 0);
-        const token1 =
-          getLogArg<`0x${string}`>(l.args, "token1", 1) ??
-          getLogArg<`0x${string}`>(l.args, "arg1", 1);
-        const pair = getLogArg<`0x${string}`>(l.args, "pair", 2);
-        if (!token0 || !token1 || !pair) {
-          logger.warn({ args: l.args }, "PairCreated log missing fields");
-          continue;
+      );
+    } else if (dex.version === "v3") {
+      watchReplayable(
+        client,
+        cursor,
+        `${chain} ${dex.name} PoolCreated`,
+        factory,
+        poolCreatedItem,
+        (l) => {
+          if (l.removed) return;
+          const token0 = getLogArg<`0x${string}`>(l.args, "token0", 0);
+          const token1 = getLogArg<`0x${string}`>(l.args, "token1", 1);
+          const feeRaw = getLogArg<number | bigint>(l.args, "fee", 2);
+          const pool = getLogArg<`0x${string}`>(l.args, "pool", 4);
+          if (!token0 || !token1 || feeRaw === undefined || !pool) {
+            logger.warn({ args: l.args }, "PoolCreated log missing fields");
+            return;
+          }
+          const fee = typeof feeRaw === "bigint" ? Number(feeRaw) : Number(feeRaw);
+          logger.info({ pool, fee, dex: dex.name }, `${chain} V3 PoolCreated`);
+          handlers.onNewV3Pool({
+            chain,
+            dex: dex.name,
+            factory,
+            pool,
+            token0,
+            token1,
+            fee: Number(fee),
+            log: l,
+          });
         }
-        logger.info({ pair }, "ETH V2 PairCreated");
-        handlers.onNewV2Pair({
-          chain: "ETH",
-          factory: CHAINS.ethereum.dex.uniV2Factory as `0x${string}`,
-          pair,
-          token0,
-          token1,
-          log: l,
-        });
-      }
-    },
-    onError: (e) => logger.error(e, "ETH V2 PairCreated subscription error"),
-  });
-
-  // ETH - Uniswap V3
-  clients.ethereum.watchEvent({
-    address: CHAINS.ethereum.dex.uniV3Factory as `0x${string}`,
-    event: poolCreatedItem,
-    onLogs: (logs) => {
-      for (const l of logs) {
-        const token0 = getLogArg<`0x${string}`>(l.args, "token0", 0);
-        const token1 = getLogArg<`0x${string}`>(l.args, "token1", 1);
-        const feeRaw = getLogArg<number | bigint>(l.args, "fee", 2);
-        const pool = getLogArg<`0x${string}`>(l.args, "pool", 4);
-        if (!token0 || !token1 || feeRaw === undefined || !pool) {
-          logger.warn({ args: l.args }, "PoolCreated log missing fields");
-          continue;
+      );
+    } else {
+      watchReplayable(
+        client,
+        cursor,
+        `${chain} ${dex.name} Initialize`,
+        factory,
+        v4InitializeItem,
+        (l) => {
+          if (l.removed) return;
+          const poolId = getLogArg<`0x${string}`>(l.args, "id", 0);
+          const currency0 = getLogArg<`0x${string}`>(l.args, "currency0", 1);
+          const currency1 = getLogArg<`0x${string}`>(l.args, "currency1", 2);
+          const fee = getLogArg<number>(l.args, "fee", 3);
+          const tickSpacing = getLogArg<number>(l.args, "tickSpacing", 4);
+          const hooks = getLogArg<`0x${string}`>(l.args, "hooks", 5);
+          if (
+            !poolId ||
+            !currency0 ||
+            !currency1 ||
+            fee === undefined ||
+            tickSpacing === undefined ||
+            !hooks
+          ) {
+            logger.warn({ args: l.args }, "V4 Initialize log missing fields");
+            return;
+          }
+          const key = {
+            currency0,
+            currency1,
+            fee: Number(fee),
+            tickSpacing: Number(tickSpacing),
+            hooks,
+          };
+          if (computeV4PoolId(key) !== poolId.toLowerCase()) {
+            logger.warn({ poolId, key }, "V4 Initialize PoolId mismatch");
+            return;
+          }
+          logger.info(
+            { poolId, fee: key.fee, hooks, dex: dex.name },
+            `${chain} V4 Initialize`
+          );
+          handlers.onNewV4Pool({
+            chain,
+            dex: dex.name,
+            poolManager: factory,
+            poolId,
+            ...key,
+            log: l,
+          });
         }
-        const fee = typeof feeRaw === "bigint" ? Number(feeRaw) : Number(feeRaw);
-        logger.info({ pool, fee }, "ETH V3 PoolCreated");
-        handlers.onNewV3Pool({
-          chain: "ETH",
-          factory: CHAINS.ethereum.dex.uniV3Factory as `0x${string}`,
-          pool,
-          token0,
-          token1,
-          fee: Number(fee),
-          log: l,
-        });
-      }
-    },
-    onError: (e) => logger.error(e, "ETH V3 PoolCreated subscription error"),
-  });
+      );
+    }
+  }
 }
 
-/** —— Pair 订阅：V2 Swap/Mint —— */
+/** —— Pair 订阅：V2 Swap/Mint/Burn/Sync（挂到链级日志多路复用器，不新建订阅） —— */
 export function watchV2Pair(
   client: PublicClient,
-  chainLabel: "BSC" | "ETH",
+  chainLabel: ChainLabel,
   pair: `0x${string}`,
   handlers: PairHandlers
 ): () => void {
-  const unwatchSwap = client.watchEvent({
-    address: pair,
-    event: v2SwapItem,
-    onLogs: (logs) => {
-      for (const l of logs) {
-        const sender = getLogArg<`0x${string}`>(l.args, "sender", 0);
-        const amount0In = getLogArg<bigint>(l.args, "amount0In", 1);
-        const amount1In = getLogArg<bigint>(l.args, "amount1In", 2);
-        const amount0Out = getLogArg<bigint>(l.args, "amount0Out", 3);
-        const amount1Out = getLogArg<bigint>(l.args, "amount1Out", 4);
-        const to = getLogArg<`0x${string}`>(l.args, "to", 5);
-        if (
-          !sender ||
-          amount0In === undefined ||
-          amount1In === undefined ||
-          amount0Out === undefined ||
-          amount1Out === undefined ||
-          !to
-        ) {
-          logger.warn({ args: l.args, pair }, "V2 Swap log missing fields");
-          continue;
-        }
-        handlers.onV2Swap?.({
-          chain: chainLabel,
-          pair,
-          args: { sender, amount0In, amount1In, amount0Out, amount1Out, to },
-          log: l,
-        });
-      }
-    },
-    onError: (e) => logger.error({ pair }, "V2 Swap subscribe error"),
-  });
+  const onSwap = (l: any) => {
+    const sender = getLogArg<`0x${string}`>(l.args, "sender", 0);
+    const amount0In = getLogArg<bigint>(l.args, "amount0In", 1);
+    const amount1In = getLogArg<bigint>(l.args, "amount1In", 2);
+    const amount0Out = getLogArg<bigint>(l.args, "amount0Out", 3);
+    const amount1Out = getLogArg<bigint>(l.args, "amount1Out", 4);
+    const to = getLogArg<`0x${string}`>(l.args, "to", 5);
+    if (
+      !sender ||
+      amount0In === undefined ||
+      amount1In === undefined ||
+      amount0Out === undefined ||
+      amount1Out === undefined ||
+      !to
+    ) {
+      logger.warn({ args: l.args, pair }, "V2 Swap log missing fields");
+      return;
+    }
+    return handlers.onV2Swap?.({
+      chain: chainLabel,
+      pair,
+      args: { sender, amount0In, amount1In, amount0Out, amount1Out, to },
+      removed: !!l.removed,
+      log: l,
+    });
+  };
 
-  const unwatchMint = client.watchEvent({
-    address: pair,
-    event: v2MintItem,
-    onLogs: (logs) => {
-      for (const l of logs) {
-        const sender = getLogArg<`0x${string}`>(l.args, "sender", 0);
-        const amount0 = getLogArg<bigint>(l.args, "amount0", 1);
-        const amount1 = getLogArg<bigint>(l.args, "amount1", 2);
-        if (!sender || amount0 === undefined || amount1 === undefined) {
-          logger.warn({ args: l.args, pair }, "V2 Mint log missing fields");
-          continue;
-        }
-        handlers.onV2Mint?.({
-          chain: chainLabel,
-          pair,
-          args: { sender, amount0, amount1 },
-          log: l,
-        });
-      }
-    },
-    onError: (e) => logger.error({ pair }, "V2 Mint subscribe error"),
-  });
+  const onMint = (l: any) => {
+    const sender = getLogArg<`0x${string}`>(l.args, "sender", 0);
+    const amount0 = getLogArg<bigint>(l.args, "amount0", 1);
+    const amount1 = getLogArg<bigint>(l.args, "amount1", 2);
+    if (!sender || amount0 === undefined || amount1 === undefined) {
+      logger.warn({ args: l.args, pair }, "V2 Mint log missing fields");
+      return;
+    }
+    return handlers.onV2Mint?.({
+      chain: chainLabel,
+      pair,
+      args: { sender, amount0, amount1 },
+      removed: !!l.removed,
+      log: l,
+    });
+  };
 
-  return () => {
-    unwatchSwap?.();
-    unwatchMint?.();
+  const onBurn = (l: any) => {
+    const sender = getLogArg<`0x${string}`>(l.args, "sender", 0);
+    const amount0 = getLogArg<bigint>(l.args, "amount0", 1);
+    const amount1 = getLogArg<bigint>(l.args, "amount1", 2);
+    const to = getLogArg<`0x${string}`>(l.args, "to", 3);
+    if (!sender || amount0 === undefined || amount1 === undefined || !to) {
+      logger.warn({ args: l.args, pair }, "V2 Burn log missing fields");
+      return;
+    }
+    return handlers.onV2Burn?.({
+      chain: chainLabel,
+      pair,
+      args: { sender, amount0, amount1, to },
+      removed: !!l.removed,
+      log: l,
+    });
   };
+
+  const onSync = (l: any) => {
+    const reserve0 = getLogArg<bigint>(l.args, "reserve0", 0);
+    const reserve1 = getLogArg<bigint>(l.args, "reserve1", 1);
+    if (reserve0 === undefined || reserve1 === undefined) {
+      logger.warn({ args: l.args, pair }, "V2 Sync log missing fields");
+      return;
+    }
+    return handlers.onV2Sync?.({
+      chain: chainLabel,
+      pair,
+      args: { reserve0, reserve1 },
+      removed: !!l.removed,
+      log: l,
+    });
+  };
+
+  // 只注册传了 handler 的事件（等待加池的市场只订 Mint，开销最小）
+  return getLogMux(chainLabel, client).register(
+    pair,
+    [
+      handlers.onV2Swap && { event: v2SwapItem, onLog: onSwap },
+      handlers.onV2Mint && { event: v2MintItem, onLog: onMint },
+      handlers.onV2Burn && { event: v2BurnItem, onLog: onBurn },
+      handlers.onV2Sync && { event: v2SyncItem, onLog: onSync },
+    ].filter((r) => !!r)
+  );
 }
 
-/** —— Pool 订阅：V3 Swap —— */
+/** —— Pool 订阅：V3 Swap/Mint/Burn/Collect（同上，走多路复用器） —— */
 export function watchV3Pool(
   client: PublicClient,
-  chainLabel: "BSC" | "ETH",
+  chainLabel: ChainLabel,
   pool: `0x${string}`,
   handlers: PoolHandlers
 ): () => void {
-  const unwatchSwap = client.watchEvent({
-    address: pool,
-    event: v3SwapItem,
-    onLogs: (logs) => {
-      for (const l of logs) {
-        const sender = getLogArg<`0x${string}`>(l.args, "sender", 0);
-        const recipient = getLogArg<`0x${string}`>(l.args, "recipient", 1);
-        const amount0 = getLogArg<bigint>(l.args, "amount0", 2);
-        const amount1 = getLogArg<bigint>(l.args, "amount1", 3);
-        const sqrtPriceX96 = getLogArg<bigint>(l.args, "sqrtPriceX96", 4);
-        const liquidity = getLogArg<bigint>(l.args, "liquidity", 5);
-        const tickRaw = getLogArg<number | bigint>(l.args, "tick", 6);
-        if (
-          !sender ||
-          !recipient ||
-          amount0 === undefined ||
-          amount1 === undefined ||
-          sqrtPriceX96 === undefined ||
-          liquidity === undefined ||
-          tickRaw === undefined
-        ) {
-          logger.warn({ args: l.args, pool }, "V3 Swap log missing fields");
-          continue;
-        }
-        const tick =
-          typeof tickRaw === "bigint" ? Number(tickRaw) : Number(tickRaw);
-        handlers.onV3Swap?.({
-          chain: chainLabel,
-          pool,
-          args: {
-            sender,
-            recipient,
-            amount0,
-            amount1,
-            sqrtPriceX96,
-            liquidity,
-            tick: Number(tick),
-          },
-          log: l,
-        });
+  const onSwap = (l: any) => {
+    const sender = getLogArg<`0x${string}`>(l.args, "sender", 0);
+    const recipient = getLogArg<`0x${string}`>(l.args, "recipient", 1);
+    const amount0 = getLogArg<bigint>(l.args, "amount0", 2);
+    const amount1 = getLogArg<bigint>(l.args, "amount1", 3);
+    const sqrtPriceX96 = getLogArg<bigint>(l.args, "sqrtPriceX96", 4);
+    const liquidity = getLogArg<bigint>(l.args, "liquidity", 5);
+    const tickRaw = getLogArg<number | bigint>(l.args, "tick", 6);
+    if (
+      !sender ||
+      !recipient ||
+      amount0 === undefined ||
+      amount1 === undefined ||
+      sqrtPriceX96 === undefined ||
+      liquidity === undefined ||
+      tickRaw === undefined
+    ) {
+      logger.warn({ args: l.args, pool }, "V3 Swap log missing fields");
+      return;
+    }
+    const tick =
+      typeof tickRaw === "bigint" ? Number(tickRaw) : Number(tickRaw);
+    return handlers.onV3Swap?.({
+      chain: chainLabel,
+      pool,
+      args: {
+        sender,
+        recipient,
+        amount0,
+        amount1,
+        sqrtPriceX96,
+        liquidity,
+        tick: Number(tick),
+      },
+      removed: !!l.removed,
+      log: l,
+    });
+  };
+
+  // Mint 与 Burn 字段相同，只是 Mint 多一个非 indexed 的 sender
+  const onPosition =
+    (kind: "Mint" | "Burn", handler: PoolHandlers["onV3Mint"]) =>
+    (l: any) => {
+      const o = kind === "Mint" ? 1 : 0;
+      const owner = getLogArg<`0x${string}`>(l.args, "owner", o);
+      const tickLower = getLogArg<number>(l.args, "tickLower", o + 1);
+      const tickUpper = getLogArg<number>(l.args, "tickUpper", o + 2);
+      const amount = getLogArg<bigint>(l.args, "amount", o + 3);
+      const amount0 = getLogArg<bigint>(l.args, "amount0", o + 4);
+      const amount1 = getLogArg<bigint>(l.args, "amount1", o + 5);
+      if (
+        !owner ||
+        tickLower === undefined ||
+        tickUpper === undefined ||
+        amount === undefined ||
+        amount0 === undefined ||
+        amount1 === undefined
+      ) {
+        logger.warn({ args: l.args, pool }, `V3 ${kind} log missing fields`);
+        return;
       }
-    },
-    onError: (e) => logger.error({ pool }, "V3 Swap subscribe error"),
-  });
+      return handler?.({
+        chain: chainLabel,
+        pool,
+        args: {
+          owner,
+          tickLower: Number(tickLower),
+          tickUpper: Number(tickUpper),
+          amount,
+          amount0,
+          amount1,
+        },
+        removed: !!l.removed,
+        log: l,
+      });
+    };
 
-  return () => {
-    unwatchSwap?.();
+  const onCollect = (l: any) => {
+    const owner = getLogArg<`0x${string}`>(l.args, "owner", 0);
+    const recipient = getLogArg<`0x${string}`>(l.args, "recipient", 1);
+    const amount0 = getLogArg<bigint>(l.args, "amount0", 4);
+    const amount1 = getLogArg<bigint>(l.args, "amount1", 5);
+    if (!owner || !recipient || amount0 === undefined || amount1 === undefined) {
+      logger.warn({ args: l.args, pool }, "V3 Collect log missing fields");
+      return;
+    }
+    return handlers.onV3Collect?.({
+      chain: chainLabel,
+      pool,
+      args: { owner, recipient, amount0, amount1 },
+      removed: !!l.removed,
+      log: l,
+    });
+  };
+
+  return getLogMux(chainLabel, client).register(
+    pool,
+    [
+      handlers.onV3Swap && { event: v3SwapItem, onLog: onSwap },
+      handlers.onV3Mint && {
+        event: v3MintItem,
+        onLog: onPosition("Mint", handlers.onV3Mint),
+      },
+      handlers.onV3Burn && {
+        event: v3BurnItem,
+        onLog: onPosition("Burn", handlers.onV3Burn),
+      },
+      handlers.onV3Collect && { event: v3CollectItem, onLog: onCollect },
+    ].filter((r) => !!r)
+  );
+}
+
+/** —— V4 Pool 订阅：PoolManager 上按 PoolId 分发的 Swap/ModifyLiquidity（走多路复用器） —— */
+export function watchV4Pool(
+  client: PublicClient,
+  chainLabel: ChainLabel,
+  poolManager: `0x${string}`,
+  poolId: `0x${string}`,
+  handlers: V4PoolHandlers
+): () => void {
+  const onSwap = (l: any) => {
+    const sender = getLogArg<`0x${string}`>(l.args, "sender", 1);
+    const amount0 = getLogArg<bigint>(l.args, "amount0", 2);
+    const amount1 = getLogArg<bigint>(l.args, "amount1", 3);
+    const sqrtPriceX96 = getLogArg<bigint>(l.args, "sqrtPriceX96", 4);
+    const liquidity = getLogArg<bigint>(l.args, "liquidity", 5);
+    const tick = getLogArg<number>(l.args, "tick", 6);
+    const fee = getLogArg<number>(l.args, "fee", 7);
+    if (
+      !sender ||
+      amount0 === undefined ||
+      amount1 === undefined ||
+      sqrtPriceX96 === undefined ||
+      liquidity === undefined ||
+      tick === undefined ||
+      fee === undefined
+    ) {
+      logger.warn({ args: l.args, poolId }, "V4 Swap log missing fields");
+      return;
+    }
+    return handlers.onV4Swap?.({
+      chain: chainLabel,
+      poolId,
+      args: {
+        sender,
+        amount0,
+        amount1,
+        sqrtPriceX96,
+        liquidity,
+        tick: Number(tick),
+        fee: Number(fee),
+      },
+      removed: !!l.removed,
+      log: l,
+    });
   };
+
+  const onModifyLiquidity = (l: any) => {
+    const sender = getLogArg<`0x${string}`>(l.args, "sender", 1);
+    const tickLower = getLogArg<number>(l.args, "tickLower", 2);
+    const tickUpper = getLogArg<number>(l.args, "tickUpper", 3);
+    const liquidityDelta = getLogArg<bigint>(l.args, "liquidityDelta", 4);
+    if (
+      !sender ||
+      tickLower === undefined ||
+      tickUpper === undefined ||
+      liquidityDelta === undefined
+    ) {
+      logger.warn(
+        { args: l.args, poolId },
+        "V4 ModifyLiquidity log missing fields"
+      );
+      return;
+    }
+    return handlers.onV4ModifyLiquidity?.({
+      chain: chainLabel,
+      poolId,
+      args: {
+        sender,
+        tickLower: Number(tickLower),
+        tickUpper: Number(tickUpper),
+        liquidityDelta,
+      },
+      removed: !!l.removed,
+      log: l,
+    });
+  };
+
+  // 同 V2：只注册传了 handler 的事件（等待加池的市场只订 ModifyLiquidity）
+  return getLogMux(chainLabel, client).register(
+    poolManager,
+    [
+      handlers.onV4Swap && { event: v4SwapItem, onLog: onSwap },
+      handlers.onV4ModifyLiquidity && {
+        event: v4ModifyLiquidityItem,
+        onLog: onModifyLiquidity,
+      },
+    ].filter((r) => !!r),
+    poolId
+  );
 }
@@ -1,30 +1,214 @@
 import "dotenv/config";
 import { z } from "zod";
-import { dex } from "./chains/dexAddresses.js";
+import {
+  CHAIN_DEFINITIONS,
+  type ChainDefinition,
+  type ChainLabel,
+} from "./chains/registry.js";
 
 /** 环境变量校验与默认值 */
-const EnvSchema = z.object({
-  BSC_WSS: z.string().url().or(z.string().min(1)).describe("BSC WSS RPC URL"),
-  ETH_WSS: z.string().url().or(z.string().min(1)).describe("ETH WSS RPC URL"),
-
-  // TG_BOT_TOKEN: z.string().min(1),
-  // TG_CHAT_ID: z.string().min(1),
-
-  MIN_LIQ_USD: z.string().optional(),
-  BUY_VOL_1M_USD: z.string().optional(),
-  BUY_TXS_1M: z.string().optional(),
-  VOLUME_MULTIPLIER: z.string().optional(),
-  FDV_MULTIPLIER: z.string().optional(),
-  WHALE_SINGLE_BUY_USD: z.string().optional(),
-  WHALE_LIQUIDITY_RATIO: z.string().optional(),
-  MAX_ACTIVE_MARKETS: z.string().optional(),
-  TRENDING_POLL_INTERVAL_MS: z.string().optional(),
-  TRENDING_MIN_LIQ_USD: z.string().optional(),
-  TRENDING_TOP_K: z.string().optional(),
-});
+const EnvSchema = z
+  .object({
+    // 各链 RPC 见 loadChains：<LABEL>_WSS / <LABEL>_HTTP / <LABEL>_CONFIRMATIONS
+    CHAINS_ENABLED: z.string().optional(),
+    LAUNCHPADS: z.string().optional(),
+    LP_LOCKERS: z.string().optional(),
+    RPC_QUORUM: z.string().optional(),
+    RPC_PROBE_INTERVAL_MS: z.string().optional(),
+
+    NOTIFIER: z.enum(["console", "telegram"]).optional(),
+    TG_BOT_TOKEN: z.string().min(1).optional(),
+    TG_CHAT_ID: z.string().min(1).optional(),
+    TG_API_BASE: z.string().url().optional(),
+    TG_PARSE_MODE: z.enum(["HTML", "MarkdownV2"]).optional(),
+    NOTIFY_CHANNELS: z.string().optional(),
+    NOTIFY_ROUTES: z.string().optional(),
+
+    MIN_LIQ_USD: z.string().optional(),
+    BUY_VOL_1M_USD: z.string().optional(),
+    BUY_TXS_1M: z.string().optional(),
+    VOLUME_MULTIPLIER: z.string().optional(),
+    FDV_MULTIPLIER: z.string().optional(),
+    WHALE_SINGLE_BUY_USD: z.string().optional(),
+    WHALE_LIQUIDITY_RATIO: z.string().optional(),
+    MAX_ACTIVE_MARKETS: z.string().optional(),
+    FAST_TRACK_MAX_MARKETS: z.string().optional(),
+    TRENDING_POLL_INTERVAL_MS: z.string().optional(),
+    TRENDING_MIN_LIQ_USD: z.string().optional(),
+    TRENDING_TOP_K: z.string().optional(),
+    ALERT_COOLDOWN_MS: z.string().optional(),
+    ALERT_DIGEST_AFTER: z.string().optional(),
+    V4_ALLOW_HOOKS: z.enum(["true", "false"]).optional(),
+    HONEYPOT_SIM: z.enum(["true", "false"]).optional(),
+    HONEYPOT_SIM_USD: z.string().optional(),
+    BYTECODE_MAX_SCORE: z.string().optional(),
+    OWNER_MINT_POLICY: z.enum(["reject", "downgrade", "allow"]).optional(),
+    LP_DEPLOYER_MAX_PCT: z.string().optional(),
+    LP_LOCK_GRACE_MS: z.string().optional(),
+    HOLDER_SCAN_BLOCKS: z.string().optional(),
+    HOLDER_TOP10_MAX_PCT: z.string().optional(),
+    HOLDER_DEPLOYER_MAX_PCT: z.string().optional(),
+    HOLDER_POLICY: z.enum(["reject", "flag"]).optional(),
+    DEPLOYER_REJECT_RUGS: z.string().optional(),
+    DEPLOYER_REJECT_RATIO: z.string().optional(),
+    DEPLOYER_GOOD_MIN_TOKENS: z.string().optional(),
+    TRADING_OPEN_POLL_MS: z.string().optional(),
+    TRADING_OPEN_WAIT_MS: z.string().optional(),
+    REGATE_INTERVAL_MS: z.string().optional(),
+    REGATE_MIN_GAP_MS: z.string().optional(),
+    REGATE_BURN_PCT: z.string().optional(),
+    PENDING_LIQ_WAIT_MS: z.string().optional(),
+    RUG_DROP_PCT: z.string().optional(),
+    RUG_WINDOW_BLOCKS: z.string().optional(),
+    RUG_BURN_PCT: z.string().optional(),
+    DUMP_DROP_PCT: z.string().optional(),
+    STORAGE: z.enum(["memory", "sqlite"]).optional(),
+    SQLITE_PATH: z.string().min(1).optional(),
+    KV_BACKEND: z.enum(["memory", "redis"]).optional(),
+    REDIS_URL: z.string().min(1).optional(),
+    REDIS_PREFIX: z.string().min(1).optional(),
+    BACKFILL_CHUNK_BLOCKS: z.string().optional(),
+    BACKFILL_MAX_BLOCKS: z.string().optional(),
+  })
+  .superRefine((v, ctx) => {
+    if (v.NOTIFIER === "telegram" && (!v.TG_BOT_TOKEN || !v.TG_CHAT_ID)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["NOTIFIER"],
+        message: "NOTIFIER=telegram requires TG_BOT_TOKEN and TG_CHAT_ID",
+      });
+    }
+  });
 
 const env = EnvSchema.parse(process.env);
 
+/** 解析 JSON 形式的环境变量，并用 schema 校验 */
+function parseJsonEnv<S extends z.ZodTypeAny>(
+  name: string,
+  raw: string | undefined,
+  schema: S
+): z.output<S> | undefined {
+  if (!raw?.trim()) return undefined;
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (e: any) {
+    throw new Error(`${name} is not valid JSON: ${String(e?.message ?? e)}`);
+  }
+  return schema.parse(json);
+}
+
+/** 逗号分隔的列表（RPC 端点等） */
+const splitList = (v?: string) =>
+  (v ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+const oneOrMany = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .union([item, z.array(item)])
+    .transform((v) => (Array.isArray(v) ? v : [v]) as z.output<T>[]);
+
+/** 通知通道定义（NOTIFY_CHANNELS，JSON 数组） */
+const NotifyChannelSchema = z.discriminatedUnion("kind", [
+  z.object({ name: z.string().min(1), kind: z.literal("console") }),
+  z.object({
+    name: z.string().min(1),
+    kind: z.literal("telegram"),
+    token: z.string().min(1).optional(),
+    chatId: z.string().min(1).optional(),
+    apiBase: z.string().url().optional(),
+    parseMode: z.enum(["HTML", "MarkdownV2"]).optional(),
+  }),
+  z.object({
+    name: z.string().min(1),
+    kind: z.literal("discord"),
+    url: z.string().url(),
+  }),
+  z.object({
+    name: z.string().min(1),
+    kind: z.literal("slack"),
+    url: z.string().url(),
+  }),
+  z.object({
+    name: z.string().min(1),
+    kind: z.literal("webhook"),
+    url: z.string().url(),
+    headers: z.record(z.string(), z.string()).optional(),
+  }),
+  z.object({
+    name: z.string().min(1),
+    kind: z.literal("jsonl"),
+    path: z.string().min(1),
+  }),
+]);
+
+/** 路由规则（NOTIFY_ROUTES，JSON 数组）：未指定的字段视为“任意” */
+const NotifyRouteSchema = z.object({
+  chain: oneOrMany(z.string().min(1)).optional(),
+  level: oneOrMany(z.enum(["normal", "strong", "rug"])).optional(),
+  type: oneOrMany(z.enum(["v2", "v3", "v4"])).optional(),
+  channels: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * 发射台（LAUNCHPADS，JSON 数组）：设置后整体替换注册表里的预设
+ * 字段含义见 chains/registry.ts 的 LaunchpadDefinition
+ */
+const LaunchpadSchema = z.object({
+  chain: z.string().min(1).transform((v) => v.toUpperCase()),
+  name: z.string().min(1),
+  address: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{40}$/)
+    .transform((v) => v as `0x${string}`),
+  quote: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{40}$/)
+    .transform((v) => v as `0x${string}`)
+    .optional(),
+  quoteDecimals: z.number().int().min(0).default(18),
+  graduationFunds: z.number().positive(),
+  dex: z.string().min(1).optional(),
+  events: z.object({
+    create: z.string().min(1).optional(),
+    buy: z.string().min(1),
+    sell: z.string().min(1),
+    graduate: z.string().min(1).optional(),
+  }),
+  fields: z.object({
+    token: z.string().min(1),
+    trader: z.string().min(1),
+    quoteAmount: z.string().min(1),
+    raised: z.string().min(1).optional(),
+    creator: z.string().min(1).optional(),
+    graduatedToken: z.string().min(1).optional(),
+  }),
+});
+
+const LAUNCHPAD_OVERRIDES = parseJsonEnv(
+  "LAUNCHPADS",
+  env.LAUNCHPADS,
+  z.array(LaunchpadSchema)
+);
+
+/** 额外的 LP 锁仓合约（LP_LOCKERS，JSON 数组）：追加到注册表预设之后 */
+const LpLockerSchema = z.object({
+  chain: z.string().min(1).transform((v) => v.toUpperCase()),
+  name: z.string().min(1),
+  address: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{40}$/)
+    .transform((v) => v as `0x${string}`),
+});
+
+const LP_LOCKER_EXTRAS =
+  parseJsonEnv("LP_LOCKERS", env.LP_LOCKERS, z.array(LpLockerSchema)) ?? [];
+
+export type NotifyChannelConfig = z.output<typeof NotifyChannelSchema>;
+export type NotifyRouteConfig = z.output<typeof NotifyRouteSchema>;
+
 /** 策略与阈值（可在 .env 覆盖） */
 export const STRATEGY = {
   MIN_LIQ_USD: Number(env.MIN_LIQ_USD ?? 5000),
@@ -35,41 +219,166 @@ export const STRATEGY = {
   WHALE_SINGLE_BUY_USD: Number(env.WHALE_SINGLE_BUY_USD ?? 5000),
   WHALE_LIQUIDITY_RATIO: Number(env.WHALE_LIQUIDITY_RATIO ?? 0.03),
   MAX_ACTIVE_MARKETS: Number(env.MAX_ACTIVE_MARKETS ?? 600),
+  FAST_TRACK_MAX_MARKETS: Number(env.FAST_TRACK_MAX_MARKETS ?? 20), // 槽位满时发射台毕业交易对额外可占的订阅数
   TRENDING_POLL_INTERVAL_MS: Number(env.TRENDING_POLL_INTERVAL_MS ?? 60_000),
   TRENDING_MIN_LIQ_USD: Number(env.TRENDING_MIN_LIQ_USD ?? 30_000),
   TRENDING_TOP_K: Number(env.TRENDING_TOP_K ?? 50),
   MAX_TAX_PCT: 0.2, // 粗估可接受税率上限（20%）
+  ALERT_COOLDOWN_MS: Number(env.ALERT_COOLDOWN_MS ?? 5 * 60_000), // 同一市场告警冷却期
+  ALERT_DIGEST_AFTER: Number(env.ALERT_DIGEST_AFTER ?? 10), // 冷却期内抑制 N 次后发“持续拉升”摘要（0 关闭）
+  V4_ALLOW_HOOKS: env.V4_ALLOW_HOOKS === "true", // V4 池带 hooks 时是否放行（返回 delta 的 hooks 始终拒绝）
+  HONEYPOT_SIM: env.HONEYPOT_SIM !== "false", // 闸门中用 eth_simulateV1 做一次买入 + 卖出模拟
+  HONEYPOT_SIM_USD: Number(env.HONEYPOT_SIM_USD ?? 100), // 模拟买入金额（USD）
+  BYTECODE_MAX_SCORE: Number(env.BYTECODE_MAX_SCORE ?? 6), // 代币字节码风险权重之和达到该值 → 闸门拒绝
+  OWNER_MINT_POLICY: env.OWNER_MINT_POLICY ?? "downgrade", // 未放弃权限且可增发：reject 拒绝 / downgrade 告警最高 normal / allow 只提示
+  LP_DEPLOYER_MAX_PCT: Number(env.LP_DEPLOYER_MAX_PCT ?? 0.5), // V2 LP 由部署者持有超过该比例 → 闸门直接拒绝（宽限期后）
+  LP_LOCK_GRACE_MS: Number(env.LP_LOCK_GRACE_MS ?? 30 * 60_000), // 新池销毁/锁仓 LP 的宽限期：期内只提示，到期复查
+  HOLDER_SCAN_BLOCKS: Number(env.HOLDER_SCAN_BLOCKS ?? 20_000), // 持仓分布回看的区块数（从 Transfer 日志重建余额）
+  HOLDER_TOP10_MAX_PCT: Number(env.HOLDER_TOP10_MAX_PCT ?? 0.5), // 前十持有人（不含池子/销毁/锁仓）合计占比上限
+  HOLDER_DEPLOYER_MAX_PCT: Number(env.HOLDER_DEPLOYER_MAX_PCT ?? 0.2), // 部署者持币占比上限
+  HOLDER_POLICY: env.HOLDER_POLICY ?? "flag", // 持仓过于集中：reject 拒绝 / flag 告警里标出
+  DEPLOYER_REJECT_RUGS: Number(env.DEPLOYER_REJECT_RUGS ?? 2), // 部署者历史撤池达到该次数 → 闸门拒绝（0 关闭）
+  DEPLOYER_REJECT_RATIO: Number(env.DEPLOYER_REJECT_RATIO ?? 0.6), // 发过 ≥3 个币且被拒/撤池占比达到该值 → 拒绝
+  DEPLOYER_GOOD_MIN_TOKENS: Number(env.DEPLOYER_GOOD_MIN_TOKENS ?? 3), // 发过至少 N 个币且无拒绝/撤池 → 告警加分
+  TRADING_OPEN_POLL_MS: Number(env.TRADING_OPEN_POLL_MS ?? 30_000), // 交易未开启的市场多久查一次开关
+  TRADING_OPEN_WAIT_MS: Number(env.TRADING_OPEN_WAIT_MS ?? 6 * 60 * 60_000), // 最多等多久开盘，超时不再跟踪
+  REGATE_INTERVAL_MS: Number(env.REGATE_INTERVAL_MS ?? 30 * 60_000), // 已激活市场定期复查闸门的间隔（0 关闭定期复查）
+  REGATE_MIN_GAP_MS: Number(env.REGATE_MIN_GAP_MS ?? 60_000), // 同一市场两次复查的最小间隔（事件触发也受限）
+  REGATE_BURN_PCT: Number(env.REGATE_BURN_PCT ?? 0.2), // 单笔 Burn 取走池子占比 ≥ 该值时立即复查
+  PENDING_LIQ_WAIT_MS: Number(env.PENDING_LIQ_WAIT_MS ?? 30 * 60_000), // 流动性不足的新池自发现起最多等多久加池
+  RUG_DROP_PCT: Number(env.RUG_DROP_PCT ?? 0.5), // N 个区块内 √k 较峰值下跌该比例 → 撤池告警
+  RUG_WINDOW_BLOCKS: Number(env.RUG_WINDOW_BLOCKS ?? 20),
+  RUG_BURN_PCT: Number(env.RUG_BURN_PCT ?? 0.5), // 单笔 Burn 取走该比例的池子 → 撤池告警
+  DUMP_DROP_PCT: Number(env.DUMP_DROP_PCT ?? 0.5), // N 个区块内基准侧储备较峰值下跌该比例（非撤池）→ 砸盘告警；0 关闭
 };
 
-/** 需要监听的链与 DEX 工厂 */
-export const CHAINS = {
-  bsc: {
-    id: 56,
-    name: "BSC",
-    wss: env.BSC_WSS,
-    dex: {
-      pancakeV2Factory: dex.bsc.pancakeV2.factory,
-      pancakeV3Factory: dex.bsc.pancakeV3.factory,
-    },
-    baseTokens: dex.bsc.baseTokens,
-  },
-  ethereum: {
-    id: 1,
-    name: "ETH",
-    wss: env.ETH_WSS,
-    dex: {
-      uniV2Factory: dex.ethereum.uniswapV2.factory,
-      uniV3Factory: dex.ethereum.uniswapV3.factory,
-    },
-    baseTokens: dex.ethereum.baseTokens,
-  },
-} as const;
+export type ChainConfig = ChainDefinition & {
+  wss: string[];
+  http: string[];
+  confirmations: number; // 告警前等待的确认块数（0 = 不等待）
+};
+
+/** <LABEL>_CONFIRMATIONS：确认块数，非负整数（缺省 0） */
+const ConfirmationsSchema = z.coerce.number().int().nonnegative();
+
+/**
+ * 需要监听的链（CHAINS_ENABLED，默认 BSC,ETH）
+ * 每条链读取 <LABEL>_WSS / <LABEL>_HTTP（逗号分隔，至少一项）与 <LABEL>_CONFIRMATIONS
+ * 配置了 LAUNCHPADS 时，各链发射台取其中同 chain 的项；LP_LOCKERS 按 chain 追加锁仓合约
+ */
+function loadChains() {
+  const out: Record<ChainLabel, ChainConfig> = {};
+  for (const raw of splitList(env.CHAINS_ENABLED ?? "BSC,ETH")) {
+    const label = raw.toUpperCase();
+    const def = CHAIN_DEFINITIONS[label];
+    if (!def) {
+      throw new Error(
+        `CHAINS_ENABLED: unknown chain "${raw}" (known: ${Object.keys(
+          CHAIN_DEFINITIONS
+        ).join(", ")})`
+      );
+    }
+    const wss = splitList(process.env[`${label}_WSS`]);
+    const http = splitList(process.env[`${label}_HTTP`]);
+    if (!wss.length && !http.length) {
+      throw new Error(`${label} requires ${label}_WSS or ${label}_HTTP`);
+    }
+    const confirmations = ConfirmationsSchema.safeParse(
+      process.env[`${label}_CONFIRMATIONS`] ?? 0
+    );
+    if (!confirmations.success) {
+      throw new Error(`${label}_CONFIRMATIONS must be a non-negative integer`);
+    }
+    out[label] = {
+      ...def,
+      wss,
+      http,
+      confirmations: confirmations.data,
+      launchpads: LAUNCHPAD_OVERRIDES
+        ? LAUNCHPAD_OVERRIDES.filter((l) => l.chain === label)
+        : def.launchpads,
+      lpLockers: [
+        ...def.lpLockers,
+        ...LP_LOCKER_EXTRAS.filter((l) => l.chain === label).map(
+          ({ name, address }) => ({ name, address })
+        ),
+      ],
+    };
+  }
+  return out;
+}
+
+export const CHAINS = loadChains();
+export const CHAIN_LABELS = Object.keys(CHAINS) as ChainLabel[];
+
+/** 按 label 取已启用的链配置 */
+export function chainConfig(chain: ChainLabel): ChainConfig {
+  const cfg = CHAINS[chain];
+  if (!cfg) throw new Error(`chain "${chain}" is not enabled`);
+  return cfg;
+}
+
+/** 多 RPC 端点：健康探测与关键读取的多端点一致性 */
+export const RPC = {
+  QUORUM: Number(env.RPC_QUORUM ?? 1), // 闸门关键读取需要几个端点结果一致（1 = 关闭）
+  PROBE_INTERVAL_MS: Number(env.RPC_PROBE_INTERVAL_MS ?? 15_000),
+  TIMEOUT_MS: 10_000,
+  MAX_LAG_BLOCKS: 5, // 落后最快端点超过该块数视为不健康
+};
+
+/** 持久化存储（默认内存；sqlite 落盘到单文件） */
+export const STORAGE = {
+  kind: env.STORAGE ?? "memory",
+  sqlitePath: env.SQLITE_PATH ?? "data/meme-alert-bot.sqlite",
+};
 
-/** Telegram 配置 */
-// export const TELEGRAM = {
-//   token: env.TG_BOT_TOKEN,
-//   chatId: env.TG_CHAT_ID,
-// };
+/** WSS 断线后的 eth_getLogs 补洞参数 */
+export const BACKFILL = {
+  CHUNK_BLOCKS: Number(env.BACKFILL_CHUNK_BLOCKS ?? 1_000), // 单次 getLogs 的区块跨度
+  MAX_BLOCKS: Number(env.BACKFILL_MAX_BLOCKS ?? 5_000), // 最多回补多少个区块
+  ADDRESS_BATCH: 100, // 单次 getLogs 的地址数
+  SAFETY_BLOCKS: 2, // 以链头为基准时回退的安全余量
+};
+
+/** 共享 KV（去重/缓存）后端：默认进程内存；redis 时多实例共享 */
+export const KV = {
+  backend: env.KV_BACKEND ?? "memory",
+  redisUrl: env.REDIS_URL ?? "redis://127.0.0.1:6379",
+  prefix: env.REDIS_PREFIX ?? "meme-alert-bot",
+};
+
+/** 通知通道选择（默认控制台输出） */
+export const NOTIFIER = {
+  kind: env.NOTIFIER ?? "console",
+};
+
+/**
+ * 多通道通知：
+ * - channels 为空时，按 NOTIFIER 生成一个名为 default 的通道
+ * - routes 为空时，每条告警发往全部通道
+ */
+export const NOTIFY = {
+  channels:
+    parseJsonEnv(
+      "NOTIFY_CHANNELS",
+      env.NOTIFY_CHANNELS,
+      z.array(NotifyChannelSchema)
+    ) ?? [],
+  routes:
+    parseJsonEnv(
+      "NOTIFY_ROUTES",
+      env.NOTIFY_ROUTES,
+      z.array(NotifyRouteSchema)
+    ) ?? [],
+};
+
+/** Telegram 配置（apiBase 可指向本地 Bot API 替身） */
+export const TELEGRAM = {
+  token: env.TG_BOT_TOKEN,
+  chatId: env.TG_CHAT_ID,
+  apiBase: env.TG_API_BASE ?? "https://api.telegram.org",
+  parseMode: env.TG_PARSE_MODE ?? "HTML",
+};
 
 /** 一些通用常量 */
 export const CONSTANTS = {
@@ -1,8 +1,8 @@
 import axios, { AxiosError } from "axios";
-import { TTLStore } from "../state/stores.js";
-import { CHAINS } from "../config.js";
+import { createTTLStore } from "../state/kvBackend.js";
+import { chainConfig } from "../config.js";
+import type { ChainLabel } from "../chains/registry.js";
 
-type ChainLabel = "BSC" | "ETH";
 interface DexTokenResponse {
   pairs?: Array<any>;
 }
@@ -51,46 +51,56 @@ async function getWithRetry<T>(url: string, tries = 3): Promise<T> {
   throw new Error("unreachable");
 }
 
-const tokenCache = new TTLStore<DexTokenResponse>(TOKEN_TTL_MS);
-const pairCache = new TTLStore<DexPairResponse>(PAIR_TTL_MS);
-const trendingCache = new TTLStore<DexTrendingResponse>(TRENDING_TTL_MS);
+// 缓存走 KV 后端（KV_BACKEND=redis 时多实例共享，减少对 DexScreener 的重复请求）
+const tokenCache = createTTLStore<DexTokenResponse>(
+  "dexscreener:token",
+  TOKEN_TTL_MS
+);
+const pairCache = createTTLStore<DexPairResponse>(
+  "dexscreener:pair",
+  PAIR_TTL_MS
+);
+const trendingCache = createTTLStore<DexTrendingResponse>(
+  "dexscreener:trending",
+  TRENDING_TTL_MS
+);
 
 function chainSlug(chain: ChainLabel) {
-  return chain === "BSC" ? "bsc" : "ethereum";
+  return chainConfig(chain).dexScreenerSlug;
 }
 
 // —— 基础：token / pair —— //
 export async function fetchTokenData(chain: ChainLabel, token: `0x${string}`) {
   const key = `${chain}:token:${token.toLowerCase()}`;
-  const cached = tokenCache.get(key);
+  const cached = await tokenCache.get(key);
   if (cached) return cached;
   const data = await getWithRetry<DexTokenResponse>(
     `/latest/dex/tokens/${token}`
   );
-  tokenCache.set(key, data);
+  await tokenCache.set(key, data);
   return data;
 }
 
 export async function fetchPairData(chain: ChainLabel, pair: `0x${string}`) {
   const key = `${chain}:pair:${pair.toLowerCase()}`;
-  const cached = pairCache.get(key);
+  const cached = await pairCache.get(key);
   if (cached) return cached;
   const slug = chainSlug(chain);
   const data = await getWithRetry<DexPairResponse>(
     `/latest/dex/pairs/${slug}/${pair}`
   );
-  pairCache.set(key, data);
+  await pairCache.set(key, data);
   return data;
 }
 
-export function invalidatePair(chain: ChainLabel, pair: `0x${string}`) {
-  pairCache.delete(`${chain}:pair:${pair.toLowerCase()}`);
+export async function invalidatePair(chain: ChainLabel, pair: `0x${string}`) {
+  await pairCache.delete(`${chain}:pair:${pair.toLowerCase()}`);
 }
 
 // —— Trending：先尝试官方 trending，失败则降级到“热门基准币池” —— //
 export async function fetchTrendingPairs(chain: ChainLabel, limit: number) {
   const key = `${chain}:trending:${limit}`;
-  const cached = trendingCache.get(key);
+  const cached = await trendingCache.get(key);
   if (cached) return cached;
 
   const slug = chainSlug(chain);
@@ -100,7 +110,7 @@ export async function fetchTrendingPairs(chain: ChainLabel, limit: number) {
     const data = await getWithRetry<DexTrendingResponse>(
       `/latest/dex/trending?chain=${slug}&limit=${limit}`
     );
-    trendingCache.set(key, data);
+    await trendingCache.set(key, data);
     return data;
   } catch (e) {
     // 如果是 403/429/5xx，走降级；其它错误也降级
@@ -108,9 +118,7 @@ export async function fetchTrendingPairs(chain: ChainLabel, limit: number) {
 
   // 2) 降级：用“与基准币配对的热门池”近似 trending
   //    从每个基准币的 /tokens/<base> 取 pairs，筛选：liquidity.usd 高、近5~15分钟成交活跃
-  const bases = Object.values(
-    chain === "BSC" ? CHAINS.bsc.baseTokens : CHAINS.ethereum.baseTokens
-  ) as `0x${string}`[];
+  const bases = Object.values(chainConfig(chain).baseTokens);
   const MIN_LIQ_USD = 50_000; // 你可以读 STRATEGY.MIN_LIQ_USD
   const MAX_PER_BASE = Math.max(
     5,
@@ -160,6 +168,6 @@ export async function fetchTrendingPairs(chain: ChainLabel, limit: number) {
   }
 
   const fallback: DexTrendingResponse = { pairs: merged };
-  trendingCache.set(key, fallback);
+  await trendingCache.set(key, fallback);
   return fallback;
 }
@@ -0,0 +1,268 @@
+import {
+  parseAbiItem,
+  zeroAddress,
+  type AbiEvent,
+  type PublicClient,
+} from "viem";
+import { CHAIN_LABELS, chainConfig } from "../config.js";
+import { logger } from "../logger.js";
+import { PARSED_ABI } from "../chains/abis.js";
+import { logRef } from "../chains/backfill.js";
+import { getLogMux, type MuxRoute } from "../chains/logMux.js";
+import type { EvmClients } from "../chains/evmClient.js";
+import {
+  findDex,
+  type ChainLabel,
+  type LaunchpadDefinition,
+} from "../chains/registry.js";
+import { getBaseTokenUsd, isNative } from "../price/baseQuotes.js";
+import { TTLStore } from "../state/stores.js";
+import { windows } from "../state/windows.js";
+
+/**
+ * 发射台（联合曲线）数据源：
+ * - 在发射台合约上订阅 建币 / 曲线买入 / 曲线卖出 / 毕业 事件（走链级日志多路复用器）
+ * - 曲线成交按计价币折 USD 后写入 windows（type = "curve"，addr = token）
+ * - 按累计募集额 / 毕业募集额计算曲线进度
+ * - 毕业后查出 DEX 上的 V2 交易对，交给 onGraduated（发毕业告警并快速进入 ensureV2Market）
+ */
+
+export interface CurveState {
+  chain: ChainLabel;
+  launchpad: string;
+  token: `0x${string}`;
+  creator?: `0x${string}`;
+  createdAt?: number; // 只有看到建币事件才有
+  raised?: number; // 累计募集额（计价币单位）
+  progress?: number; // 0–1
+  lastTradeAt?: number;
+  graduated: boolean;
+}
+
+export type LaunchpadHandlers = {
+  onGraduated: (ctx: {
+    chain: ChainLabel;
+    launchpad: string;
+    dex: string;
+    token: `0x${string}`;
+    pair: `0x${string}`;
+    token0: `0x${string}`;
+    token1: `0x${string}`;
+    curve: CurveState;
+    log: any;
+  }) => void;
+};
+
+const CURVE_TTL_MS = 24 * 60 * 60_000; // 一天没有动静的曲线不再保留
+const PAIR_LOOKUP_RETRIES = 5;
+const PAIR_LOOKUP_DELAY_MS = 3_000;
+
+const curves = new TTLStore<CurveState>(CURVE_TTL_MS);
+
+const curveKey = (chain: ChainLabel, token: `0x${string}`) =>
+  `${chain}:${token.toLowerCase()}`;
+
+/** 查询曲线状态（未跟踪到则 undefined） */
+export function getCurveState(chain: ChainLabel, token: `0x${string}`) {
+  return curves.get(curveKey(chain, token));
+}
+
+function upsertCurve(
+  chain: ChainLabel,
+  launchpad: string,
+  token: `0x${string}`
+) {
+  const key = curveKey(chain, token);
+  const state = curves.get(key) ?? {
+    chain,
+    launchpad,
+    token: token.toLowerCase() as `0x${string}`,
+    graduated: false,
+  };
+  curves.set(key, state); // 续期
+  return state;
+}
+
+const toUnits = (v: unknown, decimals: number) =>
+  typeof v === "bigint" ? Number(v) / 10 ** decimals : undefined;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** 毕业后在 V2 工厂上查交易对（加池与毕业事件常在同一交易，偶尔晚一两个块） */
+async function lookupPair(
+  client: PublicClient,
+  factory: `0x${string}`,
+  token: `0x${string}`,
+  quote: `0x${string}`
+) {
+  for (let i = 0; i < PAIR_LOOKUP_RETRIES; i++) {
+    try {
+      const pair = await client.readContract({
+        address: factory,
+        abi: PARSED_ABI.v2Factory,
+        functionName: "getPair",
+        args: [token, quote],
+      });
+      if (pair && pair !== zeroAddress) return pair;
+    } catch (err) {
+      logger.debug({ token, err: String(err) }, "getPair failed");
+    }
+    await sleep(PAIR_LOOKUP_DELAY_MS);
+  }
+  return undefined;
+}
+
+function watchLaunchpad(
+  chain: ChainLabel,
+  client: PublicClient,
+  lp: LaunchpadDefinition,
+  handlers: LaunchpadHandlers
+) {
+  const cfg = chainConfig(chain);
+  const { fields } = lp;
+  const quote =
+    lp.quote && !isNative(lp.quote)
+      ? lp.quote
+      : cfg.baseTokens[cfg.wrappedNative];
+
+  const graduate = async (state: CurveState, log: any) => {
+    if (state.graduated) return;
+    state.graduated = true;
+    const dex = findDex(cfg, "v2", lp.dex);
+    if (!dex) {
+      logger.warn({ chain, launchpad: lp.name }, "No V2 DEX for graduation");
+      return;
+    }
+    const pair = await lookupPair(client, dex.factory, state.token, quote);
+    if (!pair) {
+      logger.warn(
+        { chain, launchpad: lp.name, token: state.token, dex: dex.name },
+        "Graduated token has no pair yet, leaving it to factory discovery"
+      );
+      return;
+    }
+    const [token0, token1] =
+      state.token.toLowerCase() < quote.toLowerCase()
+        ? [state.token, quote.toLowerCase() as `0x${string}`]
+        : [quote.toLowerCase() as `0x${string}`, state.token];
+    logger.info(
+      { chain, launchpad: lp.name, token: state.token, pair, dex: dex.name },
+      "Launchpad token graduated"
+    );
+    handlers.onGraduated({
+      chain,
+      launchpad: lp.name,
+      dex: dex.name,
+      token: state.token,
+      pair: pair.toLowerCase() as `0x${string}`,
+      token0,
+      token1,
+      curve: state,
+      log,
+    });
+  };
+
+  const onCreate = (l: any) => {
+    if (l.removed) return;
+    const token = l.args?.[fields.token] as `0x${string}` | undefined;
+    if (!token) return;
+    const state = upsertCurve(chain, lp.name, token);
+    state.createdAt ??= Date.now();
+    if (fields.creator) state.creator ??= l.args?.[fields.creator];
+    logger.debug(
+      { chain, launchpad: lp.name, token, creator: state.creator },
+      "Launchpad token created"
+    );
+  };
+
+  const onTrade = (isBuy: boolean) => async (l: any) => {
+    const token = l.args?.[fields.token] as `0x${string}` | undefined;
+    if (!token) return;
+    const tradeId = logRef(l);
+    if (l.removed) {
+      if (tradeId) windows.retractTrade(chain, "curve", token, tradeId);
+      return;
+    }
+    const state = upsertCurve(chain, lp.name, token);
+    state.lastTradeAt = Date.now();
+    const raised = fields.raised
+      ? toUnits(l.args?.[fields.raised], lp.quoteDecimals)
+      : undefined;
+    if (raised !== undefined) {
+      state.raised = raised;
+      state.progress = Math.min(1, raised / lp.graduationFunds);
+    }
+
+    const amount = toUnits(l.args?.[fields.quoteAmount], lp.quoteDecimals);
+    const quoteUsd = await getBaseTokenUsd(chain, quote);
+    if (amount !== undefined && quoteUsd !== undefined && amount > 0) {
+      windows.recordTrade({
+        chain,
+        type: "curve",
+        addr: token,
+        usd: amount * quoteUsd,
+        isBuy,
+        buyer: isBuy ? l.args?.[fields.trader] : undefined,
+        id: tradeId,
+      });
+    }
+
+    // 没有毕业事件的发射台：进度打满即视为毕业
+    if (
+      !lp.events.graduate &&
+      state.progress !== undefined &&
+      state.progress >= 1
+    ) {
+      await graduate(state, l);
+    }
+  };
+
+  const onGraduate = async (l: any) => {
+    if (l.removed) return;
+    const token = l.args?.[fields.graduatedToken ?? fields.token] as
+      `0x${string}` | undefined;
+    if (!token) return;
+    const state = upsertCurve(chain, lp.name, token);
+    state.progress = 1;
+    await graduate(state, l);
+  };
+
+  const event = (signature: string) => parseAbiItem(signature) as AbiEvent;
+  const routes: MuxRoute[] = [
+    { event: event(lp.events.buy), onLog: onTrade(true) },
+    { event: event(lp.events.sell), onLog: onTrade(false) },
+  ];
+  if (lp.events.create) {
+    routes.push({ event: event(lp.events.create), onLog: onCreate });
+  }
+  if (lp.events.graduate) {
+    routes.push({ event: event(lp.events.graduate), onLog: onGraduate });
+  }
+
+  logger.info(
+    { chain, launchpad: lp.name, address: lp.address },
+    "Launchpad watcher started"
+  );
+  return getLogMux(chain, client).register(lp.address, routes);
+}
+
+/** 为所有已启用链上的发射台建立订阅；返回整体停止函数 */
+export function startLaunchpadWatcher(
+  clients: EvmClients,
+  handlers: LaunchpadHandlers
+) {
+  const stops: Array<() => void> = [];
+  for (const chain of CHAIN_LABELS) {
+    for (const lp of chainConfig(chain).launchpads) {
+      try {
+        stops.push(watchLaunchpad(chain, clients[chain], lp, handlers));
+      } catch (err) {
+        logger.error(
+          { chain, launchpad: lp.name, err: String(err) },
+          "Launchpad config invalid, skipped"
+        );
+      }
+    }
+  }
+  return () => stops.forEach((stop) => stop());
+}
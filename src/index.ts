@@ -3,36 +3,95 @@ import {
   watchFactories,
   watchV2Pair,
   watchV3Pool,
+  watchV4Pool,
 } from "./chains/subscriptions.js";
+import { getChainCursor, logRef } from "./chains/backfill.js";
 import { logger } from "./logger.js";
-import { watchlist, marketKey } from "./state/watchlist.js";
+import {
+  watchlist,
+  marketKey,
+  type WatchEntry,
+} from "./state/watchlist.js";
+import { initStorage, getStorage } from "./state/storage.js";
+import { closeKvBackend } from "./state/kvBackend.js";
 import { prefetchBaseQuotes, isBaseToken } from "./price/baseQuotes.js";
 import { getTokenDecimals } from "./price/reservesPrice.js";
 import { estimateMintUsdV2, onV2MintRecord } from "./safety/lpRisk.js";
-import { recordTaxApprox } from "./safety/taxEstimator.js";
-import { onV2SwapToWindows, onV3SwapToWindows } from "./metrics/volume.js";
+import {
+  describeDeployer,
+  isDeployerFault,
+  launchedToken,
+  markDeployerRugged,
+  recordDeployerToken,
+  txOrigin,
+} from "./safety/deployer.js";
+import {
+  getAvgTaxApprox,
+  recordTaxApprox,
+} from "./safety/taxEstimator.js";
+import {
+  liquidityTracker,
+  onV2SyncToLiquidity,
+  onV3LiquidityEvent,
+  v3BurnShare,
+} from "./metrics/liquidity.js";
+import {
+  onV2SwapToWindows,
+  onV3SwapToWindows,
+  onV4SwapToWindows,
+  retractSwapFromWindows,
+} from "./metrics/volume.js";
 import { passSafetyGates } from "./rules/gates.js";
-import { evaluateAlerts } from "./rules/alerts.js";
-import { tgSend, buildAlertMessage } from "./notifiers/console.js";
-import { STRATEGY } from "./config.js";
+import { failedChecks, type GateVerdict } from "./rules/verdict.js";
+import {
+  evaluateAlerts,
+  evaluateDowngrade,
+  evaluateDump,
+  evaluateGraduation,
+  evaluateRug,
+  type AlertLevel,
+} from "./rules/alerts.js";
+import { notifiers, type AlertParams } from "./notifiers/registry.js";
+import { alertThrottle, type AlertFlags } from "./rules/cooldown.js";
+import { CHAIN_LABELS, STRATEGY, chainConfig } from "./config.js";
 import { startTrendingWatcher } from "./pipeline/trending.js";
+import { startLaunchpadWatcher } from "./datasources/launchpad.js";
+import {
+  awaitTradingOpen,
+  startTradingOpenWatcher,
+} from "./pipeline/tradingOpen.js";
+import { requestRegate, startRegateScheduler } from "./pipeline/regate.js";
+import {
+  awaitLiquidity,
+  isAwaitingLiquidity,
+  startPendingLiquidityWatcher,
+} from "./pipeline/pendingLiquidity.js";
+import { findDex, type ChainLabel } from "./chains/registry.js";
 
-type ChainLabel = "BSC" | "ETH";
 const ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+const POOL_ID_REGEX = /^0x[0-9a-fA-F]{64}$/;
 
 const looksLikeAddress = (
   value: string | undefined
 ): value is `0x${string}` => !!value && ADDRESS_REGEX.test(value);
 
+const looksLikePoolId = (
+  value: string | undefined
+): value is `0x${string}` => !!value && POOL_ID_REGEX.test(value);
+
 async function main() {
+  const storage = await initStorage();
   const clients = createEvmClients();
 
   // 预取基准币报价（减少冷启动误差）
-  prefetchBaseQuotes("BSC").catch(() => {});
-  prefetchBaseQuotes("ETH").catch(() => {});
+  for (const chain of CHAIN_LABELS) {
+    prefetchBaseQuotes(chain).catch(() => {});
+  }
 
   // 已订阅的市场，避免重复
   const subscriptions = new Map<string, () => void>();
+  // 超出槽位上限、走快速通道订阅的发射台毕业交易对（单独限额）
+  const fastTracked = new Set<string>();
 
   const stopSubscription = (subKey: string) => {
     const stop = subscriptions.get(subKey);
@@ -43,23 +102,141 @@ async function main() {
       logger.warn({ subKey, err }, "Failed to stop subscription");
     } finally {
       subscriptions.delete(subKey);
+      fastTracked.delete(subKey);
     }
   };
 
   const normalize = (addr: `0x${string}`): `0x${string}` =>
     addr.toLowerCase() as `0x${string}`;
 
+  /**
+   * 经确认/冷却/去重后发送告警；冷却期内被合并的次数随下一条消息带出
+   * 配置了确认块数时，先等触发成交的日志获得 N 个确认，期间被重组移除则丢弃
+   * 撤池、安全降级、砸盘属于通知，不走冷却（不会被抑制，也不会被改成“持续拉升”摘要）
+   */
+  const deliverAlert = async (
+    key: string,
+    res: { level: AlertLevel; message: string; flags: AlertFlags },
+    alert: Omit<AlertParams, "level" | "headline" | "body">,
+    log?: any
+  ) => {
+    if (res.level === "none") return;
+    const depth = chainConfig(alert.chain).confirmations;
+    if (depth > 0 && log) {
+      const confirmed = await getChainCursor(
+        alert.chain,
+        clients[alert.chain]
+      ).waitConfirmed(log, depth);
+      if (!confirmed) {
+        logger.info(
+          { key, level: res.level, depth, tx: log.transactionHash },
+          "Alert dropped: trigger trade reorged or unconfirmed"
+        );
+        return;
+      }
+    }
+    const notice = res.level === "rug" || !!alert.downgraded || !!alert.dump;
+    const decision = notice
+      ? undefined
+      : alertThrottle.decide(key, res.level, res.flags);
+    if (decision?.action === "suppress") {
+      logger.debug(
+        { key, level: res.level, suppressed: decision.suppressed },
+        "Alert suppressed by cooldown"
+      );
+      return;
+    }
+    const digest = decision?.action === "digest";
+    const label = `${alert.type.toUpperCase()} ${alert.chain}`;
+    const headline = digest
+      ? `${label} STILL PUMPING — ${alert.addr}`
+      : alert.graduation
+      ? `${label} GRADUATED — ${alert.addr}`
+      : alert.downgraded
+      ? `${label} SAFETY DOWNGRADED — ${alert.addr}`
+      : alert.dump
+      ? `${label} PRICE DUMP — ${alert.addr}`
+      : `${label} ${res.level.toUpperCase()} — ${alert.addr}`;
+    const delivery = await notifiers.dispatch({
+      ...alert,
+      level: res.level,
+      headline,
+      body: res.message,
+      digest,
+      suppressed: decision?.suppressed,
+    });
+    storage.recordAlert({
+      key,
+      ts: Date.now(),
+      level: res.level,
+      chain: alert.chain,
+      type: alert.type,
+      addr: alert.addr,
+      headline,
+      body: res.message,
+      channels: delivery.sent,
+    });
+    logger.info({ key, res, decision, delivery }, "Alert sent");
+  };
+
+  /** 撤池告警：不等确认直接发（已告警过的用户需要尽快知道），只针对已激活市场 */
+  const deliverRug = async (
+    key: string,
+    res: { level: AlertLevel; message: string; flags: AlertFlags },
+    alert: Omit<AlertParams, "level" | "headline" | "body" | "target">
+  ) => {
+    const entry = watchlist.get(key);
+    if (!entry || entry.status !== "active") return;
+    const target = isBaseToken(alert.chain, alert.token1) ? "token0" : "token1";
+    logger.warn({ key, message: res.message }, "Liquidity removal detected");
+    const token = launchedToken(alert.chain, alert.token0, alert.token1);
+    if (token) markDeployerRugged(alert.chain, token);
+    await deliverAlert(key, res, { ...alert, dex: entry.dex, target });
+  };
+
   const hasCapacity = () => {
     if (subscriptions.size < STRATEGY.MAX_ACTIVE_MARKETS) return true;
     return false;
   };
 
+  /**
+   * 毕业告警等闸门通过后再发：key -> 毕业时刻的曲线状态与告警参数
+   * 闸门被拒（或条目被清理）则丢弃；等待加池/开盘的条目保留到重跑闸门
+   */
+  const pendingGraduations = new Map<
+    string,
+    {
+      graduation: Parameters<typeof evaluateGraduation>[0];
+      alert: Omit<AlertParams, "level" | "headline" | "body">;
+      log?: any;
+    }
+  >();
+
+  const releaseGraduation = (key: string) => {
+    const pending = pendingGraduations.get(key);
+    if (!pending) return;
+    const entry = watchlist.get(key);
+    if (entry && entry.status !== "active" && entry.status !== "rejected") {
+      return;
+    }
+    pendingGraduations.delete(key);
+    if (entry?.status !== "active") return;
+    deliverAlert(
+      key,
+      evaluateGraduation(pending.graduation),
+      pending.alert,
+      pending.log
+    ).catch((err) =>
+      logger.warn({ key, err: String(err) }, "Graduation alert failed")
+    );
+  };
+
   const ensureV2Market = (
     chain: ChainLabel,
     pairAddr: `0x${string}`,
     token0Addr: `0x${string}`,
     token1Addr: `0x${string}`,
-    meta?: { source?: string }
+    meta?: { source?: string; dex?: string; fastTrack?: boolean }
   ) => {
     if (
       !looksLikeAddress(pairAddr) ||
@@ -82,12 +259,20 @@ async function main() {
       watchlist.enqueueNew({
         chain,
         type: "v2",
+        dex: meta?.dex,
         address: pair,
         token0,
         token1,
       });
       logger.info(
-        { chain, pair, token0, token1, source: meta?.source ?? "factory" },
+        {
+          chain,
+          dex: meta?.dex,
+          pair,
+          token0,
+          token1,
+          source: meta?.source ?? "factory",
+        },
         "Tracking V2 market (pending gates)"
       );
       runGates(
@@ -99,18 +284,106 @@ async function main() {
         token1,
         undefined,
         () => stopSubscription(subKey)
-      ).catch(() => stopSubscription(subKey));
+      )
+        .then(() => releaseGraduation(key))
+        .catch(() => stopSubscription(subKey));
     }
 
-    if (subscriptions.has(subKey)) return;
-    if (!hasCapacity()) {
+    // 等待加池的市场只保留 Mint 订阅，加池达标后由 regate 重新订阅
+    if (subscriptions.has(subKey) || isAwaitingLiquidity(key)) return;
+    // 发射台毕业的交易对走快速通道：槽位满时另有 FAST_TRACK_MAX_MARKETS 个名额
+    const overflow = !hasCapacity();
+    if (
+      overflow &&
+      !(meta?.fastTrack && fastTracked.size < STRATEGY.FAST_TRACK_MAX_MARKETS)
+    ) {
       logger.warn({ chain, pair }, "Active market limit reached, skip V2 subscribe");
       return;
     }
 
-    const client = chain === "BSC" ? clients.bsc : clients.ethereum;
+    const client = clients[chain];
     const stop = watchV2Pair(client, chain, pair, {
-      onV2Mint: async ({ args: { amount0, amount1 } }) => {
+      onV2Mint: async ({ args: { amount0, amount1 }, removed, log }) => {
+        if (removed) return; // 大额加池记录只作参考，重组时不撤回
+        const usd = await estimateMintUsdV2({
+          chain,
+          client,
+          pair,
+          token0,
+          token1,
+          amount0,
+          amount1,
+        });
+        // 闸门没解析出部署者时，以首次加池交易的发起人兜底
+        const minter = watchlist.get(key)?.meta.deployer
+          ? undefined
+          : await txOrigin(client, log);
+        await onV2MintRecord(key, usd, minter);
+      },
+      onV2Sync: async ({ args, removed, log }) => {
+        if (removed) return; // 重组后的下一条 Sync 会带来正确储备
+        const drop = await onV2SyncToLiquidity({
+          chain,
+          client,
+          key,
+          token0,
+          token1,
+          reserve0: args.reserve0,
+          reserve1: args.reserve1,
+          blockNumber: BigInt(log?.blockNumber ?? 0),
+        });
+        if (drop.dropPct >= STRATEGY.RUG_DROP_PCT) {
+          liquidityTracker.reset(key);
+          await deliverRug(
+            key,
+            evaluateRug({
+              trigger: "drop",
+              pct: drop.dropPct,
+              blocks: drop.blocks,
+              fromUsd: drop.peakUsd,
+              toUsd: drop.usd,
+              alertedBefore: storage.recentAlerts(key, 1).length > 0,
+            }),
+            { chain, type: "v2", addr: pair, token0, token1 }
+          );
+          return;
+        }
+        // √k 没降、基准侧被卖单抽干：砸盘，单独告警，不记部署者撤池
+        const dump = drop.dump;
+        if (
+          !dump ||
+          STRATEGY.DUMP_DROP_PCT <= 0 ||
+          dump.pct < STRATEGY.DUMP_DROP_PCT
+        ) {
+          return;
+        }
+        const entry = watchlist.get(key);
+        if (!entry || entry.status !== "active") return;
+        liquidityTracker.reset(key);
+        await deliverAlert(
+          key,
+          evaluateDump({
+            pct: dump.pct,
+            blocks: dump.blocks,
+            fromUsd: dump.peakUsd,
+            toUsd: drop.usd,
+            alertedBefore: storage.recentAlerts(key, 1).length > 0,
+          }),
+          {
+            chain,
+            type: "v2",
+            dex: entry.dex,
+            addr: pair,
+            token0,
+            token1,
+            target: isBaseToken(chain, token1) ? "token0" : "token1",
+            dump: true,
+          }
+        );
+      },
+      onV2Burn: async ({ args: { amount0, amount1 }, removed }) => {
+        if (removed) return;
+        const share = liquidityTracker.burnShare(key, amount0, amount1);
         const usd = await estimateMintUsdV2({
           chain,
           client,
@@ -120,9 +393,30 @@ async function main() {
           amount0,
           amount1,
         });
-        await onV2MintRecord(key, usd);
+        if (usd !== undefined) watchlist.patchMeta(key, { lastBurnUsd: usd });
+        if (share !== undefined && share >= STRATEGY.REGATE_BURN_PCT) {
+          requestRegate(key, "large burn");
+        }
+        if (share === undefined || share < STRATEGY.RUG_BURN_PCT) return;
+        await deliverRug(
+          key,
+          evaluateRug({
+            trigger: "burn",
+            pct: share,
+            burnUsd: usd,
+            toUsd: watchlist.get(key)?.meta.liquidityUsd,
+            alertedBefore: storage.recentAlerts(key, 1).length > 0,
+          }),
+          { chain, type: "v2", addr: pair, token0, token1 }
+        );
       },
-      onV2Swap: async ({ args, chain: eventChain }) => {
+      onV2Swap: async ({ args, chain: eventChain, removed, log }) => {
+        const tradeId = logRef(log);
+        if (removed) {
+          if (tradeId) retractSwapFromWindows(chain, "v2", pair, tradeId);
+          logger.debug({ key, tradeId }, "V2 swap reorged out, retracted");
+          return;
+        }
         const entry = watchlist.get(key);
         if (!entry || entry.status !== "active") return;
 
@@ -145,6 +439,7 @@ async function main() {
           amount1In: args.amount1In,
           amount0Out: args.amount0Out,
           amount1Out: args.amount1Out,
+          tradeId,
         });
 
         const otherIsBase =
@@ -224,6 +519,14 @@ async function main() {
               });
             }
           }
+
+          // 采样税率均值超限：闸门通过后才调高税的典型手法，立即复查
+          const tax = getAvgTaxApprox(eventChain as ChainLabel, "v2", pair);
+          if (
+            Math.max(tax.buyTax ?? 0, tax.sellTax ?? 0) > STRATEGY.MAX_TAX_PCT
+          ) {
+            requestRegate(key, "tax spike");
+          }
         }
 
         const res = await evaluateAlerts({
@@ -240,27 +543,36 @@ async function main() {
             swapResult && swapResult.isBuy ? swapResult.usd : undefined,
           liquidityUsd: entry.meta.liquidityUsd,
           lastMintUsd: entry.meta.lastMintUsd,
+          riskFlags: entry.meta.riskFlags,
+          ownership: entry.meta.ownership,
+          ownerDowngrade: entry.meta.ownerDowngrade,
+          holders: entry.meta.holders,
+          holderWarnings: entry.meta.holderWarnings,
+          deployer: entry.meta.deployerSummary,
+          deployerGood: entry.meta.deployerVerdict === "good",
+          tradingLimits: entry.meta.tradingLimits,
+          verdict: entry.verdict,
         });
 
-        if (res.level !== "none") {
-          const msg = buildAlertMessage({
-            level: res.level,
+        await deliverAlert(
+          key,
+          res,
+          {
             chain: eventChain as ChainLabel,
             type: "v2",
+            dex: watchlist.get(key)?.dex,
             addr: pair,
             token0,
             token1,
             target,
-            headline: `V2 ${eventChain} ${res.level.toUpperCase()} — ${pair}`,
-            body: res.message,
-          });
-          await tgSend(msg);
-          logger.info({ key, res }, "Alert sent");
-        }
+          },
+          log
+        );
       },
     });
 
     subscriptions.set(subKey, stop);
+    if (overflow) fastTracked.add(subKey);
   };
 
   const ensureV3Market = (
@@ -269,7 +581,7 @@ async function main() {
     token0Addr: `0x${string}`,
     token1Addr: `0x${string}`,
     fee?: number,
-    meta?: { source?: string }
+    meta?: { source?: string; dex?: string }
   ) => {
     if (
       !looksLikeAddress(poolAddr) ||
@@ -292,13 +604,21 @@ async function main() {
       watchlist.enqueueNew({
         chain,
         type: "v3",
+        dex: meta?.dex,
         address: pool,
         token0,
         token1,
         fee,
       });
       logger.info(
-        { chain, pool, token0, token1, source: meta?.source ?? "factory" },
+        {
+          chain,
+          dex: meta?.dex,
+          pool,
+          token0,
+          token1,
+          source: meta?.source ?? "factory",
+        },
         "Tracking V3 market (pending gates)"
       );
       runGates(
@@ -313,15 +633,96 @@ async function main() {
       ).catch(() => stopSubscription(subKey));
     }
 
-    if (subscriptions.has(subKey)) return;
+    if (subscriptions.has(subKey) || isAwaitingLiquidity(key)) return;
     if (!hasCapacity()) {
       logger.warn({ chain, pool }, "Active market limit reached, skip V3 subscribe");
       return;
     }
 
-    const client = chain === "BSC" ? clients.bsc : clients.ethereum;
+    const client = clients[chain];
+    const revalue = (amounts?: { amount0: bigint; amount1: bigint }) =>
+      onV3LiquidityEvent({
+        chain,
+        client,
+        key,
+        pool,
+        token0,
+        token1,
+        ...amounts,
+      });
     const stop = watchV3Pool(client, chain, pool, {
-      onV3Swap: async ({ args, chain: eventChain }) => {
+      onV3Mint: async ({ args: { amount0, amount1 }, removed, log }) => {
+        if (removed) return; // 同 V2：加池记录不撤回，下一次事件会重新估值
+        const res = await revalue({ amount0, amount1 });
+        await onV2MintRecord(key, res?.eventUsd);
+      },
+      // V3 的 Burn 只把代币记到头寸名下，真正转出在 Collect；
+      // 占比按撤池前一块的池子余额算，这样 Burn 当下就能预警
+      onV3Burn: async ({ args: { amount0, amount1 }, removed, log }) => {
+        // 0 数量的 Burn 只是结算手续费
+        if (removed || (amount0 === 0n && amount1 === 0n)) return;
+        const blockNumber = BigInt(log?.blockNumber ?? 0);
+        const [share, res] = await Promise.all([
+          blockNumber > 0n
+            ? v3BurnShare({
+                client,
+                pool,
+                token0,
+                token1,
+                amount0,
+                amount1,
+                blockNumber,
+              })
+            : undefined,
+          revalue({ amount0, amount1 }),
+        ]);
+        if (res?.eventUsd !== undefined) {
+          watchlist.patchMeta(key, { lastBurnUsd: res.eventUsd });
+        }
+        if (share !== undefined && share >= STRATEGY.REGATE_BURN_PCT) {
+          requestRegate(key, "large burn");
+        }
+        if (share === undefined) return;
+        // 多笔小额 Burn 在窗口内累计取走的比例（V3 余额随成交变化，不拿余额跌幅判撤池）
+        const total = liquidityTracker.recordBurn(key, blockNumber, share);
+        if (
+          share < STRATEGY.RUG_BURN_PCT &&
+          total.dropPct < STRATEGY.RUG_DROP_PCT
+        ) {
+          return;
+        }
+        liquidityTracker.reset(key);
+        await deliverRug(
+          key,
+          share >= STRATEGY.RUG_BURN_PCT
+            ? evaluateRug({
+                trigger: "burn",
+                pct: share,
+                burnUsd: res?.eventUsd,
+                toUsd: watchlist.get(key)?.meta.liquidityUsd,
+                alertedBefore: storage.recentAlerts(key, 1).length > 0,
+              })
+            : evaluateRug({
+                trigger: "drop",
+                pct: total.dropPct,
+                blocks: total.blocks,
+                toUsd: watchlist.get(key)?.meta.liquidityUsd,
+                alertedBefore: storage.recentAlerts(key, 1).length > 0,
+              }),
+          { chain, type: "v3", addr: pool, token0, token1 }
+        );
+      },
+      onV3Collect: async ({ removed }) => {
+        if (removed) return;
+        await revalue();
+      },
+      onV3Swap: async ({ args, chain: eventChain, removed, log }) => {
+        const tradeId = logRef(log);
+        if (removed) {
+          if (tradeId) retractSwapFromWindows(chain, "v3", pool, tradeId);
+          logger.debug({ key, tradeId }, "V3 swap reorged out, retracted");
+          return;
+        }
         const entry = watchlist.get(key);
         if (!entry || entry.status !== "active") return;
 
@@ -342,6 +743,7 @@ async function main() {
           recipient: args.recipient,
           amount0: args.amount0,
           amount1: args.amount1,
+          tradeId,
         });
 
         const res = await evaluateAlerts({
@@ -358,70 +760,425 @@ async function main() {
             swapResult && swapResult.isBuy ? swapResult.usd : undefined,
           liquidityUsd: entry.meta.liquidityUsd,
           lastMintUsd: entry.meta.lastMintUsd,
+          riskFlags: entry.meta.riskFlags,
+          ownership: entry.meta.ownership,
+          ownerDowngrade: entry.meta.ownerDowngrade,
+          holders: entry.meta.holders,
+          holderWarnings: entry.meta.holderWarnings,
+          deployer: entry.meta.deployerSummary,
+          deployerGood: entry.meta.deployerVerdict === "good",
+          tradingLimits: entry.meta.tradingLimits,
+          verdict: entry.verdict,
         });
-        if (res.level !== "none") {
-          const msg = buildAlertMessage({
-            level: res.level,
+        await deliverAlert(
+          key,
+          res,
+          {
             chain: eventChain as ChainLabel,
             type: "v3",
+            dex: watchlist.get(key)?.dex,
             addr: pool,
             token0,
             token1,
             target,
-            headline: `V3 ${eventChain} ${res.level.toUpperCase()} — ${pool}`,
-            body: res.message,
-          });
-          await tgSend(msg);
-          logger.info({ key, res }, "Alert sent");
+          },
+          log
+        );
+      },
+    });
+
+    subscriptions.set(subKey, stop);
+  };
+
+  const ensureV4Market = (
+    chain: ChainLabel,
+    poolIdRaw: `0x${string}`,
+    currency0Addr: `0x${string}`,
+    currency1Addr: `0x${string}`,
+    key4: { fee?: number; tickSpacing?: number; hooks?: `0x${string}` },
+    meta?: { source?: string; dex?: string }
+  ) => {
+    const poolManager = findDex(chainConfig(chain), "v4")?.factory;
+    if (
+      !poolManager ||
+      !looksLikePoolId(poolIdRaw) ||
+      !looksLikeAddress(currency0Addr) ||
+      !looksLikeAddress(currency1Addr)
+    ) {
+      logger.warn(
+        {
+          chain,
+          poolIdRaw,
+          currency0Addr,
+          currency1Addr,
+          source: meta?.source,
+        },
+        "Invalid V4 market detected, skip"
+      );
+      return;
+    }
+    const poolId = normalize(poolIdRaw);
+    const token0 = normalize(currency0Addr);
+    const token1 = normalize(currency1Addr);
+    const key = marketKey(chain, "v4", poolId);
+    const subKey = `${chain}:v4:${poolId}`;
+
+    if (!watchlist.has(key)) {
+      watchlist.enqueueNew({
+        chain,
+        type: "v4",
+        dex: meta?.dex,
+        address: poolId,
+        token0,
+        token1,
+        fee: key4.fee,
+        tickSpacing: key4.tickSpacing,
+        hooks: key4.hooks,
+      });
+      logger.info(
+        {
+          chain,
+          dex: meta?.dex,
+          poolId,
+          token0,
+          token1,
+          hooks: key4.hooks,
+          source: meta?.source ?? "factory",
+        },
+        "Tracking V4 market (pending gates)"
+      );
+      runGates(
+        clients,
+        chain,
+        "v4",
+        poolId,
+        token0,
+        token1,
+        key4.fee,
+        () => stopSubscription(subKey)
+      ).catch(() => stopSubscription(subKey));
+    }
+
+    if (subscriptions.has(subKey) || isAwaitingLiquidity(key)) return;
+    if (!hasCapacity()) {
+      logger.warn({ chain, poolId }, "Active market limit reached, skip V4 subscribe");
+      return;
+    }
+
+    const client = clients[chain];
+    const stop = watchV4Pool(client, chain, poolManager, poolId, {
+      onV4Swap: async ({ args, chain: eventChain, removed, log }) => {
+        const tradeId = logRef(log);
+        if (removed) {
+          if (tradeId) retractSwapFromWindows(chain, "v4", poolId, tradeId);
+          logger.debug({ key, tradeId }, "V4 swap reorged out, retracted");
+          return;
         }
+        const entry = watchlist.get(key);
+        if (!entry || entry.status !== "active") return;
+
+        const target = isBaseToken(eventChain as ChainLabel, token1)
+          ? "token0"
+          : isBaseToken(eventChain as ChainLabel, token0)
+          ? "token1"
+          : "token0";
+
+        const swapResult = await onV4SwapToWindows({
+          chain: eventChain as ChainLabel,
+          client,
+          addr: poolId,
+          token0,
+          token1,
+          target,
+          sender: args.sender,
+          txHash: log?.transactionHash,
+          amount0: args.amount0,
+          amount1: args.amount1,
+          sqrtPriceX96: args.sqrtPriceX96,
+          tradeId,
+        });
+
+        const res = await evaluateAlerts({
+          chain: eventChain as ChainLabel,
+          type: "v4",
+          addr: poolId,
+          client,
+          token0,
+          token1,
+          target,
+          lastTradeUsd: swapResult?.usd,
+          lastTradeIsBuy: swapResult?.isBuy ?? false,
+          lastTradeBuyerUsd:
+            swapResult && swapResult.isBuy ? swapResult.usd : undefined,
+          liquidityUsd: entry.meta.liquidityUsd,
+          lastMintUsd: entry.meta.lastMintUsd,
+          riskFlags: entry.meta.riskFlags,
+          ownership: entry.meta.ownership,
+          ownerDowngrade: entry.meta.ownerDowngrade,
+          holders: entry.meta.holders,
+          holderWarnings: entry.meta.holderWarnings,
+          deployer: entry.meta.deployerSummary,
+          deployerGood: entry.meta.deployerVerdict === "good",
+          tradingLimits: entry.meta.tradingLimits,
+          verdict: entry.verdict,
+        });
+        await deliverAlert(
+          key,
+          res,
+          {
+            chain: eventChain as ChainLabel,
+            type: "v4",
+            dex: watchlist.get(key)?.dex,
+            addr: poolId,
+            token0,
+            token1,
+            target,
+          },
+          log
+        );
       },
     });
 
     subscriptions.set(subKey, stop);
   };
 
+  /** 按条目重新订阅；条目已不在 watchlist 时会重新入队并跑闸门 */
+  const resubscribe = (entry: WatchEntry, source: string) => {
+    const meta = { source, dex: entry.dex };
+    if (entry.type === "v2") {
+      ensureV2Market(
+        entry.chain,
+        entry.address,
+        entry.token0,
+        entry.token1,
+        meta
+      );
+    } else if (entry.type === "v4") {
+      ensureV4Market(
+        entry.chain,
+        entry.address,
+        entry.token0,
+        entry.token1,
+        { fee: entry.fee, tickSpacing: entry.tickSpacing, hooks: entry.hooks },
+        meta
+      );
+    } else {
+      ensureV3Market(
+        entry.chain,
+        entry.address,
+        entry.token0,
+        entry.token1,
+        entry.fee,
+        meta
+      );
+    }
+  };
+
+  /** 重跑闸门：先恢复订阅（被拒时已停掉），再按同一流程激活或拒绝 */
+  const regate = (entry: WatchEntry, source: string) => {
+    const known = watchlist.has(entry.key);
+    resubscribe(entry, source);
+    if (!known) return;
+    runGates(
+      clients,
+      entry.chain,
+      entry.type,
+      entry.address,
+      entry.token0,
+      entry.token1,
+      entry.fee,
+      () => stopSubscription(entry.key)
+    )
+      .then(() => releaseGraduation(entry.key))
+      .catch(() => stopSubscription(entry.key));
+  };
+
+  /** 复查已激活市场：未通过则拒绝并停订阅，已告警过的再发一条“安全降级”通知 */
+  const recheck = async (entry: WatchEntry, trigger: string) => {
+    const res = await runGates(
+      clients,
+      entry.chain,
+      entry.type,
+      entry.address,
+      entry.token0,
+      entry.token1,
+      entry.fee,
+      () => stopSubscription(entry.key),
+      { keepOnError: true }
+    );
+    if (!res || res.ok) return;
+    logger.warn(
+      { key: entry.key, trigger, reasons: res.reasons },
+      "Re-gate failed — market demoted"
+    );
+    if (!storage.recentAlerts(entry.key, 1).length) return;
+    await deliverAlert(
+      entry.key,
+      evaluateDowngrade({ trigger, verdict: res.verdict }),
+      {
+        chain: entry.chain,
+        type: entry.type,
+        dex: entry.dex,
+        addr: entry.address,
+        token0: entry.token0,
+        token1: entry.token1,
+        target: isBaseToken(entry.chain, entry.token1) ? "token0" : "token1",
+        downgraded: true,
+      }
+    );
+  };
+
+  // —— 重启恢复：active 市场重新订阅（已在 watchlist 中，不会重跑闸门） —— //
+  const restored = watchlist.restore(storage.loadWatchEntries());
+  for (const entry of restored) {
+    if (entry.status !== "active") continue;
+    resubscribe(entry, "restore");
+  }
+  if (restored.length) {
+    logger.info(
+      {
+        restored: restored.length,
+        active: restored.filter((e) => e.status === "active").length,
+      },
+      "Watchlist restored from storage"
+    );
+  }
+
   // —— 工厂事件：新建 Pair/Pool —— //
   watchFactories(clients, {
-    onNewV2Pair: ({ chain, pair, token0, token1 }) =>
+    onNewV2Pair: ({ chain, dex, pair, token0, token1 }) =>
       ensureV2Market(chain as ChainLabel, pair, token0, token1, {
         source: "factory",
+        dex,
       }),
-    onNewV3Pool: ({ chain, pool, token0, token1, fee }) =>
+    onNewV3Pool: ({ chain, dex, pool, token0, token1, fee }) =>
       ensureV3Market(chain as ChainLabel, pool, token0, token1, fee, {
         source: "factory",
+        dex,
       }),
+    onNewV4Pool: ({
+      chain,
+      dex,
+      poolId,
+      currency0,
+      currency1,
+      fee,
+      tickSpacing,
+      hooks,
+    }) =>
+      ensureV4Market(
+        chain,
+        poolId,
+        currency0,
+        currency1,
+        { fee, tickSpacing, hooks },
+        { source: "factory", dex }
+      ),
   });
 
+  // —— 发射台：曲线成交进滑窗，毕业后发告警并快速跟踪新交易对 —— //
+  startLaunchpadWatcher(clients, {
+    onGraduated: ({
+      chain,
+      launchpad,
+      dex,
+      token,
+      pair,
+      token0,
+      token1,
+      curve,
+      log,
+    }) => {
+      const key = marketKey(chain, "v2", pair);
+      pendingGraduations.set(key, {
+        graduation: { chain, launchpad, dex, curve },
+        alert: {
+          chain,
+          type: "v2",
+          dex,
+          addr: pair,
+          token0,
+          token1,
+          target: token === token0 ? "token0" : "token1",
+          graduation: launchpad,
+        },
+        log,
+      });
+      ensureV2Market(chain, pair, token0, token1, {
+        source: "launchpad",
+        dex,
+        fastTrack: true,
+      });
+      // 已在跟踪（闸门早已跑完）的交易对直接按当前状态处理
+      releaseGraduation(key);
+    },
+  });
+
+  // —— 交易未开启被拒的市场：开盘后重新订阅并重跑闸门 —— //
+  startTradingOpenWatcher(clients, (entry) => regate(entry, "trading-open"));
+
+  // —— 流动性不足的新池：只订加池事件，加池达标后重新订阅并重跑闸门 —— //
+  startPendingLiquidityWatcher(clients, (entry) =>
+    regate(entry, "liquidity-added")
+  );
+
+  // —— 已激活市场：定期 + 可疑事件（大额撤池、税率超限）触发复查 —— //
+  startRegateScheduler(recheck);
+
   startTrendingWatcher({
-    onV2Candidate: ({ chain, pair, token0, token1 }) =>
-      ensureV2Market(chain, pair, token0, token1, { source: "trending" }),
-    onV3Candidate: ({ chain, pool, token0, token1, fee }) =>
-      ensureV3Market(chain, pool, token0, token1, fee, { source: "trending" }),
+    onV2Candidate: ({ chain, dex, pair, token0, token1 }) =>
+      ensureV2Market(chain, pair, token0, token1, { source: "trending", dex }),
+    onV3Candidate: ({ chain, dex, pool, token0, token1, fee }) =>
+      ensureV3Market(chain, pool, token0, token1, fee, {
+        source: "trending",
+        dex,
+      }),
   });
 
   setInterval(() => {
     const removed = watchlist.sweep();
     if (removed.length) {
       removed.forEach(stopSubscription);
+      removed.forEach((key) => alertThrottle.forget(key));
+      removed.forEach((key) => liquidityTracker.forget(key));
+      removed.forEach((key) => pendingGraduations.delete(key));
       logger.debug({ removed }, "Swept stale watchlist entries");
     }
   }, 10 * 60_000);
 
+  const shutdown = async () => {
+    try {
+      watchlist.flush();
+      storage.close();
+      await closeKvBackend();
+    } finally {
+      process.exit(0);
+    }
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
   logger.info("👀 Subscriptions ready — factories & trending feeds online");
 }
 
-/** 跑安全闸门，通过后激活 watchlist 条目 */
+/**
+ * 跑安全闸门，通过后激活 watchlist 条目；返回是否通过及原因（出错返回 undefined）
+ * keepOnError：复查已激活市场时，闸门自身出错（RPC 抖动等）不拒绝市场
+ */
 async function runGates(
   clients: EvmClients,
   chain: ChainLabel,
-  type: "v2" | "v3",
+  type: "v2" | "v3" | "v4",
   addr: `0x${string}`,
   token0: `0x${string}`,
   token1: `0x${string}`,
   fee?: number,
-  cancelSubscription?: () => void
-) {
-  const client = chain === "BSC" ? clients.bsc : clients.ethereum;
+  cancelSubscription?: () => void,
+  opts: { keepOnError?: boolean } = {}
+): Promise<
+  { ok: boolean; reasons: string[]; verdict: GateVerdict } | undefined
+> {
+  const client = clients[chain];
   const key = marketKey(chain, type, addr);
   const cancel = cancelSubscription ?? (() => {});
 
@@ -434,22 +1191,89 @@ async function runGates(
       token0,
       token1,
       fee,
+      dex: watchlist.get(key)?.dex,
+      hooks: watchlist.get(key)?.hooks,
+    });
+    getStorage().recordGateResult({
+      key,
+      ts: Date.now(),
+      ok: gates.ok,
+      reasons: gates.reasons,
+      verdict: gates.verdict,
+      context: gates.context,
     });
+    watchlist.setVerdict(key, gates.verdict);
+    // 新池只因流动性不足被挡：转入等待加池，不记为部署者的被拒币
+    const entry = watchlist.get(key);
+    if (
+      !gates.ok &&
+      entry &&
+      entry.status !== "active" &&
+      failedChecks(gates.verdict).every((c) => c.id === "minLiquidity")
+    ) {
+      cancel(); // 先停完整订阅，再挂只订加池事件的订阅
+      if (awaitLiquidity(entry, gates.reasons.join("; "))) {
+        return { ok: false, reasons: gates.reasons, verdict: gates.verdict };
+      }
+    }
+    // 部署者记录按代币记，只有蜜罐/税率/权限这类部署者本人的问题才算坏结局
+    const deployer = gates.context.deployer?.deployer ?? entry?.meta.deployer;
+    const token = launchedToken(chain, token0, token1);
+    if (deployer && token) {
+      recordDeployerToken({
+        chain,
+        token,
+        deployer,
+        firstSeen: entry?.firstSeen ?? Date.now(),
+        fault: isDeployerFault(gates.verdict),
+      });
+    }
     if (!gates.ok) {
       watchlist.reject(key, gates.reasons.join("; "));
       cancel();
-      return;
+      const limits = gates.context.tradingLimits;
+      if (limits?.tradingOpen === false && entry) {
+        awaitTradingOpen(entry, limits.token);
+      }
+      return { ok: false, reasons: gates.reasons, verdict: gates.verdict };
     }
 
-    watchlist.activate(key, { liquidityUsd: gates.context.liquidityUsd });
+    watchlist.activate(key, {
+      liquidityUsd: gates.context.liquidityUsd,
+      simBuyTax: gates.context.honeypot?.buyTax,
+      simSellTax: gates.context.honeypot?.sellTax,
+      riskFlags: gates.context.bytecode?.flags,
+      riskScore: gates.context.bytecode?.score,
+      ownership:
+        gates.context.ownership.map((o) => o.summary).join("；") || undefined,
+      ownerDowngrade: gates.context.ownerDowngrade,
+      holders:
+        gates.context.holders.map((h) => h.summary).join("；") || undefined,
+      holderWarnings: gates.context.holders.flatMap((h) => h.concentrated),
+      deployer,
+      deployerVerdict: gates.context.deployer?.verdict,
+      deployerSummary: gates.context.deployer
+        ? describeDeployer(gates.context.deployer)
+        : undefined,
+      tradingLimits: gates.context.tradingLimits,
+    });
     logger.info(
       { key, addr, lpNotes: gates.context.lpNotes },
       "✅ Safety gates passed — activated"
     );
+    return { ok: true, reasons: gates.reasons, verdict: gates.verdict };
   } catch (e: any) {
     logger.error({ key, e }, "runGates error");
+    getStorage().recordGateResult({
+      key,
+      ts: Date.now(),
+      ok: false,
+      reasons: [`gates error: ${String(e?.message ?? e)}`],
+    });
+    if (opts.keepOnError) return undefined;
     watchlist.reject(key, "gates error");
     cancel();
+    return undefined;
   }
 }
 
@@ -1,11 +1,14 @@
-import { PublicClient, getContract } from "viem";
+import { PublicClient } from "viem";
 import { PARSED_ABI } from "../chains/abis.js";
 import { fetchTokenUsdViaDexScreener } from "../price/baseQuotes.js";
 import {
   v2PricesUsdIfBase,
   v3PricesUsdIfBase,
+  v4PricesUsdIfBase,
   getTokenDecimals,
 } from "../price/reservesPrice.js";
+import { quorumRead } from "../chains/rpcPool.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /**
  * 计算 FDV（近似）：totalSupply × priceUsd
@@ -13,8 +16,7 @@ import {
  * - 维护一个短历史，用于计算“短时倍增”
  */
 
-type ChainLabel = "BSC" | "ETH";
-type MarketType = "v2" | "v3";
+type MarketType = "v2" | "v3" | "v4";
 
 const FDV_CACHE_TTL_MS = 30_000;
 const fdvCache = new Map<string, { ts: number; value: number }>();
@@ -82,9 +84,15 @@ export async function computeFdvNow(params: {
   }
 
   // 1) totalSupply
-  const erc = getContract({ address: token, abi: PARSED_ABI.erc20, client });
   const [supplyBI, dec] = await Promise.all([
-    erc.read.totalSupply() as Promise<bigint>,
+    quorumRead(chain, client, (c, blockNumber) =>
+      c.readContract({
+        address: token,
+        abi: PARSED_ABI.erc20,
+        functionName: "totalSupply",
+        blockNumber,
+      })
+    ) as Promise<bigint>,
     getTokenDecimals(client, token),
   ]);
   const supply = Number(supplyBI) / 10 ** dec;
@@ -94,9 +102,12 @@ export async function computeFdvNow(params: {
   if (type === "v2") {
     const p = await v2PricesUsdIfBase(chain, client, addr, token0, token1);
     priceUsd = target === "token0" ? p.price0Usd : p.price1Usd;
-  } else {
+  } else if (type === "v3") {
     const p = await v3PricesUsdIfBase(chain, client, addr, token0, token1);
     priceUsd = target === "token0" ? p.price0Usd : p.price1Usd;
+  } else {
+    const p = await v4PricesUsdIfBase(chain, client, addr, token0, token1);
+    priceUsd = target === "token0" ? p.price0Usd : p.price1Usd;
   }
   if (priceUsd === undefined) {
     priceUsd = await fetchTokenUsdViaDexScreener(chain, token);
@@ -0,0 +1,411 @@
+import { PublicClient, numberToHex, type Hex } from "viem";
+import { STRATEGY } from "../config.js";
+import { PARSED_ABI } from "../chains/abis.js";
+import { getBaseTokenUsd, isBaseToken } from "../price/baseQuotes.js";
+import { getTokenDecimals, v4PoolStateSlot } from "../price/reservesPrice.js";
+import { watchlist } from "../state/watchlist.js";
+import type { ChainLabel } from "../chains/registry.js";
+
+/**
+ * 实时流动性与撤池（rug）检测：
+ * - V2 每次储备变化都会发 Sync：基准币一侧储备 × 基准币 USD × 2 即为可见 LP 美元，写回 meta.liquidityUsd
+ * - 每个市场保留最近 RUG_WINDOW_BLOCKS 个区块内的样本：√(r0·r1)（即 √k，只随加/撤池变化）与基准侧储备
+ * - 撤池判定只看加/撤池：① 窗口内 √k 较峰值下跌 ≥ RUG_DROP_PCT；② 单笔 Burn 取走 ≥ RUG_BURN_PCT 的池子
+ * - 砸盘（基准侧储备被卖单抽干、√k 不变）单独返回 dump，由 index 发砸盘告警，不算撤池
+ * 比例只看原始储备，不依赖报价；USD 仅用于展示
+ * - V3 没有 Sync：在 Mint/Burn/Collect 时重读池子（slot0/liquidity/余额）估值；
+ *   余额会随成交变化，撤池只按 Burn 判定：单笔占比按交易前一块的池子余额计算，窗口内累计占比对应 ①
+ * - V4 只做估值（最小流动性闸门）：经 extsload 读 PoolManager 里的 slot0/liquidity
+ */
+
+interface LiquiditySample {
+  block: bigint;
+  depth: number; // √k，原始单位
+  base?: number; // 基准侧储备（没有基准币时为空）
+  usd?: number;
+}
+
+export interface LiquidityDrop {
+  dropPct: number; // 0–1，√k 相对窗口内峰值
+  peakUsd?: number;
+  usd?: number;
+  blocks: number; // 峰值到当前的区块数
+  dump?: { pct: number; peakUsd?: number; blocks: number }; // 基准侧储备相对窗口内峰值（砸盘）
+}
+
+export class LiquidityTracker {
+  private samples = new Map<string, LiquiditySample[]>();
+  private reserves = new Map<string, [bigint, bigint]>();
+  private burns = new Map<string, { block: bigint; share: number }[]>();
+
+  /** 记下最新储备（同步调用，供随后到达的 Burn 计算占比） */
+  setReserves(key: string, r0: bigint, r1: bigint) {
+    this.reserves.set(key, [r0, r1]);
+  }
+
+  /**
+   * Burn 取走的池子占比：UniswapV2 的 burn 先 Sync 后 Burn，
+   * 此时记下的储备已是撤池之后，占比 = amount / (储备 + amount)
+   */
+  burnShare(key: string, amount0: bigint, amount1: bigint) {
+    const r = this.reserves.get(key);
+    if (!r) return undefined;
+    const share = (amount: bigint, reserve: bigint) =>
+      reserve + amount > 0n ? Number(amount) / Number(reserve + amount) : 0;
+    return Math.max(share(amount0, r[0]), share(amount1, r[1]));
+  }
+
+  record(key: string, sample: LiquiditySample): LiquidityDrop {
+    const list = this.samples.get(key) ?? [];
+    list.push(sample);
+    const cutoff = sample.block - BigInt(STRATEGY.RUG_WINDOW_BLOCKS);
+    while (list.length && list[0].block < cutoff) list.shift();
+    this.samples.set(key, list);
+
+    let peak = list[0];
+    for (const s of list) if (s.depth > peak.depth) peak = s;
+    let peakBase = list[0];
+    for (const s of list) if ((s.base ?? 0) > (peakBase.base ?? 0)) peakBase = s;
+    return {
+      dropPct: peak.depth > 0 ? Math.max(0, 1 - sample.depth / peak.depth) : 0,
+      peakUsd: peak.usd,
+      usd: sample.usd,
+      blocks: Number(sample.block - peak.block),
+      dump:
+        sample.base !== undefined && peakBase.base
+          ? {
+              pct: Math.max(0, 1 - sample.base / peakBase.base),
+              peakUsd: peakBase.usd,
+              blocks: Number(sample.block - peakBase.block),
+            }
+          : undefined,
+    };
+  }
+
+  /**
+   * V3 Burn：记下单笔占比，返回窗口内累计取走的比例（1 − Π(1 − share)）
+   * 与首笔的区块距离
+   */
+  recordBurn(key: string, block: bigint, share: number) {
+    const list = this.burns.get(key) ?? [];
+    list.push({ block, share });
+    const cutoff = block - BigInt(STRATEGY.RUG_WINDOW_BLOCKS);
+    while (list.length && list[0].block < cutoff) list.shift();
+    this.burns.set(key, list);
+
+    const left = list.reduce((acc, b) => acc * (1 - b.share), 1);
+    return { dropPct: 1 - left, blocks: Number(block - list[0].block) };
+  }
+
+  /** 触发撤池（或砸盘）告警后清空窗口，避免同一次下跌反复判定 */
+  reset(key: string) {
+    this.samples.delete(key);
+    this.burns.delete(key);
+  }
+
+  forget(key: string) {
+    this.samples.delete(key);
+    this.reserves.delete(key);
+    this.burns.delete(key);
+  }
+}
+
+export const liquidityTracker = new LiquidityTracker();
+
+/** 储备折 USD：有基准币一侧时按其报价 × 2（双边估算） */
+export async function reservesToUsd(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  reserve0: bigint;
+  reserve1: bigint;
+}) {
+  const { chain, client, token0, token1 } = params;
+  const side = isBaseToken(chain, token1)
+    ? { token: token1, reserve: params.reserve1 }
+    : isBaseToken(chain, token0)
+    ? { token: token0, reserve: params.reserve0 }
+    : undefined;
+  if (!side) return undefined;
+  const [decimals, usd] = await Promise.all([
+    getTokenDecimals(client, side.token),
+    getBaseTokenUsd(chain, side.token),
+  ]);
+  if (usd === undefined) return undefined;
+  return (Number(side.reserve) / 10 ** decimals) * usd * 2;
+}
+
+/** V2 Sync：更新 meta.liquidityUsd，并返回 √k 与基准侧储备相对窗口峰值的跌幅 */
+export async function onV2SyncToLiquidity(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  key: string;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  reserve0: bigint;
+  reserve1: bigint;
+  blockNumber: bigint;
+}): Promise<LiquidityDrop> {
+  const { chain, key, token0, token1, reserve0, reserve1 } = params;
+  liquidityTracker.setReserves(key, reserve0, reserve1);
+
+  const depth = Math.sqrt(Number(reserve0) * Number(reserve1));
+  const base = isBaseToken(chain, token1)
+    ? Number(reserve1)
+    : isBaseToken(chain, token0)
+    ? Number(reserve0)
+    : undefined;
+
+  let usd: number | undefined;
+  try {
+    usd = await reservesToUsd(params);
+  } catch {}
+  if (usd !== undefined && Number.isFinite(usd)) {
+    watchlist.patchMeta(key, { liquidityUsd: usd });
+  }
+
+  return liquidityTracker.record(key, {
+    block: params.blockNumber,
+    depth,
+    base,
+    usd,
+  });
+}
+
+/** V3 池子的链上状态（估值与撤池检测用） */
+export interface V3PoolState {
+  sqrtPriceX96: bigint;
+  liquidity: bigint; // 当前价位上的在区间流动性 L
+  balance0: bigint;
+  balance1: bigint;
+}
+
+export async function readV3PoolState(
+  client: PublicClient,
+  pool: `0x${string}`,
+  token0: `0x${string}`,
+  token1: `0x${string}`,
+  blockNumber?: bigint
+): Promise<V3PoolState> {
+  const [slot0, liquidity, balance0, balance1] = await Promise.all([
+    client.readContract({
+      address: pool,
+      abi: PARSED_ABI.v3Pool,
+      functionName: "slot0",
+      blockNumber,
+    }),
+    client.readContract({
+      address: pool,
+      abi: PARSED_ABI.v3Pool,
+      functionName: "liquidity",
+      blockNumber,
+    }),
+    client.readContract({
+      address: token0,
+      abi: PARSED_ABI.erc20,
+      functionName: "balanceOf",
+      args: [pool],
+      blockNumber,
+    }),
+    client.readContract({
+      address: token1,
+      abi: PARSED_ABI.erc20,
+      functionName: "balanceOf",
+      args: [pool],
+      blockNumber,
+    }),
+  ]);
+  return {
+    sqrtPriceX96: (slot0 as unknown as [bigint])[0],
+    liquidity: liquidity as bigint,
+    balance0: balance0 as bigint,
+    balance1: balance1 as bigint,
+  };
+}
+
+/**
+ * V3 估值（需一侧为基准币）：
+ * - 单价：基准币报价 + slot0 比价
+ * - 在区间流动性：当前 L 对应的虚拟储备 x = L/√P、y = L·√P，各自以池子实际余额封顶
+ * - tvl：池子全部余额（含区间外头寸与未领取手续费）
+ */
+export async function valueV3Pool(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  state: V3PoolState;
+}) {
+  const { state } = params;
+  const pricing = await concentratedPricing({
+    ...params,
+    sqrtPriceX96: state.sqrtPriceX96,
+  });
+  if (!pricing) return undefined;
+  const { sp, amountsUsd } = pricing;
+
+  const L = Number(state.liquidity);
+  const x = Math.min(L / sp, Number(state.balance0));
+  const y = Math.min(L * sp, Number(state.balance1));
+  return {
+    inRangeUsd: amountsUsd(x, y),
+    tvlUsd: amountsUsd(Number(state.balance0), Number(state.balance1)),
+    amountsUsd,
+  };
+}
+
+/** 集中流动性池的报价：基准币 USD + sqrtPriceX96 比价，给出原始数量折 USD 的函数 */
+async function concentratedPricing(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  sqrtPriceX96: bigint;
+}) {
+  const { chain, client, token0, token1 } = params;
+  const baseIs1 = isBaseToken(chain, token1);
+  if (!baseIs1 && !isBaseToken(chain, token0)) return undefined;
+  const [d0, d1, baseUsd] = await Promise.all([
+    getTokenDecimals(client, token0),
+    getTokenDecimals(client, token1),
+    getBaseTokenUsd(chain, baseIs1 ? token1 : token0),
+  ]);
+  if (baseUsd === undefined) return undefined;
+
+  const sp = Number(params.sqrtPriceX96) / 2 ** 96; // √(原始单位下 token1/token0)
+  const ratio = sp * sp * 10 ** (d0 - d1); // 1 个 token0 值多少 token1
+  if (!Number.isFinite(ratio) || ratio <= 0) return undefined;
+  const usd0 = baseIs1 ? ratio * baseUsd : baseUsd;
+  const usd1 = baseIs1 ? baseUsd : baseUsd / ratio;
+  const amountsUsd = (a0: number, a1: number) =>
+    (a0 / 10 ** d0) * usd0 + (a1 / 10 ** d1) * usd1;
+  return { sp, amountsUsd };
+}
+
+/** V4 池子的链上状态：池子没有独立地址与余额，只有 PoolManager 里的 slot0 与 liquidity */
+export interface V4PoolState {
+  sqrtPriceX96: bigint;
+  liquidity: bigint; // 当前价位上的在区间流动性 L
+}
+
+/**
+ * 经 extsload 读 PoolManager 里该 PoolId 的 Pool.State（StateLibrary 布局）：
+ * 起始槽低 160 位为 sqrtPriceX96，起始槽 + 3 为 liquidity（uint128）
+ */
+export async function readV4PoolState(
+  client: PublicClient,
+  poolManager: `0x${string}`,
+  poolId: `0x${string}`,
+  blockNumber?: bigint
+): Promise<V4PoolState> {
+  const stateSlot = BigInt(v4PoolStateSlot(poolId));
+  const [slot0, liquidity] = await Promise.all(
+    [stateSlot, stateSlot + 3n].map(
+      (slot) =>
+        client.readContract({
+          address: poolManager,
+          abi: PARSED_ABI.v4PoolManager,
+          functionName: "extsload",
+          args: [numberToHex(slot, { size: 32 })],
+          blockNumber,
+        }) as Promise<Hex>
+    )
+  );
+  return {
+    sqrtPriceX96: BigInt(slot0) & ((1n << 160n) - 1n),
+    liquidity: BigInt(liquidity) & ((1n << 128n) - 1n),
+  };
+}
+
+/**
+ * V4 估值（需一侧为基准币或原生币）：当前 L 对应的虚拟储备 x = L/√P、y = L·√P
+ * 余额都在单例 PoolManager 里，没有按池的余额可封顶，也没有 tvl
+ * 未初始化（sqrtPriceX96 为 0）返回 undefined
+ */
+export async function valueV4Pool(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  state: V4PoolState;
+}) {
+  const { state } = params;
+  const pricing = await concentratedPricing({
+    ...params,
+    sqrtPriceX96: state.sqrtPriceX96,
+  });
+  if (!pricing) return undefined;
+  const L = Number(state.liquidity);
+  return { inRangeUsd: pricing.amountsUsd(L / pricing.sp, L * pricing.sp) };
+}
+
+/**
+ * V3 单笔 Burn 取走的池子占比（按交易前一块的池子余额）
+ * 读取失败返回 undefined
+ */
+export async function v3BurnShare(params: {
+  client: PublicClient;
+  pool: `0x${string}`;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  amount0: bigint;
+  amount1: bigint;
+  blockNumber: bigint;
+}) {
+  try {
+    const prev = await readV3PoolState(
+      params.client,
+      params.pool,
+      params.token0,
+      params.token1,
+      params.blockNumber - 1n
+    );
+    const share = (amount: bigint, balance: bigint) =>
+      balance > 0n ? Math.min(1, Number(amount) / Number(balance)) : 0;
+    return Math.max(
+      share(params.amount0, prev.balance0),
+      share(params.amount1, prev.balance1)
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * V3 Mint/Burn/Collect：重读池子，更新 meta.liquidityUsd（在区间）
+ * 传入事件的 amount0/amount1 时一并折算本次加/撤池的 USD（eventUsd）
+ */
+export async function onV3LiquidityEvent(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  key: string;
+  pool: `0x${string}`;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  amount0?: bigint;
+  amount1?: bigint;
+}): Promise<{ usd?: number; eventUsd?: number } | undefined> {
+  const { chain, client, key, pool, token0, token1 } = params;
+  let state: V3PoolState;
+  try {
+    state = await readV3PoolState(client, pool, token0, token1);
+  } catch {
+    return undefined;
+  }
+  let usd: number | undefined;
+  let eventUsd: number | undefined;
+  try {
+    const value = await valueV3Pool({ chain, client, token0, token1, state });
+    usd = value?.inRangeUsd;
+    const { amount0, amount1 } = params;
+    if (value && amount0 !== undefined && amount1 !== undefined) {
+      eventUsd = value.amountsUsd(Number(amount0), Number(amount1));
+    }
+  } catch {}
+  if (usd !== undefined && Number.isFinite(usd)) {
+    watchlist.patchMeta(key, { liquidityUsd: usd });
+  }
+
+  return { usd, eventUsd };
+}
@@ -1,12 +1,13 @@
 import { windows } from "../state/windows.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /**
  * 量能倍增：最近 1 分钟成交额 / 过去 5–10 分钟均值
  * - windows.baselineAvgPerMin() 已经返回 5–10 分钟均值（近似）
  */
 export function getVolumeMultiplier(
-  chain: "BSC" | "ETH",
-  type: "v2" | "v3",
+  chain: ChainLabel,
+  type: "v2" | "v3" | "v4",
   addr: `0x${string}`
 ) {
   const oneMinuteStats = windows.oneMinute(chain, type, addr);
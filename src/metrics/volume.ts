@@ -3,16 +3,18 @@ import { ABI } from "../chains/abis.js";
 import { windows } from "../state/windows.js";
 import { deltaToUsdIfBase, getTokenDecimals } from "../price/reservesPrice.js";
 import { fetchTokenUsdViaDexScreener } from "../price/baseQuotes.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /**
  * 将一笔 Swap 事件折算为 USD，并写入 1 分钟/10 分钟滑窗
- * - marketType: 'v2' | 'v3'
+ * - marketType: 'v2' | 'v3' | 'v4'
  * - target: 'token0' | 'token1'  表示“我们要监控的目标token是哪一侧”
  * - 事件字段来自 subscriptions.ts 的回调
+ * - tradeId 为来源日志标识（logRef），日志被重组移除时用 retractSwapFromWindows 撤回
  */
 
 export async function onV2SwapToWindows(params: {
-  chain: "BSC" | "ETH";
+  chain: ChainLabel;
   client: PublicClient;
   addr: `0x${string}`; // pair
   token0: `0x${string}`;
@@ -24,6 +26,7 @@ export async function onV2SwapToWindows(params: {
   amount1In: bigint;
   amount0Out: bigint;
   amount1Out: bigint;
+  tradeId?: string;
 }): Promise<{ usd: number; isBuy: boolean } | undefined> {
   const { chain, client, addr, token0, token1, target } = params;
 
@@ -69,21 +72,22 @@ export async function onV2SwapToWindows(params: {
     Number.isFinite(priceUsd) &&
     priceUsd > 0
   ) {
-    windows.recordTrade({
+    const recorded = windows.recordTrade({
       chain,
       type: "v2",
       addr,
       usd: priceUsd,
       isBuy,
       buyer,
+      id: params.tradeId,
     });
-    return { usd: priceUsd, isBuy };
+    return recorded ? { usd: priceUsd, isBuy } : undefined;
   }
   return undefined;
 }
 
 export async function onV3SwapToWindows(params: {
-  chain: "BSC" | "ETH";
+  chain: ChainLabel;
   client: PublicClient;
   addr: `0x${string}`; // pool
   token0: `0x${string}`;
@@ -93,6 +97,7 @@ export async function onV3SwapToWindows(params: {
   recipient: `0x${string}`;
   amount0: bigint; // 注意：V3 为有符号，>0 表示进池，<0 表示出池
   amount1: bigint;
+  tradeId?: string;
 }): Promise<{ usd: number; isBuy: boolean } | undefined> {
   const { chain, client, addr, token0, token1, target } = params;
   const [d0, d1] = await Promise.all([
@@ -133,23 +138,101 @@ export async function onV3SwapToWindows(params: {
     Number.isFinite(priceUsd) &&
     priceUsd > 0
   ) {
-    windows.recordTrade({
+    const recorded = windows.recordTrade({
       chain,
       type: "v3",
       addr,
       usd: priceUsd,
       isBuy,
       buyer,
+      id: params.tradeId,
     });
-    return { usd: priceUsd, isBuy };
+    return recorded ? { usd: priceUsd, isBuy } : undefined;
   }
   return undefined;
 }
 
+export async function onV4SwapToWindows(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  addr: `0x${string}`; // PoolId
+  token0: `0x${string}`; // currency0（0 地址 = 原生币）
+  token1: `0x${string}`;
+  target: "token0" | "token1";
+  sender: `0x${string}`;
+  txHash?: `0x${string}`;
+  amount0: bigint; // 注意：V4 为交易者视角，>0 表示收到，<0 表示付出（与 V3 相反）
+  amount1: bigint;
+  sqrtPriceX96: bigint; // 成交后价格，直接用于折 USD
+  tradeId?: string;
+}): Promise<{ usd: number; isBuy: boolean } | undefined> {
+  const { chain, client, addr, token0, token1, target } = params;
+  const [d0, d1] = await Promise.all([
+    getTokenDecimals(client, token0),
+    getTokenDecimals(client, token1),
+  ]);
+  const delta0 = Number(params.amount0) / 10 ** d0;
+  const delta1 = Number(params.amount1) / 10 ** d1;
+
+  const isBuy = target === "token0" ? delta0 > 0 : delta1 > 0;
+  const deltaTarget = Math.abs(target === "token0" ? delta0 : delta1);
+
+  // 事件里的 sender 是路由合约；买入时取交易发起人作为买家（独立买家统计）
+  let buyer: `0x${string}` | undefined = params.sender;
+  if (isBuy && params.txHash) {
+    try {
+      buyer = (await client.getTransaction({ hash: params.txHash })).from;
+    } catch {
+      /* 取不到则退回 sender */
+    }
+  }
+
+  const usdByBase = await deltaToUsdIfBase(
+    chain,
+    { client, marketType: "v4", addr, token0, token1 },
+    target,
+    deltaTarget,
+    params.sqrtPriceX96
+  );
+  const targetAddr = target === "token0" ? token0 : token1;
+  const fallbackPrice = await fetchTokenUsdViaDexScreener(chain, targetAddr);
+  const priceUsd =
+    usdByBase ??
+    (fallbackPrice !== undefined ? fallbackPrice * deltaTarget : undefined);
+
+  if (
+    typeof priceUsd === "number" &&
+    Number.isFinite(priceUsd) &&
+    priceUsd > 0
+  ) {
+    const recorded = windows.recordTrade({
+      chain,
+      type: "v4",
+      addr,
+      usd: priceUsd,
+      isBuy,
+      buyer,
+      id: params.tradeId,
+    });
+    return recorded ? { usd: priceUsd, isBuy } : undefined;
+  }
+  return undefined;
+}
+
+/** 链重组移除了 Swap 日志：从滑窗撤回对应成交 */
+export function retractSwapFromWindows(
+  chain: ChainLabel,
+  type: "v2" | "v3" | "v4",
+  addr: `0x${string}`,
+  tradeId: string
+) {
+  return windows.retractTrade(chain, type, addr, tradeId);
+}
+
 /** 读取 1 分钟买入额/笔数/独立买家 */
 export function getOneMinuteBuys(
-  chain: "BSC" | "ETH",
-  type: "v2" | "v3",
+  chain: ChainLabel,
+  type: "v2" | "v3" | "v4",
   addr: `0x${string}`
 ) {
   const { buyUsd, buyTxs, uniqueBuyers, totalUsd } = windows.oneMinute(
@@ -1,42 +1,63 @@
+import { chainConfig } from "../config.js";
 import { logger } from "../logger.js";
+import type { AlertNotice, Notifier } from "./registry.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /** 直接输出到控制台（同时走 logger） */
-export async function tgSend(text: string) {
-  console.log("\n" + text + "\n");
-  logger.warn(text);
+export function createConsoleNotifier(name = "console"): Notifier {
+  return {
+    name,
+    kind: "console",
+    async send(alert: AlertNotice) {
+      console.log("\n" + alert.text + "\n");
+      logger.warn(alert.text);
+    },
+  };
 }
 
-const DS_SLUG = {
-  BSC: "bsc",
-  ETH: "ethereum",
-} as const;
-
-const GMGN_SLUG = {
-  BSC: "bsc",
-  ETH: "eth",
-} as const;
-
 /** 生成一条中文告警消息 */
 export function buildAlertMessage(params: {
-  level: "normal" | "strong";
-  chain: "BSC" | "ETH";
-  type: "v2" | "v3";
+  level: "normal" | "strong" | "rug";
+  chain: ChainLabel;
+  type: "v2" | "v3" | "v4";
+  dex?: string; // 所属 DEX（registry 名）
   addr: `0x${string}`;
   token0: `0x${string}`;
   token1: `0x${string}`;
   target: "token0" | "token1";
   headline: string;
   body: string;
+  digest?: boolean; // 冷却期内的“持续拉升”跟进摘要
+  suppressed?: number; // 自上一条以来被合并（抑制）的同类告警次数
+  graduation?: string; // 发射台毕业告警：发射台名
+  downgraded?: boolean; // 复查未通过的“安全降级”通知
+  dump?: boolean; // 基准侧储备被卖单抽干的“砸盘”通知
 }) {
   const { level, chain, type, addr, token0, token1, target, body } = params;
-  const levelText = level === "strong" ? "🚨 强烈预警" : "⚠️ 预警";
-  const typeText = type === "v2" ? "V2 交易对" : "V3 流动池";
+  const levelText = params.digest
+    ? "📈 持续拉升"
+    : params.graduation
+    ? `🎓 ${params.graduation} 毕业上池`
+    : params.downgraded
+    ? "🛑 安全降级"
+    : params.dump
+    ? "📉 砸盘预警"
+    : level === "rug"
+    ? "🩸 撤池预警"
+    : level === "strong"
+    ? "🚨 强烈预警"
+    : "⚠️ 预警";
+  const typeText = `${
+    type === "v2" ? "V2 交易对" : type === "v3" ? "V3 流动池" : "V4 池"
+  }${
+    params.dex ? `（${params.dex}）` : ""
+  }`;
   const targetText = target === "token0" ? "Token0" : "Token1";
 
-  const chainScan = chain === "BSC" ? "bscscan.com" : "etherscan.io";
-  const scanLink = `https://${chainScan}/address/${addr}`;
-  const token0Link = `https://${chainScan}/token/${token0}`;
-  const token1Link = `https://${chainScan}/token/${token1}`;
+  const { explorer } = chainConfig(chain);
+  const scanLink = `${explorer}/address/${addr}`;
+  const token0Link = `${explorer}/token/${token0}`;
+  const token1Link = `${explorer}/token/${token1}`;
 
   const quickLinks = buildQuickLinks(chain, addr);
 
@@ -45,9 +66,13 @@ export function buildAlertMessage(params: {
     `链：${chain} ｜ 监控侧：${targetText}`,
     body,
   ];
+  if (params.suppressed) {
+    lines.push(`冷却期内另有 ${params.suppressed} 次同类信号已合并`);
+  }
 
+  // V4 的 addr 是 PoolId，不是合约地址，浏览器上无页面可链
   const referenceLines = [
-    `区块浏览器：${scanLink}`,
+    ...(type === "v4" ? [`PoolId：${addr}`] : [`区块浏览器：${scanLink}`]),
     `Token0：${token0Link}`,
     `Token1：${token1Link}`,
   ];
@@ -59,11 +84,11 @@ export function buildAlertMessage(params: {
   return [...lines, "", ...referenceLines].join("\n");
 }
 
-function buildQuickLinks(chain: "BSC" | "ETH", addr: `0x${string}`) {
+function buildQuickLinks(chain: ChainLabel, addr: `0x${string}`) {
   const links: Array<{ label: string; url?: string }> = [
     {
       label: "DexScreener",
-      url: `https://dexscreener.com/${DS_SLUG[chain]}/${addr}`,
+      url: `https://dexscreener.com/${chainConfig(chain).dexScreenerSlug}/${addr}`,
     },
   ];
 
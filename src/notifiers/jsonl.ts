@@ -0,0 +1,17 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { AlertNotice, Notifier } from "./registry.js";
+
+/** 追加写入 JSONL 文件（每条告警一行），便于离线回放与审计 */
+export function createJsonlNotifier(name: string, path: string): Notifier {
+  let ready: Promise<unknown> | undefined;
+  return {
+    name,
+    kind: "jsonl",
+    async send(alert: AlertNotice) {
+      ready ??= mkdir(dirname(path), { recursive: true });
+      await ready;
+      await appendFile(path, JSON.stringify(alert) + "\n", "utf8");
+    },
+  };
+}
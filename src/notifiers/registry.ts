@@ -0,0 +1,157 @@
+import {
+  NOTIFIER,
+  NOTIFY,
+  type NotifyChannelConfig,
+  type NotifyRouteConfig,
+} from "../config.js";
+import { logger } from "../logger.js";
+import { buildAlertMessage, createConsoleNotifier } from "./console.js";
+import { createTelegramNotifier } from "./telegram.js";
+import {
+  createDiscordNotifier,
+  createSlackNotifier,
+  createWebhookNotifier,
+} from "./webhooks.js";
+import { createJsonlNotifier } from "./jsonl.js";
+
+/**
+ * 多通道通知注册表：
+ * - 一条告警按路由规则扇出到多个通道（console/telegram/discord/slack/webhook/jsonl）
+ * - 规则按 chain/level/type 匹配，命中规则的通道取并集
+ * - 各通道独立发送、互不阻塞：单个 webhook 挂掉只记日志，不影响其它通道
+ */
+
+export type AlertParams = Parameters<typeof buildAlertMessage>[0];
+
+/** 发往各通道的告警（结构化字段 + 渲染好的中文正文） */
+export interface AlertNotice extends AlertParams {
+  text: string;
+  ts: number;
+}
+
+export interface Notifier {
+  readonly name: string;
+  readonly kind: string;
+  send(alert: AlertNotice): Promise<void>;
+}
+
+export type RouteRule = NotifyRouteConfig;
+
+export class NotifierRegistry {
+  private sinks = new Map<string, Notifier>();
+  private routes: RouteRule[] = [];
+
+  register(notifier: Notifier) {
+    if (this.sinks.has(notifier.name)) {
+      throw new Error(`duplicate notifier channel "${notifier.name}"`);
+    }
+    this.sinks.set(notifier.name, notifier);
+    return this;
+  }
+
+  setRoutes(rules: RouteRule[]) {
+    for (const rule of rules) {
+      const unknown = rule.channels.filter((c) => !this.sinks.has(c));
+      if (unknown.length) {
+        throw new Error(
+          `route refers to unknown channels: ${unknown.join(", ")}`
+        );
+      }
+    }
+    this.routes = rules;
+    return this;
+  }
+
+  get size() {
+    return this.sinks.size;
+  }
+
+  /** 计算一条告警应发往的通道；未配置路由时发往全部通道 */
+  resolve(alert: AlertParams): Notifier[] {
+    if (!this.routes.length) return [...this.sinks.values()];
+    const names = new Set<string>();
+    for (const rule of this.routes) {
+      if (rule.chain && !rule.chain.includes(alert.chain)) continue;
+      if (rule.level && !rule.level.includes(alert.level)) continue;
+      if (rule.type && !rule.type.includes(alert.type)) continue;
+      rule.channels.forEach((c) => names.add(c));
+    }
+    return [...names].map((n) => this.sinks.get(n)!).filter(Boolean);
+  }
+
+  /** 渲染并扇出一条告警，返回成功/失败的通道名 */
+  async dispatch(params: AlertParams) {
+    const alert: AlertNotice = {
+      ...params,
+      text: buildAlertMessage(params),
+      ts: Date.now(),
+    };
+    const targets = this.resolve(params);
+    if (!targets.length) {
+      logger.warn(
+        { chain: params.chain, level: params.level, addr: params.addr },
+        "Alert matched no notify route"
+      );
+      return { sent: [] as string[], failed: [] as string[] };
+    }
+
+    const results = await Promise.allSettled(targets.map((n) => n.send(alert)));
+    const sent: string[] = [];
+    const failed: string[] = [];
+    results.forEach((r, i) => {
+      const { name, kind } = targets[i];
+      if (r.status === "fulfilled") {
+        sent.push(name);
+      } else {
+        failed.push(name);
+        logger.error(
+          { channel: name, kind, err: String(r.reason?.message ?? r.reason) },
+          "Notifier channel failed"
+        );
+      }
+    });
+    return { sent, failed };
+  }
+}
+
+/** 由通道配置创建具体通知器 */
+export function createNotifier(channel: NotifyChannelConfig): Notifier {
+  switch (channel.kind) {
+    case "console":
+      return createConsoleNotifier(channel.name);
+    case "telegram":
+      return createTelegramNotifier(channel.name, {
+        token: channel.token,
+        chatId: channel.chatId,
+        apiBase: channel.apiBase,
+        parseMode: channel.parseMode,
+      });
+    case "discord":
+      return createDiscordNotifier(channel.name, channel.url);
+    case "slack":
+      return createSlackNotifier(channel.name, channel.url);
+    case "webhook":
+      return createWebhookNotifier(channel.name, channel.url, channel.headers);
+    case "jsonl":
+      return createJsonlNotifier(channel.name, channel.path);
+  }
+}
+
+export function buildNotifierRegistry(cfg = NOTIFY) {
+  const registry = new NotifierRegistry();
+  if (!cfg.channels.length) {
+    registry.register(
+      NOTIFIER.kind === "telegram"
+        ? createTelegramNotifier("default")
+        : createConsoleNotifier("default")
+    );
+    return registry;
+  }
+  for (const channel of cfg.channels) {
+    registry.register(createNotifier(channel));
+  }
+  registry.setRoutes(cfg.routes);
+  return registry;
+}
+
+export const notifiers = buildNotifierRegistry();
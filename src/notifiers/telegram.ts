@@ -0,0 +1,197 @@
+import axios, { AxiosError } from "axios";
+import { TELEGRAM } from "../config.js";
+import { logger } from "../logger.js";
+import type { AlertNotice, Notifier } from "./registry.js";
+
+/**
+ * Telegram Bot API 通知层：
+ * - sendMessage，正文按 parse_mode 做 HTML / MarkdownV2 转义（消息本身按纯文本处理）
+ * - 超过 4096 字符时按行切分成多条，顺序发送
+ * - 429 时读取 parameters.retry_after 等待后重试
+ * - 统一关闭链接预览（告警里链接较多，预览会刷屏）
+ * - apiBase 可指向本地的 Bot API 替身，便于联调
+ */
+
+export type TelegramParseMode = "HTML" | "MarkdownV2";
+
+export interface TelegramOptions {
+  token: string;
+  chatId: string;
+  apiBase: string;
+  parseMode: TelegramParseMode;
+}
+
+interface TelegramResponse {
+  ok: boolean;
+  description?: string;
+  error_code?: number;
+  parameters?: { retry_after?: number };
+}
+
+const TG_MESSAGE_LIMIT = 4096;
+const MAX_RETRIES = 3;
+
+const tg = axios.create({
+  timeout: 10_000,
+  headers: { "Content-Type": "application/json" },
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** 合并配置时忽略显式为 undefined 的字段 */
+function resolveOptions(overrides?: Partial<TelegramOptions>) {
+  const defined = Object.fromEntries(
+    Object.entries(overrides ?? {}).filter(([, v]) => v !== undefined)
+  );
+  return { ...TELEGRAM, ...defined } as Partial<TelegramOptions>;
+}
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** MarkdownV2 要求转义的字符集合（见 Bot API 文档 “MarkdownV2 style”） */
+const MARKDOWN_V2_SPECIAL = /[_*\[\]()~`>#+\-=|{}.!\\]/g;
+
+export function escapeMarkdownV2(text: string) {
+  return text.replace(MARKDOWN_V2_SPECIAL, (c) => `\\${c}`);
+}
+
+export function escapeForParseMode(text: string, mode: TelegramParseMode) {
+  return mode === "HTML" ? escapeHtml(text) : escapeMarkdownV2(text);
+}
+
+/**
+ * 按行切分消息，保证每段经 measure（通常为“转义后长度”）后不超过 limit
+ * - 优先在换行处切；单行超长时按字符硬切（不拆 surrogate pair）
+ */
+export function splitMessage(
+  text: string,
+  limit = TG_MESSAGE_LIMIT,
+  measure: (s: string) => number = (s) => s.length
+): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  let currentLen = 0;
+
+  const flush = () => {
+    if (current) chunks.push(current);
+    current = "";
+    currentLen = 0;
+  };
+
+  for (const line of text.split("\n")) {
+    const lineLen = measure(line);
+    const sepLen = current ? measure("\n") : 0;
+
+    if (currentLen + sepLen + lineLen <= limit) {
+      current = current ? `${current}\n${line}` : line;
+      currentLen += sepLen + lineLen;
+      continue;
+    }
+
+    flush();
+    if (lineLen <= limit) {
+      current = line;
+      currentLen = lineLen;
+      continue;
+    }
+
+    // 单行超长：逐字符累加
+    for (const ch of line) {
+      const chLen = measure(ch);
+      if (currentLen + chLen > limit) flush();
+      current += ch;
+      currentLen += chLen;
+    }
+  }
+  flush();
+
+  return chunks.length ? chunks : [""];
+}
+
+async function postSendMessage(
+  opts: TelegramOptions,
+  payload: Record<string, unknown>
+) {
+  const url = `${opts.apiBase.replace(/\/+$/, "")}/bot${opts.token}/sendMessage`;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { data } = await tg.post<TelegramResponse>(url, payload);
+      if (!data?.ok) {
+        throw new Error(
+          `telegram sendMessage failed: ${data?.description ?? "unknown"}`
+        );
+      }
+      return data;
+    } catch (e) {
+      const err = e as AxiosError<TelegramResponse>;
+      const status = err.response?.status ?? 0;
+      const body = err.response?.data;
+      if (status === 429 && attempt < MAX_RETRIES) {
+        const retryAfter = Number(body?.parameters?.retry_after ?? 1);
+        const waitMs =
+          Math.max(1, Number.isFinite(retryAfter) ? retryAfter : 1) * 1000;
+        logger.warn({ retryAfter, attempt }, "Telegram rate limited, retrying");
+        await sleep(waitMs);
+        continue;
+      }
+      if (err.isAxiosError) {
+        // 不把带 token 的 URL 抛出去
+        throw new Error(
+          `telegram sendMessage failed (${status || err.code}): ${
+            body?.description ?? err.message
+          }`
+        );
+      }
+      throw e;
+    }
+  }
+}
+
+/** 发送一条（可能被切分为多段的）纯文本消息 */
+export async function sendTelegramMessage(
+  text: string,
+  overrides?: Partial<TelegramOptions>
+) {
+  const opts = resolveOptions(overrides);
+  if (!opts.token || !opts.chatId) {
+    throw new Error("telegram notifier requires TG_BOT_TOKEN and TG_CHAT_ID");
+  }
+  const options = opts as TelegramOptions;
+  const escape = (s: string) => escapeForParseMode(s, options.parseMode);
+
+  const chunks = splitMessage(text, TG_MESSAGE_LIMIT, (s) => escape(s).length);
+  for (const chunk of chunks) {
+    await postSendMessage(options, {
+      chat_id: options.chatId,
+      text: escape(chunk),
+      parse_mode: options.parseMode,
+      link_preview_options: { is_disabled: true },
+    });
+  }
+  return chunks.length;
+}
+
+/** Telegram 通道：未指定的字段沿用 TG_* 环境变量 */
+export function createTelegramNotifier(
+  name: string,
+  overrides?: Partial<TelegramOptions>
+): Notifier {
+  const opts = resolveOptions(overrides);
+  if (!opts.token || !opts.chatId) {
+    throw new Error(
+      `telegram channel "${name}" requires a bot token and chat id`
+    );
+  }
+  return {
+    name,
+    kind: "telegram",
+    async send(alert: AlertNotice) {
+      await sendTelegramMessage(alert.text, opts);
+    },
+  };
+}
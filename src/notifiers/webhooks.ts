@@ -0,0 +1,95 @@
+import axios, { AxiosError } from "axios";
+import { logger } from "../logger.js";
+import { splitMessage } from "./telegram.js";
+import type { AlertNotice, Notifier } from "./registry.js";
+
+/**
+ * Webhook 类通道：
+ * - Discord：content 上限 2000 字符，超长按行切分
+ * - Slack：Incoming Webhook，{ text }
+ * - 通用 JSON：POST 整条结构化告警，方便下游自行渲染
+ * 429 时按 retry_after / Retry-After 等待后重试一次
+ */
+
+const DISCORD_CONTENT_LIMIT = 2000;
+
+const hook = axios.create({
+  timeout: 10_000,
+  headers: { "Content-Type": "application/json" },
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function retryAfterMs(err: AxiosError<any>) {
+  const header = Number(err.response?.headers?.["retry-after"]);
+  const body = Number(err.response?.data?.retry_after);
+  const seconds = Number.isFinite(body) ? body : header;
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 1000;
+}
+
+async function postJson(
+  url: string,
+  payload: unknown,
+  headers?: Record<string, string>,
+  tries = 2
+) {
+  for (let i = 0; ; i++) {
+    try {
+      await hook.post(url, payload, { headers });
+      return;
+    } catch (e) {
+      const err = e as AxiosError<any>;
+      const status = err.response?.status ?? 0;
+      if (status === 429 && i < tries - 1) {
+        const waitMs = retryAfterMs(err);
+        logger.warn({ waitMs }, "Webhook rate limited, retrying");
+        await sleep(waitMs);
+        continue;
+      }
+      // 不把 webhook URL（含密钥）抛出去
+      throw new Error(
+        `webhook post failed (${status || err.code}): ${err.message}`
+      );
+    }
+  }
+}
+
+export function createDiscordNotifier(name: string, url: string): Notifier {
+  return {
+    name,
+    kind: "discord",
+    async send(alert: AlertNotice) {
+      for (const content of splitMessage(alert.text, DISCORD_CONTENT_LIMIT)) {
+        await postJson(url, { content, flags: 4 }); // 4 = SUPPRESS_EMBEDS
+      }
+    },
+  };
+}
+
+export function createSlackNotifier(name: string, url: string): Notifier {
+  return {
+    name,
+    kind: "slack",
+    async send(alert: AlertNotice) {
+      await postJson(url, {
+        text: alert.text,
+        unfurl_links: false,
+        unfurl_media: false,
+      });
+    },
+  };
+}
+
+export function createWebhookNotifier(
+  name: string,
+  url: string,
+  headers?: Record<string, string>
+): Notifier {
+  return {
+    name,
+    kind: "webhook",
+    async send(alert: AlertNotice) {
+      await postJson(url, alert, headers);
+    },
+  };
+}
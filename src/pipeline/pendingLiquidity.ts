@@ -0,0 +1,158 @@
+import { STRATEGY, chainConfig } from "../config.js";
+import { logger } from "../logger.js";
+import {
+  watchV2Pair,
+  watchV3Pool,
+  watchV4Pool,
+} from "../chains/subscriptions.js";
+import { findDex } from "../chains/registry.js";
+import {
+  hasMinLiquidityV2,
+  hasMinLiquidityV3,
+  hasMinLiquidityV4,
+} from "../safety/minLiquidity.js";
+import { watchlist, type WatchEntry } from "../state/watchlist.js";
+import type { EvmClients } from "../chains/evmClient.js";
+
+/**
+ * 等待加池：新建的 pair/pool 常常先空池、几秒后才加流动性
+ * - 只因 minLiquidity 未过闸门的市场转为 pending-liquidity，只订阅加池事件（不占订阅槽位）：
+ *   V2/V3 订该池的 Mint，V4 订 PoolManager 上该 PoolId 的 ModifyLiquidity（liquidityDelta > 0）
+ * - 每次加池后重读流动性，达到 MIN_LIQ_USD 即取消订阅并回调 onFunded（由 index 重新订阅并重跑闸门）
+ * - 自首次发现起超过 PENDING_LIQ_WAIT_MS 仍未达标 → 拒绝并取消订阅
+ */
+
+const SWEEP_MS = 60_000;
+
+const waiting = new Map<string, () => void>(); // key -> 取消加池订阅
+
+let clients: EvmClients | undefined;
+let onFunded: ((entry: WatchEntry) => void) | undefined;
+
+const stopWaiting = (key: string) => {
+  const stop = waiting.get(key);
+  if (!stop) return;
+  waiting.delete(key);
+  try {
+    stop();
+  } catch (err) {
+    logger.warn({ key, err }, "Failed to stop liquidity subscription");
+  }
+};
+
+/** 重读流动性，达标则移出队列并回调 */
+async function recheck(key: string) {
+  const entry = watchlist.get(key);
+  if (!entry || entry.status !== "pending-liquidity" || !clients) {
+    stopWaiting(key);
+    return;
+  }
+  const client = clients[entry.chain];
+  const poolManager = v4PoolManager(entry);
+  const liq =
+    entry.type === "v2"
+      ? await hasMinLiquidityV2({
+          chain: entry.chain,
+          client,
+          pair: entry.address,
+          token0: entry.token0,
+          token1: entry.token1,
+        })
+      : entry.type === "v3"
+      ? await hasMinLiquidityV3({
+          chain: entry.chain,
+          client,
+          pool: entry.address,
+          token0: entry.token0,
+          token1: entry.token1,
+        })
+      : poolManager
+      ? await hasMinLiquidityV4({
+          chain: entry.chain,
+          client,
+          poolManager,
+          poolId: entry.address,
+          token0: entry.token0,
+          token1: entry.token1,
+        })
+      : { ok: false, usd: undefined };
+  if (!liq.ok || !waiting.has(key)) return;
+  stopWaiting(key);
+  logger.info({ key, usd: liq.usd }, "Liquidity added, re-gating");
+  onFunded?.(entry);
+}
+
+/** V4 市场所在 DEX 的 PoolManager（没配置时为空） */
+const v4PoolManager = (entry: WatchEntry) =>
+  entry.type === "v4"
+    ? findDex(chainConfig(entry.chain), "v4", entry.dex)?.factory
+    : undefined;
+
+/**
+ * 只因流动性不足被闸门挡下时调用；返回 false 表示不适用（已超时、未启动或 V4 没有 PoolManager），按普通拒绝处理
+ */
+export function awaitLiquidity(entry: WatchEntry, reason: string) {
+  if (!clients) return false;
+  if (Date.now() - entry.firstSeen > STRATEGY.PENDING_LIQ_WAIT_MS) return false;
+  const poolManager = v4PoolManager(entry);
+  if (entry.type === "v4" && !poolManager) return false;
+  watchlist.awaitLiquidity(entry.key, reason);
+  if (waiting.has(entry.key)) return true;
+
+  const client = clients[entry.chain];
+  const onMint = ({ removed }: { removed: boolean }) => {
+    if (removed) return;
+    recheck(entry.key).catch((err) =>
+      logger.warn(
+        { key: entry.key, err: String(err) },
+        "Liquidity recheck failed"
+      )
+    );
+  };
+  const stop =
+    entry.type === "v2"
+      ? watchV2Pair(client, entry.chain, entry.address, { onV2Mint: onMint })
+      : entry.type === "v3"
+      ? watchV3Pool(client, entry.chain, entry.address, { onV3Mint: onMint })
+      : watchV4Pool(client, entry.chain, poolManager!, entry.address, {
+          // 撤池（liquidityDelta < 0）不会让流动性达标
+          onV4ModifyLiquidity: ({ args, removed }) =>
+            args.liquidityDelta > 0n ? onMint({ removed }) : undefined,
+        });
+  waiting.set(entry.key, stop);
+  logger.info({ key: entry.key, reason }, "Waiting for liquidity");
+  // 闸门运行期间落地的 Mint 不会再推送，先补查一次
+  onMint({ removed: false });
+  return true;
+}
+
+export function startPendingLiquidityWatcher(
+  evmClients: EvmClients,
+  funded: (entry: WatchEntry) => void
+) {
+  clients = evmClients;
+  onFunded = funded;
+  const timer = setInterval(() => {
+    const now = Date.now();
+    for (const key of [...waiting.keys()]) {
+      const entry = watchlist.get(key);
+      if (!entry || entry.status !== "pending-liquidity") {
+        stopWaiting(key);
+        continue;
+      }
+      if (now - entry.firstSeen <= STRATEGY.PENDING_LIQ_WAIT_MS) continue;
+      stopWaiting(key);
+      watchlist.reject(
+        key,
+        `${entry.reason ?? "minLiquidity"}; gave up waiting`
+      );
+      logger.info({ key }, "Gave up waiting for liquidity");
+    }
+  }, SWEEP_MS);
+  return () => clearInterval(timer);
+}
+
+/** 是否处于等待加池（index 据此不为其建立完整订阅） */
+export function isAwaitingLiquidity(key: string) {
+  return waiting.has(key);
+}
@@ -0,0 +1,93 @@
+import { STRATEGY } from "../config.js";
+import { logger } from "../logger.js";
+import { watchlist, type WatchEntry } from "../state/watchlist.js";
+
+/**
+ * 定期复查：已激活市场每 REGATE_INTERVAL_MS 重跑一次安全闸门（含采样税率均值）
+ * - 可疑事件（大额撤池、采样税率超限）时 requestRegate 插队复查
+ * - V2 市场过了 LP_LOCK_GRACE_MS 宽限期复查一次：LP 仍在部署者手里、未销毁/锁仓则拒绝
+ * - 同一市场两次复查至少间隔 REGATE_MIN_GAP_MS；一次只查一个市场，避免 RPC 突发
+ * - 复查本身由 index 的 onRegate 执行：不通过则拒绝并停订阅，已告警过的发“安全降级”通知
+ */
+
+const TICK_MS = 10_000;
+
+const requested = new Map<string, string>(); // key -> 触发原因
+const lastRun = new Map<string, number>(); // key -> 上次复查（或激活后首次看到）的时间
+const graceChecked = new Set<string>(); // 已做过 LP 宽限期到期复查的市场
+
+/** 事件触发的复查（非 active 市场忽略） */
+export function requestRegate(key: string, reason: string) {
+  if (watchlist.get(key)?.status !== "active") return;
+  if (!requested.has(key)) {
+    requested.set(key, reason);
+    logger.debug({ key, reason }, "Re-gate requested");
+  }
+}
+
+export function startRegateScheduler(
+  onRegate: (entry: WatchEntry, reason: string) => Promise<void>
+) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = Date.now();
+      const active = watchlist.list("active");
+      const activeKeys = new Set(active.map((e) => e.key));
+      for (const key of lastRun.keys()) {
+        if (!activeKeys.has(key)) lastRun.delete(key);
+      }
+      for (const key of graceChecked) {
+        if (!activeKeys.has(key)) graceChecked.delete(key);
+      }
+
+      // 到期的定期复查排在事件触发之后
+      const due = new Map(requested);
+      requested.clear();
+      for (const entry of active) {
+        if (
+          entry.type === "v2" &&
+          !graceChecked.has(entry.key) &&
+          now - entry.firstSeen >= STRATEGY.LP_LOCK_GRACE_MS
+        ) {
+          graceChecked.add(entry.key);
+          if (!due.has(entry.key)) due.set(entry.key, "lp lock grace expired");
+        }
+        const last = lastRun.get(entry.key);
+        if (last === undefined) {
+          // 刚激活：从现在起算周期（已有事件触发的照常复查）
+          if (!due.has(entry.key)) lastRun.set(entry.key, now);
+          continue;
+        }
+        if (
+          STRATEGY.REGATE_INTERVAL_MS > 0 &&
+          now - last >= STRATEGY.REGATE_INTERVAL_MS &&
+          !due.has(entry.key)
+        ) {
+          due.set(entry.key, "periodic");
+        }
+      }
+
+      for (const [key, reason] of due) {
+        const entry = watchlist.get(key);
+        if (!entry || entry.status !== "active") continue;
+        const last = lastRun.get(key) ?? 0;
+        if (Date.now() - last < STRATEGY.REGATE_MIN_GAP_MS) {
+          if (reason !== "periodic") requested.set(key, reason); // 稍后再查
+          continue;
+        }
+        lastRun.set(key, Date.now());
+        try {
+          await onRegate(entry, reason);
+        } catch (err) {
+          logger.warn({ key, reason, err: String(err) }, "Re-gate failed");
+        }
+      }
+    } finally {
+      running = false;
+    }
+  }, TICK_MS);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,57 @@
+import { STRATEGY } from "../config.js";
+import { logger } from "../logger.js";
+import { isTradingOpen } from "../safety/restrictions.js";
+import type { EvmClients } from "../chains/evmClient.js";
+import type { WatchEntry } from "../state/watchlist.js";
+
+/**
+ * 等待开盘：闸门因“交易未开启”拒绝的市场进入等待队列
+ * - 每 TRADING_OPEN_POLL_MS 读一次代币的交易开关
+ * - 开启后移出队列并回调 onOpen（由 index 重新订阅并重跑闸门）
+ * - 等待超过 TRADING_OPEN_WAIT_MS 放弃
+ * 队列保存条目快照：被拒条目过期被 sweep 掉后仍能重新入队
+ */
+
+const waiting = new Map<
+  string,
+  { entry: WatchEntry; token: `0x${string}`; since: number }
+>();
+
+export function awaitTradingOpen(entry: WatchEntry, token: `0x${string}`) {
+  if (waiting.has(entry.key)) return;
+  waiting.set(entry.key, {
+    entry: structuredClone(entry),
+    token,
+    since: Date.now(),
+  });
+  logger.info({ key: entry.key, token }, "Trading not open yet, waiting");
+}
+
+export function startTradingOpenWatcher(
+  clients: EvmClients,
+  onOpen: (entry: WatchEntry) => void
+) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = Date.now();
+      for (const [key, w] of waiting) {
+        if (now - w.since > STRATEGY.TRADING_OPEN_WAIT_MS) {
+          waiting.delete(key);
+          logger.info({ key }, "Gave up waiting for trading to open");
+          continue;
+        }
+        const open = await isTradingOpen(clients[w.entry.chain], w.token);
+        if (!open) continue;
+        waiting.delete(key);
+        logger.info({ key, token: w.token }, "Trading opened, re-gating");
+        onOpen(w.entry);
+      }
+    } finally {
+      running = false;
+    }
+  }, STRATEGY.TRADING_OPEN_POLL_MS);
+  return () => clearInterval(timer);
+}
@@ -1,23 +1,24 @@
-import { STRATEGY } from "../config.js";
+import { CHAIN_LABELS, STRATEGY, chainConfig } from "../config.js";
 import { logger } from "../logger.js";
-import { DedupSet } from "../state/stores.js";
+import { createDedupSet } from "../state/kvBackend.js";
 import { isBaseToken } from "../price/baseQuotes.js";
 import {
   fetchPairData,
   fetchTrendingPairs,
 } from "../datasources/dexScreener.js";
-
-type ChainLabel = "BSC" | "ETH";
+import { identifyDex, type ChainLabel } from "../chains/registry.js";
 
 export type TrendingHandlers = {
   onV2Candidate: (ctx: {
     chain: ChainLabel;
+    dex: string;
     pair: `0x${string}`;
     token0: `0x${string}`;
     token1: `0x${string}`;
   }) => void;
   onV3Candidate: (ctx: {
     chain: ChainLabel;
+    dex: string;
     pool: `0x${string}`;
     token0: `0x${string}`;
     token1: `0x${string}`;
@@ -27,14 +28,11 @@ export type TrendingHandlers = {
 
 const SOURCE_TTL = 5 * 60_000; // 5 分钟去重
 const ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
-const SUPPORTED_DEX_IDS: Record<ChainLabel, string[]> = {
-  BSC: ["pancakeswap", "pcs"],
-  ETH: ["uniswap"],
-};
 
-function inferType(dexId: string | undefined) {
-  if (!dexId) return "v2";
-  const id = dexId.toLowerCase();
+function inferType(item: any) {
+  const labels: string[] = Array.isArray(item?.labels) ? item.labels : [];
+  if (labels.some((l) => String(l).toLowerCase() === "v3")) return "v3";
+  const id = String(item?.dexId ?? "").toLowerCase();
   return id.includes("v3") ? "v3" : "v2";
 }
 
@@ -46,13 +44,13 @@ function looksLikeAddress(
 
 function dexSupported(chain: ChainLabel, dexId: string | undefined) {
   if (!dexId) return false;
-  const needles = SUPPORTED_DEX_IDS[chain];
+  const needles = chainConfig(chain).dexes.map((d) => d.dexScreenerId);
   const id = dexId.toLowerCase();
   return needles.some((needle) => id.includes(needle));
 }
 
 export function startTrendingWatcher(handlers: TrendingHandlers) {
-  const dedup = new DedupSet(SOURCE_TTL);
+  const dedup = createDedupSet("trending:seen", SOURCE_TTL);
 
   async function pollChain(chain: ChainLabel) {
     try {
@@ -63,6 +61,7 @@ export function startTrendingWatcher(handlers: TrendingHandlers) {
         const token0 = item?.baseToken?.address as string | undefined;
         const token1 = item?.quoteToken?.address as string | undefined;
         if (!dexSupported(chain, item?.dexId)) continue;
+        // V4 的 pairAddress 是 PoolId；热榜拿不到 hooks/tickSpacing，V4 只走 Initialize 事件发现
         if (
           !looksLikeAddress(pairAddress) ||
           !looksLikeAddress(token0) ||
@@ -74,7 +73,7 @@ export function startTrendingWatcher(handlers: TrendingHandlers) {
         const normalizedToken0 = token0.toLowerCase() as `0x${string}`;
         const normalizedToken1 = token1.toLowerCase() as `0x${string}`;
         const key = `${chain}:${normalizedPair}`;
-        if (dedup.has(key)) continue;
+        if (await dedup.has(key)) continue;
         const liquidityUsd = Number(item?.liquidity?.usd ?? 0);
         if (!Number.isFinite(liquidityUsd)) continue;
         if (liquidityUsd < STRATEGY.TRENDING_MIN_LIQ_USD) continue;
@@ -82,8 +81,8 @@ export function startTrendingWatcher(handlers: TrendingHandlers) {
           isBaseToken(chain, token0 as `0x${string}`) ||
           isBaseToken(chain, token1 as `0x${string}`);
         if (!basePaired) continue;
-        dedup.add(key);
-        const type = inferType(item?.dexId);
+        if (!(await dedup.add(key))) continue;
+        const type = inferType(item);
         if (type === "v3") {
           let fee = Number(item?.feeTier ?? item?.fee ?? NaN);
           if (!Number.isFinite(fee)) {
@@ -94,16 +93,38 @@ export function startTrendingWatcher(handlers: TrendingHandlers) {
               logger.debug({ err }, "fetchPairData failed for trending pool");
             }
           }
+          const dex = identifyDex(
+            chainConfig(chain),
+            "v3",
+            normalizedPair,
+            normalizedToken0,
+            normalizedToken1,
+            Number.isFinite(fee) ? fee : undefined,
+            item?.dexId
+          );
+          if (!dex) continue;
           handlers.onV3Candidate({
             chain,
+            dex: dex.name,
             pool: normalizedPair,
             token0: normalizedToken0,
             token1: normalizedToken1,
             fee: Number.isFinite(fee) ? fee : undefined,
           });
         } else {
+          const dex = identifyDex(
+            chainConfig(chain),
+            "v2",
+            normalizedPair,
+            normalizedToken0,
+            normalizedToken1,
+            undefined,
+            item?.dexId
+          );
+          if (!dex) continue;
           handlers.onV2Candidate({
             chain,
+            dex: dex.name,
             pair: normalizedPair,
             token0: normalizedToken0,
             token1: normalizedToken1,
@@ -116,7 +137,7 @@ export function startTrendingWatcher(handlers: TrendingHandlers) {
   }
 
   const tick = async () => {
-    await Promise.all([pollChain("BSC"), pollChain("ETH")]);
+    await Promise.all(CHAIN_LABELS.map(pollChain));
   };
 
   tick().catch((e) => logger.warn({ err: e }, "Trending poll init failed"));
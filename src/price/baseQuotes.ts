@@ -1,6 +1,8 @@
-import { TTLStore } from "../state/stores.js";
-import { CHAINS } from "../config.js";
+import { zeroAddress } from "viem";
+import { createTTLStore } from "../state/kvBackend.js";
+import { chainConfig } from "../config.js";
 import { fetchTokenData } from "../datasources/dexScreener.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /**
  * 从 DexScreener 获取 token 的 USD 价格（选择流动性最大的交易对）
@@ -8,18 +10,18 @@ import { fetchTokenData } from "../datasources/dexScreener.js";
  * 响应中每个 pair 含 priceUsd 与 liquidity.usd；我们按 chain 过滤并选最大流动性
  */
 const QUOTE_TTL_MS = 30_000;
-const cache = new TTLStore<number>(QUOTE_TTL_MS);
+const cache = createTTLStore<number>("quotes:usd", QUOTE_TTL_MS);
 
-function chainIdForDex(chainLabel: "BSC" | "ETH"): string {
-  return chainLabel === "BSC" ? "bsc" : "ethereum";
+function chainIdForDex(chainLabel: ChainLabel): string {
+  return chainConfig(chainLabel).dexScreenerSlug;
 }
 
 export async function fetchTokenUsdViaDexScreener(
-  chain: "BSC" | "ETH",
+  chain: ChainLabel,
   tokenAddress: `0x${string}`
 ): Promise<number | undefined> {
   const key = `dexscreener:${chain}:${tokenAddress.toLowerCase()}`;
-  const cached = cache.get(key);
+  const cached = await cache.get(key);
   if (cached !== undefined) return cached;
 
   try {
@@ -43,7 +45,7 @@ export async function fetchTokenUsdViaDexScreener(
     if (!best) return undefined;
     const price = Number(best.priceUsd);
     if (!Number.isFinite(price)) return undefined;
-    cache.set(key, price);
+    await cache.set(key, price);
     return price;
   } catch {
     return undefined;
@@ -56,17 +58,16 @@ export async function fetchTokenUsdViaDexScreener(
  * - 失败时对稳定币回退为 ~1 美元
  */
 export async function getBaseTokenUsd(
-  chain: "BSC" | "ETH",
+  chain: ChainLabel,
   tokenAddress: `0x${string}`
 ): Promise<number | undefined> {
+  const { baseTokens, stables, wrappedNative } = chainConfig(chain);
+  // V4 的原生币（0 地址）按原生包裹币报价
+  if (isNative(tokenAddress)) tokenAddress = baseTokens[wrappedNative];
   const addr = tokenAddress.toLowerCase();
-  const base =
-    chain === "BSC" ? CHAINS.bsc.baseTokens : CHAINS.ethereum.baseTokens;
-  const isStable =
-    addr === base.USDT.toLowerCase() ||
-    ((base as any).USDC && addr === (base as any).USDC.toLowerCase()) ||
-    ((base as any).BUSD && addr === (base as any).BUSD.toLowerCase()) ||
-    ((base as any).DAI && addr === (base as any).DAI.toLowerCase());
+  const isStable = stables.some(
+    (k) => baseTokens[k] && addr === baseTokens[k].toLowerCase()
+  );
 
   const fromApi = await fetchTokenUsdViaDexScreener(chain, tokenAddress);
   if (fromApi !== undefined) return fromApi;
@@ -76,17 +77,21 @@ export async function getBaseTokenUsd(
 }
 
 /** 批量预取（便于定时 warm cache） */
-export async function prefetchBaseQuotes(chain: "BSC" | "ETH") {
-  const base =
-    chain === "BSC" ? CHAINS.bsc.baseTokens : CHAINS.ethereum.baseTokens;
+export async function prefetchBaseQuotes(chain: ChainLabel) {
+  const base = chainConfig(chain).baseTokens;
   const addrs = Object.values(base) as `0x${string}`[];
   await Promise.allSettled(addrs.map((a) => getBaseTokenUsd(chain, a)));
 }
 
-/** 判断某地址是否是“基准币”之一（便于价格折算路径判断） */
-export function isBaseToken(chain: "BSC" | "ETH", addr: `0x${string}`) {
+/** V4 以 0 地址表示原生币（ETH/BNB 等） */
+export function isNative(addr: `0x${string}`) {
+  return addr.toLowerCase() === zeroAddress;
+}
+
+/** 判断某地址是否是“基准币”之一（便于价格折算路径判断；原生币也算） */
+export function isBaseToken(chain: ChainLabel, addr: `0x${string}`) {
+  if (isNative(addr)) return true;
   const a = addr.toLowerCase();
-  const base =
-    chain === "BSC" ? CHAINS.bsc.baseTokens : CHAINS.ethereum.baseTokens;
+  const base = chainConfig(chain).baseTokens;
   return Object.values(base).some((x) => x.toLowerCase() === a);
 }
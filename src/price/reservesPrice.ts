@@ -1,7 +1,16 @@
-import { PublicClient, getContract } from "viem";
+import {
+  PublicClient,
+  concat,
+  getContract,
+  keccak256,
+  numberToHex,
+  type Hex,
+} from "viem";
 import { PARSED_ABI } from "../chains/abis.js";
-import { getBaseTokenUsd, isBaseToken } from "./baseQuotes.js";
+import { getBaseTokenUsd, isBaseToken, isNative } from "./baseQuotes.js";
+import { chainConfig } from "../config.js";
 import { logger } from "../logger.js";
+import { findDex, type ChainLabel } from "../chains/registry.js";
 
 /**
  * 工具：读取 ERC20 decimals（带本地缓存）
@@ -11,6 +20,7 @@ export async function getTokenDecimals(
   client: PublicClient,
   addr: `0x${string}`
 ): Promise<number> {
+  if (isNative(addr)) return 18; // V4 原生币
   const k = `${client.chain?.id}:${addr.toLowerCase()}`;
   const hit = decimalsCache.get(k);
   if (hit !== undefined) return hit;
@@ -100,13 +110,56 @@ export async function getV3RelativePrice(
   return { p0in1: 1 / ratio, p1in0: ratio };
 }
 
+/**
+ * —— V4 相对价格（PoolManager 中该 PoolId 的 slot0.sqrtPriceX96）——
+ * PoolManager 不提供池状态 getter，按 StateLibrary 的存储布局经 extsload 读取：
+ *   stateSlot = keccak256(poolId ++ POOLS_SLOT(6))，首个字的低 160 位为 sqrtPriceX96
+ * 传入 sqrtPriceX96（如 Swap 事件中的成交后价格）时不再读链
+ */
+const V4_POOLS_SLOT = numberToHex(6, { size: 32 });
+
+/** PoolManager 中该 PoolId 的 Pool.State 起始槽（slot0；+3 为 liquidity） */
+export function v4PoolStateSlot(poolId: `0x${string}`): Hex {
+  return keccak256(concat([poolId as Hex, V4_POOLS_SLOT]));
+}
+
+export async function getV4RelativePrice(
+  client: PublicClient,
+  poolManager: `0x${string}`,
+  poolId: `0x${string}`,
+  token0: `0x${string}`,
+  token1: `0x${string}`,
+  sqrtPriceX96?: bigint
+): Promise<{ p0in1: number; p1in0: number } | undefined> {
+  if (sqrtPriceX96 === undefined) {
+    const word = (await client.readContract({
+      address: poolManager,
+      abi: PARSED_ABI.v4PoolManager,
+      functionName: "extsload",
+      args: [v4PoolStateSlot(poolId)],
+    })) as Hex;
+    sqrtPriceX96 = BigInt(word) & ((1n << 160n) - 1n);
+  }
+  if (sqrtPriceX96 === 0n) return undefined; // 未初始化
+
+  const [d0, d1] = await Promise.all([
+    getTokenDecimals(client, token0),
+    getTokenDecimals(client, token1),
+  ]);
+  const sp = Number(sqrtPriceX96) / 2 ** 96;
+  const ratio = sp * sp * 10 ** (d0 - d1); // price(token1 per token0)
+  if (!Number.isFinite(ratio) || ratio <= 0) return undefined;
+
+  return { p0in1: 1 / ratio, p1in0: ratio };
+}
+
 /**
  * —— 折USD价格 ——（当两边有“基准币”时）
  * 如果 token0/1 任一为基准币：用其 USD 价把相对价换成 USD；
  * 若两边都不是基准币：返回 undefined（由上层再找路由/侧信道）
  */
 export async function deriveUsdFromRelative(
-  chain: "BSC" | "ETH",
+  chain: ChainLabel,
   baseTokenUsdGetter: (addr: `0x${string}`) => Promise<number | undefined>,
   token0: `0x${string}`,
   token1: `0x${string}`,
@@ -131,7 +184,7 @@ export async function deriveUsdFromRelative(
  * —— 便捷函数：从 V2 Pair 直接给出 USD 价格 ——（在一侧为基准币时）
  */
 export async function v2PricesUsdIfBase(
-  chain: "BSC" | "ETH",
+  chain: ChainLabel,
   client: PublicClient,
   pair: `0x${string}`,
   token0: `0x${string}`,
@@ -152,7 +205,7 @@ export async function v2PricesUsdIfBase(
  * —— 便捷函数：从 V3 Pool 直接给出 USD 价格 ——（在一侧为基准币时）
  */
 export async function v3PricesUsdIfBase(
-  chain: "BSC" | "ETH",
+  chain: ChainLabel,
   client: PublicClient,
   pool: `0x${string}`,
   token0: `0x${string}`,
@@ -169,6 +222,37 @@ export async function v3PricesUsdIfBase(
   );
 }
 
+/**
+ * —— 便捷函数：从 V4 PoolId 直接给出 USD 价格 ——（在一侧为基准币/原生币时）
+ */
+export async function v4PricesUsdIfBase(
+  chain: ChainLabel,
+  client: PublicClient,
+  poolId: `0x${string}`,
+  token0: `0x${string}`,
+  token1: `0x${string}`,
+  sqrtPriceX96?: bigint
+): Promise<{ price0Usd?: number; price1Usd?: number }> {
+  const poolManager = findDex(chainConfig(chain), "v4")?.factory;
+  if (!poolManager) return {};
+  const rel = await getV4RelativePrice(
+    client,
+    poolManager,
+    poolId,
+    token0,
+    token1,
+    sqrtPriceX96
+  );
+  if (!rel) return {};
+  return deriveUsdFromRelative(
+    chain,
+    (a) => getBaseTokenUsd(chain, a),
+    token0,
+    token1,
+    rel
+  );
+}
+
 /**
  * —— 将“代币数量变动”折成 USD ——（已知哪一侧是目标代币 & 另一侧为基准币时）
  * 适用于在 Swap 事件中把 amount0/amount1 直接换成 USD 贡献值。
@@ -178,7 +262,7 @@ export async function v3PricesUsdIfBase(
  *  - 'token1'：目标是 token1
  */
 export async function deltaToUsdIfBase(
-  chain: "BSC" | "ETH",
+  chain: ChainLabel,
   {
     client,
     marketType,
@@ -187,18 +271,28 @@ export async function deltaToUsdIfBase(
     token1,
   }: {
     client: PublicClient;
-    marketType: "v2" | "v3";
-    addr: `0x${string}`; // pair or pool
+    marketType: "v2" | "v3" | "v4";
+    addr: `0x${string}`; // pair / pool / PoolId
     token0: `0x${string}`;
     token1: `0x${string}`;
   },
   direction: "token0" | "token1",
-  delta: number
+  delta: number,
+  sqrtPriceX96?: bigint // V4：直接用 Swap 事件里的价格
 ): Promise<number | undefined> {
   const price =
     marketType === "v2"
       ? await v2PricesUsdIfBase(chain, client, addr, token0, token1)
-      : await v3PricesUsdIfBase(chain, client, addr, token0, token1);
+      : marketType === "v3"
+      ? await v3PricesUsdIfBase(chain, client, addr, token0, token1)
+      : await v4PricesUsdIfBase(
+          chain,
+          client,
+          addr,
+          token0,
+          token1,
+          sqrtPriceX96
+        );
 
   if (!price) return undefined;
 
@@ -2,19 +2,33 @@ import { STRATEGY } from "../config.js";
 import { getOneMinuteBuys } from "../metrics/volume.js";
 import { getVolumeMultiplier } from "../metrics/velocity.js";
 import { computeFdvNow, fdvHistory } from "../metrics/fdv.js";
+import { windows } from "../state/windows.js";
+import type { CurveState } from "../datasources/launchpad.js";
+import {
+  describeTradingLimits,
+  type TradingLimits,
+} from "../safety/restrictions.js";
+import {
+  describeCheck,
+  describeVerdict,
+  failedChecks,
+  type GateVerdict,
+} from "./verdict.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /**
  * 告警评估：
- * - 输入：最近一笔成交是否“鲸鱼级”（由上游判断并传入）、watchlist.meta.lastMintUsd（大额加池加分）
+ * - 输入：最近一笔成交是否“鲸鱼级”（由上游判断并传入）、watchlist.meta.lastMintUsd（大额加池加分）、
+ *   部署者信誉（信誉良好加分）
  * - 计算：1m 买入额/笔数、量能倍增、FDV 增幅
  * - 输出：'none' | 'normal' | 'strong' + 说明
  */
 
-export type AlertLevel = "none" | "normal" | "strong";
+export type AlertLevel = "none" | "normal" | "strong" | "rug";
 
 export async function evaluateAlerts(params: {
-  chain: "BSC" | "ETH";
-  type: "v2" | "v3";
+  chain: ChainLabel;
+  type: "v2" | "v3" | "v4";
   addr: `0x${string}`;
   client: any;
   token0: `0x${string}`;
@@ -25,6 +39,15 @@ export async function evaluateAlerts(params: {
   lastTradeBuyerUsd?: number; // 单笔买入的 USD（用来判断鲸鱼）
   lastMintUsd?: number; // 最近一次大额加池（权重加分）
   liquidityUsd?: number; // 当前可见 LP
+  riskFlags?: string[]; // 闸门时的代币字节码风险标记（只展示，不参与打分）
+  ownership?: string; // 权限归属说明
+  ownerDowngrade?: boolean; // 未放弃权限且可增发：strong 降为 normal
+  holders?: string; // 持仓分布说明
+  holderWarnings?: string[]; // 持仓过于集中的项（只展示）
+  deployer?: string; // 部署者历史说明
+  deployerGood?: boolean; // 信誉良好的部署者：加 1 分
+  tradingLimits?: TradingLimits; // 交易限制（只展示）
+  verdict?: GateVerdict; // 闸门逐项结论（只展示）
 }) {
   const { chain, type, addr, client, token0, token1, target } = params;
 
@@ -80,10 +103,13 @@ export async function evaluateAlerts(params: {
   if (hitFdv) score += 2;
   if (hitWhale) score += 3;
   if ((params.lastMintUsd ?? 0) >= STRATEGY.MIN_LIQ_USD * 1.2) score += 1;
+  if (params.deployerGood) score += 1;
 
   let level: AlertLevel = "none";
   if (score >= 6 && (hitWhale || (hitVel && hitFdv))) level = "strong";
   else if (score >= 3) level = "normal";
+  const downgraded = level === "strong" && !!params.ownerDowngrade;
+  if (downgraded) level = "normal";
 
   const triggerReasons: string[] = [];
   if (hitBuy) triggerReasons.push("1 分钟买入额/笔数超阈值");
@@ -130,6 +156,36 @@ export async function evaluateAlerts(params: {
     }
   }
 
+  if (params.riskFlags?.length) {
+    lines.push(`风险标记：${params.riskFlags.join("，")}`);
+  }
+  if (params.ownership) {
+    lines.push(
+      `权限：${params.ownership}${
+        downgraded ? "（未放弃且可增发，强烈告警已降级）" : ""
+      }`
+    );
+  }
+  if (params.holders) {
+    lines.push(
+      `持仓：${params.holders}${
+        params.holderWarnings?.length
+          ? `（⚠ 过于集中：${params.holderWarnings.join("，")}）`
+          : ""
+      }`
+    );
+  }
+  if (params.deployer) {
+    lines.push(
+      `部署者：${params.deployer}${params.deployerGood ? "（信誉良好）" : ""}`
+    );
+  }
+  const limits = params.tradingLimits
+    ? describeTradingLimits(params.tradingLimits)
+    : undefined;
+  if (limits) lines.push(`交易限制：${limits}`);
+  if (params.verdict) lines.push(`闸门：${describeVerdict(params.verdict)}`);
+
   return {
     level,
     message: lines.join(" | "),
@@ -137,3 +193,141 @@ export async function evaluateAlerts(params: {
     metrics: { oneMin: vol, velocity: vel, fdvNow, fdvRatio },
   };
 }
+
+/**
+ * 发射台毕业告警：曲线走完、DEX 交易对已建
+ * - 曲线上最近 1 分钟买入达到常规阈值 → strong，否则 normal
+ * - 正文带出曲线募集额、曲线上的 10 分钟买盘与创建者
+ */
+export function evaluateGraduation(params: {
+  chain: ChainLabel;
+  launchpad: string;
+  dex: string;
+  curve: CurveState;
+}) {
+  const { chain, launchpad, dex, curve } = params;
+  const oneMin = windows.oneMinute(chain, "curve", curve.token);
+  const tenMin = windows.tenMinutesStats(chain, "curve", curve.token);
+
+  const hitBuy =
+    oneMin.buyUsd >= STRATEGY.BUY_VOL_1M_USD &&
+    oneMin.buyTxs >= STRATEGY.BUY_TXS_1M;
+  const level: AlertLevel = hitBuy ? "strong" : "normal";
+
+  const lines = [`发射台毕业：${launchpad} → ${dex}`];
+  if (curve.raised !== undefined) {
+    lines.push(
+      `曲线募集：${curve.raised.toFixed(2)}（进度 ${(
+        (curve.progress ?? 1) * 100
+      ).toFixed(0)}%）`
+    );
+  }
+  lines.push(
+    `曲线 10 分钟买入：$${tenMin.buyUsd.toFixed(0)} / ${tenMin.buyTxs} 笔 / ${
+      tenMin.uniqueBuyers
+    } 地址`
+  );
+  if (hitBuy) {
+    lines.push(
+      `曲线 1 分钟买入：$${oneMin.buyUsd.toFixed(0)} / ${oneMin.buyTxs} 笔`
+    );
+  }
+  if (curve.createdAt !== undefined) {
+    const minutes = Math.round((Date.now() - curve.createdAt) / 60_000);
+    lines.push(`上线 ${Math.max(1, minutes)} 分钟毕业`);
+  }
+  if (curve.creator) lines.push(`创建者：${curve.creator}`);
+
+  return {
+    level,
+    message: lines.join(" | "),
+    flags: { graduated: true, hitBuy },
+  };
+}
+
+/**
+ * 撤池（rug）告警：最高优先级，不等确认、不走冷却
+ * - burn：单笔 Burn 取走的池子占比
+ * - drop：N 个区块内流动性的跌幅（V2 为 √k 较峰值，V3 为窗口内多笔 Burn 累计占比）
+ */
+export function evaluateRug(params: {
+  trigger: "burn" | "drop";
+  pct: number;
+  blocks?: number;
+  fromUsd?: number;
+  toUsd?: number;
+  burnUsd?: number;
+  alertedBefore?: boolean; // 此前已就该市场发过告警
+}) {
+  const usd = (v?: number) => (v !== undefined ? `$${v.toFixed(0)}` : "未知");
+  const lines = [
+    params.trigger === "burn"
+      ? `单笔撤池取走 ${(params.pct * 100).toFixed(1)}% 流动性（${usd(
+          params.burnUsd
+        )}）`
+      : `流动性 ${params.blocks ?? 0} 个区块内下跌 ${(params.pct * 100).toFixed(
+          1
+        )}%`,
+  ];
+  if (params.fromUsd !== undefined || params.toUsd !== undefined) {
+    lines.push(`可见 LP：${usd(params.fromUsd)} → ${usd(params.toUsd)}`);
+  }
+  if (params.alertedBefore) lines.push("该市场此前已发出过拉升告警");
+
+  return {
+    level: "rug" as AlertLevel,
+    message: lines.join(" | "),
+    flags: { rug: true },
+  };
+}
+
+/**
+ * 砸盘通知：V2 基准侧储备在窗口内被卖单抽干（√k 未降，不是撤池，不计入部署者撤池）
+ * - 级别取 strong，不走冷却（每次触发后清空窗口，不会连发）
+ */
+export function evaluateDump(params: {
+  pct: number;
+  blocks: number;
+  fromUsd?: number;
+  toUsd?: number;
+  alertedBefore?: boolean;
+}) {
+  const usd = (v?: number) => (v !== undefined ? `$${v.toFixed(0)}` : "未知");
+  const lines = [
+    `基准侧储备 ${params.blocks} 个区块内下跌 ${(params.pct * 100).toFixed(
+      1
+    )}%（卖单砸盘，流动性未撤）`,
+  ];
+  if (params.fromUsd !== undefined || params.toUsd !== undefined) {
+    lines.push(`可见 LP：${usd(params.fromUsd)} → ${usd(params.toUsd)}`);
+  }
+  if (params.alertedBefore) lines.push("该市场此前已发出过拉升告警");
+
+  return {
+    level: "strong" as AlertLevel,
+    message: lines.join(" | "),
+    flags: { dump: true },
+  };
+}
+
+/**
+ * 安全降级通知：已告警过的市场在复查中未通过闸门
+ * - 级别取 strong，不走冷却
+ * - 正文带出触发复查的原因与未通过的检查项（实测值 / 阈值）
+ */
+export function evaluateDowngrade(params: {
+  trigger: string; // periodic / 大额撤池 / 税率超限 等
+  verdict: GateVerdict;
+}) {
+  const lines = [
+    `复查未通过（触发：${params.trigger}），已停止跟踪`,
+    `未通过：${failedChecks(params.verdict).map(describeCheck).join("；")}`,
+    "该市场此前已发出过拉升告警",
+  ];
+
+  return {
+    level: "strong" as AlertLevel,
+    message: lines.join(" | "),
+    flags: { downgraded: true },
+  };
+}
@@ -0,0 +1,91 @@
+import { STRATEGY } from "../config.js";
+import { KVStore } from "../state/stores.js";
+
+/**
+ * 告警冷却 / 去重 / 升级（按 marketKey 维护一个小状态机）：
+ * - 冷却期内默认抑制重复告警
+ * - 例外：级别升高（normal → strong → rug），或出现上次未有的触发因子（hitWhale/hitFdv 等）→ 立即放行
+ * - 冷却期内累计抑制 N 次 → 发一条“持续拉升”跟进摘要
+ * - 被抑制的次数随下一条真正发出的消息带出
+ */
+
+export type SentLevel = "normal" | "strong" | "rug";
+export type AlertFlags = Record<string, boolean>;
+
+export type ThrottleDecision =
+  | {
+      action: "send";
+      reason: "first" | "cooldown" | "escalated" | "newFlags";
+      suppressed: number;
+    }
+  | { action: "digest"; suppressed: number }
+  | { action: "suppress"; suppressed: number };
+
+interface MarketAlertState {
+  lastSentAt: number;
+  lastLevel: SentLevel;
+  flags: Set<string>; // 本轮冷却期内已发过的触发因子
+  suppressed: number; // 自上次发送以来被抑制的次数
+}
+
+const LEVEL_RANK: Record<SentLevel, number> = { normal: 1, strong: 2, rug: 3 };
+
+export class AlertThrottle {
+  private states = new KVStore<MarketAlertState>();
+
+  constructor(
+    private cooldownMs = STRATEGY.ALERT_COOLDOWN_MS,
+    private digestAfter = STRATEGY.ALERT_DIGEST_AFTER
+  ) {}
+
+  decide(
+    key: string,
+    level: SentLevel,
+    flags: AlertFlags,
+    now = Date.now()
+  ): ThrottleDecision {
+    const active = Object.keys(flags).filter((f) => flags[f]);
+    const st = this.states.get(key);
+
+    if (!st || now - st.lastSentAt >= this.cooldownMs) {
+      const suppressed = st?.suppressed ?? 0;
+      this.states.set(key, {
+        lastSentAt: now,
+        lastLevel: level,
+        flags: new Set(active),
+        suppressed: 0,
+      });
+      return { action: "send", reason: st ? "cooldown" : "first", suppressed };
+    }
+
+    const escalated = LEVEL_RANK[level] > LEVEL_RANK[st.lastLevel];
+    const fresh = active.filter((f) => !st.flags.has(f));
+    if (escalated || fresh.length) {
+      const suppressed = st.suppressed;
+      st.lastSentAt = now;
+      st.lastLevel = escalated ? level : st.lastLevel;
+      fresh.forEach((f) => st.flags.add(f));
+      st.suppressed = 0;
+      return {
+        action: "send",
+        reason: escalated ? "escalated" : "newFlags",
+        suppressed,
+      };
+    }
+
+    st.suppressed++;
+    if (this.digestAfter > 0 && st.suppressed >= this.digestAfter) {
+      const suppressed = st.suppressed;
+      st.lastSentAt = now;
+      st.suppressed = 0;
+      return { action: "digest", suppressed };
+    }
+    return { action: "suppress", suppressed: st.suppressed };
+  }
+
+  forget(key: string) {
+    return this.states.delete(key);
+  }
+}
+
+export const alertThrottle = new AlertThrottle();
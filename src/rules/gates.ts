@@ -1,41 +1,91 @@
 import { PublicClient } from "viem";
-import { STRATEGY } from "../config.js";
+import { STRATEGY, chainConfig } from "../config.js";
 import {
   hasMinLiquidityV2,
   hasMinLiquidityV3,
+  hasMinLiquidityV4,
 } from "../safety/minLiquidity.js";
 import { checkSellabilityV2, checkSellabilityV3 } from "../safety/sellability.js";
 import { lpRiskScore } from "../safety/lpRisk.js";
 import { getAvgTaxApprox } from "../safety/taxEstimator.js";
-import { hasOnchainCode } from "../safety/bytecode.js";
-import { isBaseToken } from "../price/baseQuotes.js";
+import {
+  formatRiskFlags,
+  hasOnchainCode,
+  scanTokenBytecode,
+} from "../safety/bytecode.js";
+import { checkV4Hooks } from "../safety/v4Hooks.js";
+import {
+  checkOwnership,
+  describeOwnership,
+  isControlled,
+} from "../safety/ownership.js";
+import { simulateBuySell, type HoneypotResult } from "../safety/honeypot.js";
+import type { LpHolderInfo } from "../safety/lpLock.js";
+import {
+  analyzeHolders,
+  describeHolders,
+  holderConcentration,
+} from "../safety/holders.js";
+import {
+  deployerReputation,
+  describeDeployer,
+  resolveDeployer,
+} from "../safety/deployer.js";
+import {
+  describeTradingLimits,
+  probeTradingLimits,
+  type TradingLimits,
+} from "../safety/restrictions.js";
+import type { GateCheck, GateVerdict } from "./verdict.js";
+import { marketKey, watchlist } from "../state/watchlist.js";
+import { isBaseToken, isNative } from "../price/baseQuotes.js";
+import { findDex, type ChainLabel } from "../chains/registry.js";
+
+const LP_RISK_MAX_SCORE = 2;
 
 /**
  * 安全闸门聚合：
- * - 最小流动性
- * - 可卖性（V2 快速校验；V3 暂略）
- * - LP 风险（是否与基准币配对、总体LP量级）
+ * - 最小流动性（V2 储备 / V3、V4 链上在区间估值）：最先执行，未达标不再跑后面的昂贵检查
+ * - 代币字节码扫描（增发/黑名单/改税/暂停等入口，权重之和超限拒绝）
+ * - 权限归属（owner / AccessControl 角色，未放弃且可增发按策略拒绝或降级）
+ * - 持仓分布（前十 / 部署者占比，过于集中按策略拒绝或标记）
+ * - 部署者信誉（历史撤池/被拒过多直接拒绝）
+ * - 交易限制（单笔/持仓上限、冷却；交易未开启拒绝，由等待开盘队列稍后重跑）
+ * - 可卖性（V2 router / V3 quoter 报价；V4 无链上报价，改查 hooks 权限）
+ * - 蜜罐模拟（V2/V3 买入再卖出，实测买卖税）
+ * - LP 风险（基准币配对、总体LP量级、V2 LP 销毁/锁仓/部署者占比）
  * - 税率均值（若已有样本）
+ * 每项检查另记一条结构化结论（verdict，见 verdict.ts）；reasons 只含拒绝原因，通过时为 ["ok"]
  */
 export async function passSafetyGates(params: {
-  chain: "BSC" | "ETH";
-  type: "v2" | "v3";
+  chain: ChainLabel;
+  type: "v2" | "v3" | "v4";
   addr: `0x${string}`;
   client: PublicClient;
   token0: `0x${string}`;
   token1: `0x${string}`;
   fee?: number;
+  dex?: string; // 市场所属 DEX（registry 名），决定可卖性校验用的 router/quoter
+  hooks?: `0x${string}`; // v4 池的 hooks 合约
 }) {
-  const { chain, type, addr, client, token0, token1, fee } = params;
+  const { chain, type, addr, client, token0, token1, fee, dex, hooks } =
+    params;
   const reasons: string[] = [];
   const lpNotes: string[] = [];
   let ok = true;
+  const checks: GateCheck[] = [];
+  // since：该阶段开始时间（同阶段并发的检查记同一个耗时）
+  const record = (check: Omit<GateCheck, "latencyMs">, since: number) =>
+    checks.push({ ...check, latencyMs: Date.now() - since });
+  const verdict = (): GateVerdict => ({ ok, ts: Date.now(), checks });
+  const PRIOR_FAILED = "前序检查未通过";
 
-  // 0) 地址必须有合约代码
+  // 0) 地址必须有合约代码（v4 的 addr 是 PoolId，原生币没有合约）
+  const codeStart = Date.now();
   const [addrHasCode, token0HasCode, token1HasCode] = await Promise.all([
-    hasOnchainCode(client, addr),
-    hasOnchainCode(client, token0),
-    hasOnchainCode(client, token1),
+    type === "v4" ? true : hasOnchainCode(client, addr),
+    isNative(token0) || hasOnchainCode(client, token0),
+    isNative(token1) || hasOnchainCode(client, token1),
   ]);
   if (!addrHasCode) {
     ok = false;
@@ -52,15 +102,61 @@ export async function passSafetyGates(params: {
         .join("/")}`
     );
   }
+  record(
+    {
+      id: "code",
+      status: ok ? "pass" : "fail",
+      note: ok ? undefined : reasons.join("; "),
+      source: "onchain",
+    },
+    codeStart
+  );
+
+  // 提前返回（代码缺失、流动性不足）时的结果：其余检查都没执行，逐项记 skipped
+  const skipRest = (ids: readonly GateCheck["id"][], note: string) => {
+    const skippedAt = Date.now();
+    for (const id of ids) record({ id, status: "skipped", note }, skippedAt);
+  };
+  const LATER_CHECKS = [
+    "bytecode",
+    "ownership",
+    "holders",
+    "deployer",
+    "tradingLimits",
+    type === "v4" ? "v4Hooks" : "sellability",
+    "honeypot",
+    "lpRisk",
+    "tax",
+  ] as const;
+  const stopEarly = (liquidityUsd?: number) => ({
+    ok: false,
+    reasons,
+    verdict: verdict(),
+    context: {
+      liquidityUsd,
+      taxAvg: {},
+      honeypot: undefined,
+      bytecode: undefined,
+      ownership: [],
+      ownerDowngrade: false,
+      holders: [],
+      deployer: undefined,
+      tradingLimits: undefined,
+      lpLock: undefined,
+      lpNotes,
+    },
+  });
   if (!ok) {
-    return {
-      ok: false,
-      reasons,
-      context: { liquidityUsd: undefined, taxAvg: {}, lpNotes },
-    };
+    skipRest(["minLiquidity", ...LATER_CHECKS], "合约代码缺失，未执行");
+    return stopEarly();
   }
 
-  // 1) 最小流动性
+  // 0a) 最小流动性：先于字节码/持仓/部署者等昂贵检查；未达标直接返回，其余检查记 skipped，
+  //     结论里只有 minLiquidity 未通过（index 据此转入等待加池）
+  const liqStart = Date.now();
+  // v4 池没有独立地址：池状态与余额都在该 DEX 的 PoolManager 里
+  const poolManager =
+    type === "v4" ? findDex(chainConfig(chain), "v4", dex)?.factory : undefined;
   const liq =
     type === "v2"
       ? await hasMinLiquidityV2({
@@ -71,28 +167,300 @@ export async function passSafetyGates(params: {
           token1,
           minUsd: STRATEGY.MIN_LIQ_USD,
         })
-      : await hasMinLiquidityV3({
+      : type === "v3"
+      ? await hasMinLiquidityV3({
+          chain,
+          client,
+          pool: addr,
+          token0,
+          token1,
+          minUsd: STRATEGY.MIN_LIQ_USD,
+        })
+      : poolManager
+      ? await hasMinLiquidityV4({
           chain,
-          pool: addr as any,
+          client,
+          poolManager,
+          poolId: addr,
+          token0,
+          token1,
           minUsd: STRATEGY.MIN_LIQ_USD,
-        });
+        })
+      : { ok: false, note: "no v4 PoolManager configured" };
   if (!liq.ok) {
     ok = false;
     reasons.push(`minLiquidity: ${liq.note ?? "fail"}`);
   }
+  record(
+    {
+      id: "minLiquidity",
+      status: liq.ok ? "pass" : "fail",
+      value: liq.usd !== undefined ? Math.round(liq.usd) : undefined,
+      threshold: STRATEGY.MIN_LIQ_USD,
+      note: liq.note,
+      source: liq.note?.includes("dexscreener") ? "dexscreener" : "onchain",
+    },
+    liqStart
+  );
+  if (!ok) {
+    skipRest(LATER_CHECKS, "流动性未达标，未执行");
+    return stopEarly(liq.usd);
+  }
 
-  // 2) 可卖性（V2）
-  if (ok) {
-    if (type === "v2") {
+  // 0b) 代币字节码扫描 + 权限归属：只看非基准币一侧（原生币没有代码）
+  const targets = [token0, token1].filter(
+    (t) => !isNative(t) && !isBaseToken(chain, t)
+  );
+  const scanStart = Date.now();
+  const [scanned, owners] = await Promise.all([
+    Promise.all(targets.map((t) => scanTokenBytecode(chain, client, t))),
+    Promise.all(targets.map((t) => checkOwnership(chain, client, t))),
+  ]);
+  const scans = scanned.filter((s) => s !== undefined);
+  const bytecode = scans.length
+    ? {
+        score: scans.reduce((sum, s) => sum + s.score, 0),
+        flags: formatRiskFlags(scans.flatMap((s) => s.flags)),
+        implementations: scans
+          .map((s) => s.implementation)
+          .filter((a) => a !== undefined),
+      }
+    : undefined;
+  if (bytecode && bytecode.score >= STRATEGY.BYTECODE_MAX_SCORE) {
+    ok = false;
+    reasons.push(
+      `bytecode risk ${bytecode.score}: ${bytecode.flags.join(", ")}`
+    );
+  } else if (bytecode?.flags.length) {
+    lpNotes.push(`bytecode: ${bytecode.flags.join(", ")}`);
+  }
+  record(
+    {
+      id: "bytecode",
+      status: !targets.length
+        ? "skipped"
+        : !bytecode
+        ? "error"
+        : bytecode.score >= STRATEGY.BYTECODE_MAX_SCORE
+        ? "fail"
+        : bytecode.flags.length
+        ? "warn"
+        : "pass",
+      value: bytecode?.score,
+      threshold: STRATEGY.BYTECODE_MAX_SCORE,
+      note: bytecode?.flags.join(", ") || undefined,
+      source: "onchain",
+    },
+    scanStart
+  );
+
+  // 未放弃权限 + 可增发（字节码有 mint 入口或有 MINTER 角色成员）按 OWNER_MINT_POLICY 处理
+  const ownership = owners.map((info, i) => ({
+    token: info.token,
+    status: info.status,
+    summary: describeOwnership(info),
+    canMint:
+      isControlled(info) &&
+      (!!scanned[i]?.flags.some((f) => f.id === "mint") ||
+        info.roles.some((r) => r.role === "MINTER")),
+  }));
+  let ownerDowngrade = false;
+  for (const o of ownership) {
+    if (o.canMint && STRATEGY.OWNER_MINT_POLICY === "reject") {
+      ok = false;
+      reasons.push(`owner can mint: ${o.summary}`);
+      continue;
+    }
+    if (o.canMint && STRATEGY.OWNER_MINT_POLICY === "downgrade") {
+      ownerDowngrade = true;
+    }
+    lpNotes.push(`ownership: ${o.summary}`);
+  }
+  const canMint = ownership.some((o) => o.canMint);
+  record(
+    {
+      id: "ownership",
+      status: !targets.length
+        ? "skipped"
+        : canMint && STRATEGY.OWNER_MINT_POLICY === "reject"
+        ? "fail"
+        : canMint
+        ? "warn"
+        : "pass",
+      value: ownership.map((o) => o.status).join("/") || undefined,
+      threshold: canMint ? `policy ${STRATEGY.OWNER_MINT_POLICY}` : undefined,
+      note: ownership.map((o) => o.summary).join("；") || undefined,
+      source: "onchain",
+    },
+    scanStart
+  );
+
+  // 0c) 持仓分布：池子不算持有人（V4 代币都在 PoolManager 里）
+  const pool = type === "v4" ? poolManager : addr;
+  const holdersStart = Date.now();
+  const dists = await Promise.all(
+    targets.map((token) =>
+      analyzeHolders({ chain, client, token, exclude: pool ? [pool] : [] })
+    )
+  );
+  const holders = dists
+    .filter((d) => d !== undefined)
+    .map((d) => ({
+      token: d.token,
+      summary: describeHolders(d),
+      top10Pct: d.top10Pct,
+      deployerPct: d.deployerPct,
+      concentrated: holderConcentration(d),
+    }));
+  for (const h of holders) {
+    if (h.concentrated.length && STRATEGY.HOLDER_POLICY === "reject") {
+      ok = false;
+      reasons.push(`holders: ${h.concentrated.join(", ")}`);
+      continue;
+    }
+    lpNotes.push(`holders: ${h.summary}`);
+  }
+  const concentrated = holders.flatMap((h) => h.concentrated);
+  record(
+    {
+      id: "holders",
+      status: !targets.length
+        ? "skipped"
+        : concentrated.length && STRATEGY.HOLDER_POLICY === "reject"
+        ? "fail"
+        : concentrated.length
+        ? "warn"
+        : holders.length < targets.length
+        ? "error"
+        : "pass",
+      value: holders.length
+        ? Math.max(...holders.map((h) => h.top10Pct))
+        : undefined,
+      threshold: STRATEGY.HOLDER_TOP10_MAX_PCT,
+      note:
+        [...concentrated, ...holders.map((h) => h.summary)].join("；") ||
+        undefined,
+      source: "onchain",
+    },
+    holdersStart
+  );
+
+  // 0d) 部署者信誉（不计当前代币自身）
+  const deployerStart = Date.now();
+  const creator = targets.length
+    ? await resolveDeployer(chain, client, targets[0])
+    : undefined;
+  const deployer = creator
+    ? {
+        ...deployerReputation(chain, creator.address, targets[0]),
+        source: creator.source,
+      }
+    : undefined;
+  if (deployer?.verdict === "bad") {
+    ok = false;
+    reasons.push(`deployer: ${describeDeployer(deployer)}`);
+  } else if (deployer) {
+    lpNotes.push(`deployer: ${describeDeployer(deployer)}`);
+  }
+  record(
+    {
+      id: "deployer",
+      status: !targets.length
+        ? "skipped"
+        : !deployer
+        ? "error"
+        : deployer.verdict === "bad"
+        ? "fail"
+        : "pass",
+      value: deployer?.verdict,
+      note: deployer
+        ? `${describeDeployer(deployer)}，来源 ${deployer.source}`
+        : targets.length
+        ? "部署者未解析"
+        : undefined,
+      source: "onchain",
+    },
+    deployerStart
+  );
+
+  // 0e) 交易限制：池子持有代币，以池子为 from 模拟确认上限（V4 池子没有独立地址）
+  let tradingLimits: (TradingLimits & { token: `0x${string}` }) | undefined;
+  const limitsStart = Date.now();
+  if (targets.length) {
+    const token = targets[0];
+    tradingLimits = {
+      token,
+      ...(await probeTradingLimits({
+        client,
+        token,
+        holder: type === "v4" ? undefined : addr,
+      })),
+    };
+    const text = describeTradingLimits(tradingLimits);
+    if (tradingLimits.tradingOpen === false) {
+      ok = false;
+      reasons.push("trading not enabled");
+    } else if (text) {
+      lpNotes.push(`limits: ${text}`);
+    }
+    record(
+      {
+        id: "tradingLimits",
+        status:
+          tradingLimits.tradingOpen === false ? "fail" : text ? "warn" : "pass",
+        value: tradingLimits.maxTxPct ?? tradingLimits.maxWalletPct,
+        note: text,
+        source: "onchain",
+      },
+      limitsStart
+    );
+  } else {
+    record({ id: "tradingLimits", status: "skipped" }, limitsStart);
+  }
+
+  // 2) 可卖性
+  const sellStart = Date.now();
+  const sellId = type === "v4" ? "v4Hooks" : "sellability";
+  if (!ok) {
+    record({ id: sellId, status: "skipped", note: PRIOR_FAILED }, sellStart);
+  } else {
+    if (type === "v4") {
+      const hook = checkV4Hooks(hooks);
+      if (!hook.ok) {
+        ok = false;
+        reasons.push(`v4 hooks: ${hook.note ?? "fail"}`);
+      } else if (hook.note) {
+        lpNotes.push(hook.note);
+      }
+      record(
+        {
+          id: sellId,
+          status: !hook.ok ? "fail" : hook.note ? "warn" : "pass",
+          value: hooks,
+          note: hook.note,
+          source: "onchain",
+        },
+        sellStart
+      );
+    } else if (type === "v2") {
       const sellToken =
         isBaseToken(chain, token0) && !isBaseToken(chain, token1)
           ? token1
           : token0;
-      const sell = await checkSellabilityV2(chain, client, sellToken);
+      const sell = await checkSellabilityV2(chain, client, sellToken, dex);
       if (!sell.ok) {
         ok = false;
         reasons.push(`sellability: ${sell.note ?? "fail"}`);
       }
+      record(
+        {
+          id: sellId,
+          status: sell.ok ? "pass" : "fail",
+          note: sell.note,
+          source: "onchain",
+        },
+        sellStart
+      );
     } else {
       const sell = await checkSellabilityV3({
         chain,
@@ -101,32 +469,134 @@ export async function passSafetyGates(params: {
         token1,
         pool: addr,
         fee,
+        dex,
       });
       if (!sell.ok) {
         ok = false;
         reasons.push(`sellability v3: ${sell.note ?? "fail"}`);
       }
+      record(
+        {
+          id: sellId,
+          status: sell.ok ? "pass" : "fail",
+          note: sell.note,
+          source: "onchain",
+        },
+        sellStart
+      );
     }
   }
 
-  // 3) LP 风险打分
-  if (ok) {
-    const { score, notes } = await lpRiskScore({
+  // 2b) 蜜罐模拟：无法模拟时记 warn（请求出错记 error），不阻断
+  let honeypot: HoneypotResult | undefined;
+  const simStart = Date.now();
+  if (!ok || type === "v4" || !STRATEGY.HONEYPOT_SIM) {
+    record(
+      {
+        id: "honeypot",
+        status: "skipped",
+        note: !ok
+          ? PRIOR_FAILED
+          : type === "v4"
+          ? "V4 不支持模拟"
+          : "HONEYPOT_SIM 关闭",
+      },
+      simStart
+    );
+  } else {
+    honeypot = await simulateBuySell({
       chain,
+      client,
       type,
-      addr,
       token0,
       token1,
+      fee,
+      dex,
     });
+    const maxPct = Math.round(STRATEGY.MAX_TAX_PCT * 100);
+    if (!honeypot.simulated) {
+      lpNotes.push(`honeypot not simulated: ${honeypot.note}`);
+    } else if (honeypot.honeypot) {
+      ok = false;
+      reasons.push(`honeypot: ${honeypot.note}`);
+    } else {
+      lpNotes.push(honeypot.note);
+      if ((honeypot.sellTax ?? 0) > STRATEGY.MAX_TAX_PCT) {
+        ok = false;
+        reasons.push(`simulated sellTax>${maxPct}%`);
+      }
+      if ((honeypot.buyTax ?? 0) > STRATEGY.MAX_TAX_PCT) {
+        ok = false;
+        reasons.push(`simulated buyTax>${maxPct}%`);
+      }
+    }
+    const simTax = Math.max(honeypot.buyTax ?? 0, honeypot.sellTax ?? 0);
+    record(
+      {
+        id: "honeypot",
+        status: !honeypot.simulated
+          ? honeypot.error
+            ? "error"
+            : "warn"
+          : honeypot.honeypot || simTax > STRATEGY.MAX_TAX_PCT
+          ? "fail"
+          : "pass",
+        value: honeypot.simulated ? simTax : undefined,
+        threshold: STRATEGY.MAX_TAX_PCT,
+        note: honeypot.note,
+        source: "onchain",
+      },
+      simStart
+    );
+  }
+
+  // 3) LP 风险打分
+  let lpLock: LpHolderInfo | undefined;
+  const lpStart = Date.now();
+  if (!ok) {
+    record({ id: "lpRisk", status: "skipped", note: PRIOR_FAILED }, lpStart);
+  } else {
+    const firstSeen = watchlist.get(marketKey(chain, type, addr))?.firstSeen;
+    const { score, notes, hardReject, lockPending, lp, source } =
+      await lpRiskScore({
+        chain,
+        client,
+        type,
+        addr,
+        token0,
+        token1,
+        ageMs: firstSeen !== undefined ? Date.now() - firstSeen : undefined,
+      });
+    lpLock = lp;
     lpNotes.push(...notes);
-    reasons.push(`lpRisk: ${notes.join(", ")}`);
-    if (score >= 2) {
+    if (hardReject) {
+      ok = false;
+      reasons.push(`lpRisk: ${hardReject}`);
+    }
+    if (score >= LP_RISK_MAX_SCORE) {
       ok = false;
-      reasons.push("lpRisk score too high");
+      reasons.push(`lpRisk score too high: ${notes.join(", ")}`);
     }
+    record(
+      {
+        id: "lpRisk",
+        status:
+          hardReject || score >= LP_RISK_MAX_SCORE
+            ? "fail"
+            : score > 0 || lockPending
+            ? "warn"
+            : "pass",
+        value: score,
+        threshold: LP_RISK_MAX_SCORE,
+        note: [...notes, hardReject].filter(Boolean).join(", "),
+        source,
+      },
+      lpStart
+    );
   }
 
   // 4) 税率均值（如果有样本）
+  const taxStart = Date.now();
   const tax = getAvgTaxApprox(chain, type, addr);
   if (tax.sellTax !== undefined && tax.sellTax > STRATEGY.MAX_TAX_PCT) {
     ok = false;
@@ -136,13 +606,38 @@ export async function passSafetyGates(params: {
     ok = false;
     reasons.push(`buyTax>${Math.round(STRATEGY.MAX_TAX_PCT * 100)}%`);
   }
+  const sampled = [tax.buyTax, tax.sellTax].filter((v) => v !== undefined);
+  record(
+    {
+      id: "tax",
+      status: !sampled.length
+        ? "skipped"
+        : Math.max(...sampled) > STRATEGY.MAX_TAX_PCT
+        ? "fail"
+        : "pass",
+      value: sampled.length ? Math.max(...sampled) : undefined,
+      threshold: STRATEGY.MAX_TAX_PCT,
+      note: sampled.length ? undefined : "暂无成交采样",
+      source: "onchain",
+    },
+    taxStart
+  );
 
   return {
     ok,
     reasons: ok ? ["ok"] : reasons,
+    verdict: verdict(),
     context: {
       liquidityUsd: liq.usd,
       taxAvg: tax,
+      honeypot,
+      bytecode,
+      ownership,
+      ownerDowngrade,
+      holders,
+      deployer,
+      tradingLimits,
+      lpLock,
       lpNotes,
     },
   };
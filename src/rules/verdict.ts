@@ -0,0 +1,93 @@
+/**
+ * 闸门逐项结论（可审计）：
+ * - 每项检查一条：id、状态、实测值、阈值、数据来源、耗时
+ * - 状态：pass 通过 / warn 放行但需提示 / fail 拒绝 / skipped 未执行（前序已失败或不适用）/
+ *   error 数据取不到（不单独阻断）
+ * - 同一阶段并发执行的检查记同一个耗时
+ * 写入 watchlist 条目（WatchEntry.verdict）与闸门记录（GateRecord.verdict），告警正文带一行摘要
+ */
+
+export type GateCheckId =
+  | "code" // pair/pool 与代币有合约代码
+  | "bytecode"
+  | "ownership"
+  | "holders"
+  | "deployer"
+  | "tradingLimits"
+  | "minLiquidity"
+  | "sellability"
+  | "v4Hooks"
+  | "honeypot"
+  | "lpRisk"
+  | "tax"; // 成交采样的税率均值
+
+export type GateCheckStatus = "pass" | "warn" | "fail" | "skipped" | "error";
+
+export interface GateCheck {
+  id: GateCheckId;
+  status: GateCheckStatus;
+  value?: number | string; // 实测值（占比 0–1、美元、分数或说明）
+  threshold?: number | string;
+  source?: "onchain" | "dexscreener";
+  latencyMs?: number;
+  note?: string;
+}
+
+export interface GateVerdict {
+  ok: boolean;
+  ts: number;
+  checks: GateCheck[];
+}
+
+const STATUS_TEXT: Record<GateCheckStatus, string> = {
+  pass: "通过",
+  warn: "提示",
+  fail: "未通过",
+  skipped: "跳过",
+  error: "出错",
+};
+
+/** 未通过的检查项 */
+export function failedChecks(verdict: GateVerdict) {
+  return verdict.checks.filter((c) => c.status === "fail");
+}
+
+/** 单项说明，如 "minLiquidity 3200（阈值 5000，dexscreener）" */
+export function describeCheck(check: GateCheck) {
+  const fmt = (v: number | string) =>
+    typeof v === "number" ? String(Number(v.toFixed(4))) : v;
+  const extra = [
+    check.threshold !== undefined ? `阈值 ${fmt(check.threshold)}` : undefined,
+    check.note,
+    check.note?.includes(check.source ?? "") ? undefined : check.source,
+  ]
+    .filter(Boolean)
+    .join("，");
+  const value = check.value !== undefined ? ` ${fmt(check.value)}` : "";
+  return `${check.id}${value}${extra ? `（${extra}）` : ""}`;
+}
+
+/**
+ * 告警里的一行摘要，如 "通过 8 / 提示 2 / 跳过 1；⚠ holders 0.55（阈值 0.5，…）"
+ * 出错项也列出（？），数据没取到的检查不能当作通过
+ */
+export function describeVerdict(verdict: GateVerdict) {
+  const counts = new Map<GateCheckStatus, number>();
+  for (const c of verdict.checks) {
+    counts.set(c.status, (counts.get(c.status) ?? 0) + 1);
+  }
+  const summary = [...counts]
+    .map(([status, n]) => `${STATUS_TEXT[status]} ${n}`)
+    .join(" / ");
+  const flagged = verdict.checks
+    .filter(
+      (c) => c.status === "warn" || c.status === "fail" || c.status === "error"
+    )
+    .map(
+      (c) =>
+        `${
+          c.status === "fail" ? "✗" : c.status === "error" ? "？" : "⚠"
+        } ${describeCheck(c)}`
+    );
+  return flagged.length ? `${summary}；${flagged.join("；")}` : summary;
+}
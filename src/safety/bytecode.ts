@@ -1,4 +1,12 @@
-import { PublicClient } from "viem";
+import {
+  PublicClient,
+  getAddress,
+  toFunctionSelector,
+  zeroAddress,
+} from "viem";
+import { PARSED_ABI } from "../chains/abis.js";
+import { TTLStore } from "../state/stores.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /** 快速判定地址是否存在合约代码 */
 export async function hasOnchainCode(
@@ -12,3 +20,282 @@ export async function hasOnchainCode(
     return false;
   }
 }
+
+/**
+ * 代币字节码静态扫描：
+ * - 代理先解析到实现合约（EIP-1167 最小代理 / EIP-1967 实现槽 / EIP-1967 信标），最多跟两层
+ * - 反汇编时跳过 PUSH 数据与末尾 CBOR 元数据，收集 PUSH4 常量（函数选择器）与危险操作码
+ * - 命中的选择器按类别归并为风险标记，每类一个权重；score = 权重之和
+ * 只看“有没有这个入口”，不判断调用权限，存在即视为 owner 可操作
+ */
+
+export interface RiskFlag {
+  id: string;
+  label: string;
+  weight: number;
+}
+
+export interface BytecodeScan {
+  address: `0x${string}`;
+  implementation?: `0x${string}`; // 代理时为最终实现合约
+  proxy?: "eip1167" | "eip1967" | "eip1967-beacon";
+  flags: RiskFlag[];
+  score: number;
+}
+
+const SELECTOR_RULES: Array<{
+  id: string;
+  label: string;
+  weight: number;
+  signatures: string[];
+}> = [
+  {
+    id: "mint",
+    label: "可增发",
+    weight: 3,
+    signatures: [
+      "mint(address,uint256)",
+      "mint(uint256)",
+      "mintTo(address,uint256)",
+    ],
+  },
+  {
+    id: "blacklist",
+    label: "黑名单",
+    weight: 3,
+    signatures: [
+      "blacklist(address)",
+      "addToBlacklist(address)",
+      "setBlacklist(address,bool)",
+      "blacklistAddress(address,bool)",
+      "setBots(address[],bool)",
+      "addBots(address[])",
+      "blockBots(address[])",
+      "setBot(address,bool)",
+    ],
+  },
+  {
+    id: "whitelist",
+    label: "白名单",
+    weight: 1,
+    signatures: [
+      "setWhitelist(address,bool)",
+      "addToWhitelist(address)",
+      "setWhitelisted(address,bool)",
+    ],
+  },
+  {
+    id: "fee",
+    label: "可改税率",
+    weight: 2,
+    signatures: [
+      "setFee(uint256)",
+      "setFees(uint256,uint256)",
+      "setTax(uint256)",
+      "setTaxes(uint256,uint256)",
+      "setBuyFee(uint256)",
+      "setSellFee(uint256)",
+      "setBuyTax(uint256)",
+      "setSellTax(uint256)",
+      "updateFees(uint256,uint256)",
+      "setTaxFeePercent(uint256)",
+    ],
+  },
+  {
+    id: "pause",
+    label: "可暂停转账",
+    weight: 2,
+    signatures: ["pause()", "unpause()", "setPaused(bool)"],
+  },
+  {
+    id: "tradingSwitch",
+    label: "交易开关",
+    weight: 1,
+    signatures: [
+      "enableTrading()",
+      "openTrading()",
+      "startTrading()",
+      "setTradingEnabled(bool)",
+      "setTrading(bool)",
+    ],
+  },
+  {
+    id: "maxTx",
+    label: "可改限额",
+    weight: 1,
+    signatures: [
+      "setMaxTxAmount(uint256)",
+      "setMaxTx(uint256)",
+      "setMaxTxPercent(uint256)",
+      "updateMaxTxnAmount(uint256)",
+      "setMaxWallet(uint256)",
+      "setMaxWalletSize(uint256)",
+      "updateMaxWalletAmount(uint256)",
+    ],
+  },
+  {
+    id: "transferHook",
+    label: "转账钩子可替换",
+    weight: 2,
+    signatures: [
+      "setAntiBot(address)",
+      "setTransferHook(address)",
+      "setHook(address)",
+      "setBotProtection(address)",
+      "setAntiSnipe(address)",
+    ],
+  },
+];
+
+const OPCODE_RULES: Record<number, RiskFlag> = {
+  0xff: { id: "selfdestruct", label: "含 SELFDESTRUCT", weight: 3 },
+  0xf4: { id: "delegatecall", label: "含 DELEGATECALL", weight: 2 },
+};
+
+const PROXY_FLAG: RiskFlag = { id: "proxy", label: "可升级代理", weight: 2 };
+
+// selector -> 规则
+const SELECTOR_INDEX = new Map(
+  SELECTOR_RULES.flatMap((rule) =>
+    rule.signatures.map((sig) => [toFunctionSelector(sig).slice(2), rule])
+  )
+);
+
+const EIP1967_IMPL_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+const EIP1967_BEACON_SLOT =
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+const EIP1167_PREFIX = "363d3d373d3d3d363d73";
+const EIP1167_SUFFIX = "5af43d82803e903d91602b57fd5bf3";
+const MAX_PROXY_DEPTH = 2;
+
+const scans = new TTLStore<BytecodeScan>(10 * 60_000);
+
+/** 去掉 Solidity 末尾的 CBOR 元数据（最后两字节为其长度） */
+function stripMetadata(code: string) {
+  if (code.length < 4) return code;
+  const len = parseInt(code.slice(-4), 16);
+  const start = code.length - 4 - len * 2;
+  if (start <= 0) return code;
+  const head = code.slice(start, start + 2);
+  return ["a1", "a2", "a3"].includes(head) ? code.slice(0, start) : code;
+}
+
+/** 线性反汇编：PUSH4 常量 + 出现过的操作码 */
+function disassemble(hex: `0x${string}`) {
+  const code = stripMetadata(hex.slice(2).toLowerCase());
+  const push4 = new Set<string>();
+  const opcodes = new Set<number>();
+  for (let i = 0; i < code.length; i += 2) {
+    const op = parseInt(code.slice(i, i + 2), 16);
+    opcodes.add(op);
+    if (op >= 0x60 && op <= 0x7f) {
+      const n = op - 0x5f;
+      if (n === 4) push4.add(code.slice(i + 2, i + 10));
+      i += n * 2;
+    }
+  }
+  return { push4, opcodes };
+}
+
+const slotToAddress = (word?: `0x${string}`) => {
+  if (!word) return undefined;
+  const addr = `0x${word.slice(-40)}`;
+  return addr === zeroAddress ? undefined : getAddress(addr);
+};
+
+/** 解析一层代理：返回实现地址与代理类型（不是代理返回 undefined） */
+async function resolveProxy(
+  client: PublicClient,
+  addr: `0x${string}`,
+  code: `0x${string}`
+): Promise<
+  { implementation: `0x${string}`; kind: BytecodeScan["proxy"] } | undefined
+> {
+  const body = code.slice(2).toLowerCase();
+  if (
+    body.length === 90 &&
+    body.startsWith(EIP1167_PREFIX) &&
+    body.endsWith(EIP1167_SUFFIX)
+  ) {
+    return {
+      implementation: getAddress(`0x${body.slice(20, 60)}`),
+      kind: "eip1167",
+    };
+  }
+
+  const [implWord, beaconWord] = await Promise.all([
+    client.getStorageAt({ address: addr, slot: EIP1967_IMPL_SLOT }),
+    client.getStorageAt({ address: addr, slot: EIP1967_BEACON_SLOT }),
+  ]);
+  const impl = slotToAddress(implWord);
+  if (impl) return { implementation: impl, kind: "eip1967" };
+  const beacon = slotToAddress(beaconWord);
+  if (beacon) {
+    const implementation = await client.readContract({
+      address: beacon,
+      abi: PARSED_ABI.beacon,
+      functionName: "implementation",
+    });
+    return { implementation, kind: "eip1967-beacon" };
+  }
+  return undefined;
+}
+
+/** 扫描代币合约（带 10 分钟缓存）；无代码或读取失败返回 undefined */
+export async function scanTokenBytecode(
+  chain: ChainLabel,
+  client: PublicClient,
+  token: `0x${string}`
+): Promise<BytecodeScan | undefined> {
+  const k = `${chain}:${token.toLowerCase()}`;
+  const hit = scans.get(k);
+  if (hit) return hit;
+
+  try {
+    let code = await client.getBytecode({ address: token });
+    if (!code || code === "0x") return undefined;
+
+    let target = token;
+    let proxy: BytecodeScan["proxy"];
+    for (let depth = 0; depth < MAX_PROXY_DEPTH; depth++) {
+      const next = await resolveProxy(client, target, code);
+      if (!next) break;
+      proxy ??= next.kind;
+      target = next.implementation;
+      code = await client.getBytecode({ address: target });
+      if (!code || code === "0x") return undefined;
+    }
+
+    const { push4, opcodes } = disassemble(code);
+    const flags: RiskFlag[] = [];
+    const seen = new Set<string>();
+    for (const selector of push4) {
+      const rule = SELECTOR_INDEX.get(selector);
+      if (!rule || seen.has(rule.id)) continue;
+      seen.add(rule.id);
+      flags.push({ id: rule.id, label: rule.label, weight: rule.weight });
+    }
+    for (const [op, flag] of Object.entries(OPCODE_RULES)) {
+      if (opcodes.has(Number(op))) flags.push(flag);
+    }
+    // 最小代理的实现地址写死在代码里，不可升级
+    if (proxy && proxy !== "eip1167") flags.push(PROXY_FLAG);
+
+    const scan: BytecodeScan = {
+      address: token,
+      implementation: proxy ? target : undefined,
+      proxy,
+      flags,
+      score: flags.reduce((sum, f) => sum + f.weight, 0),
+    };
+    scans.set(k, scan);
+    return scan;
+  } catch {
+    return undefined;
+  }
+}
+
+/** 告警/日志里展示的标记文本，如 "可增发(3)" */
+export const formatRiskFlags = (flags: RiskFlag[]) =>
+  flags.map((f) => `${f.label}(${f.weight})`);
@@ -0,0 +1,202 @@
+import { getAbiItem, zeroAddress, type PublicClient } from "viem";
+import { PARSED_ABI } from "../chains/abis.js";
+import { STRATEGY } from "../config.js";
+import { getRecentLogs } from "../chains/backfill.js";
+import { getCurveState } from "../datasources/launchpad.js";
+import { isBaseToken, isNative } from "../price/baseQuotes.js";
+import { getStorage } from "../state/storage.js";
+import { TTLStore } from "../state/stores.js";
+import type { ChainLabel } from "../chains/registry.js";
+import type { GateVerdict, GateCheckId } from "../rules/verdict.js";
+
+/**
+ * 部署者信誉：
+ * - 解析代币创建者：发射台建币事件的 creator → 代币首次铸造（from 0）所在交易的发起人；
+ *   都拿不到时由 V2 Mint 回调补上（Mint 的 sender 参数多为 router，取交易发起人）
+ * - 每个代币在存储里记一条（同一代币的 V2/V3 多个池子只算一次发币）：部署者、首次发现时间、
+ *   结局 active / rejected / rugged
+ * - 只有部署者本人的问题才记 rejected：蜜罐、税率超限、未放弃权限且可增发被拒（DEPLOYER_FAULT_CHECKS）；
+ *   流动性不足、交易未开启、LP 宽限期等按本机策略未通过的不算；撤池告警记 rugged
+ * - 统计：发币数、坏结局（rejected）数、撤池数、平均存活时长（撤池的按撤池时间，其余按现在）
+ * - 撤池达到 DEPLOYER_REJECT_RUGS 次，或发过 ≥3 个币且拒绝+撤池占比达到 DEPLOYER_REJECT_RATIO → bad，闸门拒绝
+ * - 发过 ≥ DEPLOYER_GOOD_MIN_TOKENS 个币且没有拒绝与撤池 → good，告警加分
+ */
+
+export type DeployerVerdict = "new" | "neutral" | "good" | "bad";
+
+export interface DeployerReputation {
+  deployer: `0x${string}`;
+  launched: number;
+  rejected: number;
+  rugged: number;
+  avgLifetimeMs?: number;
+  verdict: DeployerVerdict;
+}
+
+const MIN_TOKENS_FOR_RATIO = 3;
+
+/** 未通过时算作部署者坏结局的闸门检查项 */
+export const DEPLOYER_FAULT_CHECKS: GateCheckId[] = [
+  "honeypot",
+  "tax",
+  "ownership",
+];
+
+/** 闸门结论里是否有部署者坏结局 */
+export function isDeployerFault(verdict?: GateVerdict) {
+  return !!verdict?.checks.some(
+    (c) => c.status === "fail" && DEPLOYER_FAULT_CHECKS.includes(c.id)
+  );
+}
+
+/** 市场里被发行的那个代币（非基准币、非原生币一侧） */
+export function launchedToken(
+  chain: ChainLabel,
+  token0: `0x${string}`,
+  token1: `0x${string}`
+) {
+  return [token0, token1].find((t) => !isNative(t) && !isBaseToken(chain, t));
+}
+
+/** 部署者记录按代币记：chain:token */
+export function deployerTokenKey(chain: ChainLabel, token: `0x${string}`) {
+  return `${chain}:${token.toLowerCase()}`;
+}
+
+const TRANSFER = getAbiItem({ abi: PARSED_ABI.erc20, name: "Transfer" });
+
+// chain:token -> 创建者（没找到不缓存）
+const creators = new TTLStore<`0x${string}`>(24 * 60 * 60_000);
+
+/** 某条日志所在交易的发起人 */
+export async function txOrigin(client: PublicClient, log: any) {
+  if (!log?.transactionHash) return undefined;
+  try {
+    const tx = await client.getTransaction({ hash: log.transactionHash });
+    return tx.from.toLowerCase() as `0x${string}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/** 解析代币创建者（找不到返回 undefined） */
+export async function resolveDeployer(
+  chain: ChainLabel,
+  client: PublicClient,
+  token: `0x${string}`
+): Promise<
+  { address: `0x${string}`; source: "launchpad" | "creation" } | undefined
+> {
+  const creator = getCurveState(chain, token)?.creator;
+  if (creator) {
+    return {
+      address: creator.toLowerCase() as `0x${string}`,
+      source: "launchpad",
+    };
+  }
+
+  const k = `${chain}:${token.toLowerCase()}`;
+  const hit = creators.get(k);
+  if (hit) return { address: hit, source: "creation" };
+  try {
+    const logs = await getRecentLogs(client, {
+      address: token,
+      event: TRANSFER,
+      args: { from: zeroAddress },
+      maxBlocks: STRATEGY.HOLDER_SCAN_BLOCKS,
+    });
+    const origin = await txOrigin(client, logs[0]);
+    if (!origin) return undefined;
+    creators.set(k, origin);
+    return { address: origin, source: "creation" };
+  } catch {
+    return undefined;
+  }
+}
+
+/** 部署者的历史统计（exceptToken：不计入当前代币） */
+export function deployerReputation(
+  chain: ChainLabel,
+  deployer: `0x${string}`,
+  exceptToken?: `0x${string}`
+): DeployerReputation {
+  const now = Date.now();
+  const exceptKey = exceptToken && deployerTokenKey(chain, exceptToken);
+  const tokens = getStorage()
+    .deployerTokens(chain, deployer.toLowerCase() as `0x${string}`)
+    .filter((t) => t.key !== exceptKey);
+  const rejected = tokens.filter((t) => t.outcome === "rejected").length;
+  const rugged = tokens.filter((t) => t.outcome === "rugged").length;
+  // 被拒的币没有交易过，不计存活时长
+  const lifetimes = tokens
+    .filter((t) => t.outcome !== "rejected")
+    .map((t) => (t.endedAt ?? now) - t.firstSeen);
+
+  const launched = tokens.length;
+  const bad =
+    (STRATEGY.DEPLOYER_REJECT_RUGS > 0 &&
+      rugged >= STRATEGY.DEPLOYER_REJECT_RUGS) ||
+    (launched >= MIN_TOKENS_FOR_RATIO &&
+      (rejected + rugged) / launched >= STRATEGY.DEPLOYER_REJECT_RATIO);
+  const good =
+    launched >= STRATEGY.DEPLOYER_GOOD_MIN_TOKENS &&
+    rejected === 0 &&
+    rugged === 0;
+  return {
+    deployer,
+    launched,
+    rejected,
+    rugged,
+    avgLifetimeMs: lifetimes.length
+      ? lifetimes.reduce((a, b) => a + b, 0) / lifetimes.length
+      : undefined,
+    verdict: bad ? "bad" : good ? "good" : launched ? "neutral" : "new",
+  };
+}
+
+/**
+ * 闸门结束后记下该代币；fault：部署者坏结局（见 isDeployerFault）
+ * rejected / rugged 不会被同一代币其他池子的结果改回 active
+ */
+export function recordDeployerToken(params: {
+  chain: ChainLabel;
+  token: `0x${string}`;
+  deployer: `0x${string}`;
+  firstSeen: number;
+  fault: boolean;
+}) {
+  const storage = getStorage();
+  const key = deployerTokenKey(params.chain, params.token);
+  const prev = storage.getDeployerToken(key);
+  if (prev?.outcome === "rugged") return;
+  if (prev?.outcome === "rejected" && !params.fault) return;
+  storage.saveDeployerToken({
+    key,
+    chain: params.chain,
+    deployer: params.deployer.toLowerCase() as `0x${string}`,
+    firstSeen: Math.min(prev?.firstSeen ?? params.firstSeen, params.firstSeen),
+    outcome: params.fault ? "rejected" : "active",
+  });
+}
+
+/** 撤池告警发出时调用：该代币记为 rugged */
+export function markDeployerRugged(chain: ChainLabel, token: `0x${string}`) {
+  const storage = getStorage();
+  const prev = storage.getDeployerToken(deployerTokenKey(chain, token));
+  if (!prev || prev.outcome === "rugged") return;
+  storage.saveDeployerToken({
+    ...prev,
+    outcome: "rugged",
+    endedAt: Date.now(),
+  });
+}
+
+/** 告警/闸门备注里的一行说明 */
+export function describeDeployer(rep: DeployerReputation) {
+  if (!rep.launched) return `${rep.deployer}（首次发币）`;
+  const life =
+    rep.avgLifetimeMs !== undefined
+      ? `，平均存活 ${(rep.avgLifetimeMs / 3_600_000).toFixed(1)}h`
+      : "";
+  return `${rep.deployer}（历史 ${rep.launched} 个币，被拒 ${rep.rejected}，撤池 ${rep.rugged}${life}）`;
+}
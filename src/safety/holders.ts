@@ -0,0 +1,167 @@
+import { getAbiItem, zeroAddress, type PublicClient } from "viem";
+import { PARSED_ABI } from "../chains/abis.js";
+import { STRATEGY, chainConfig } from "../config.js";
+import { getRecentLogs } from "../chains/backfill.js";
+import { TTLStore } from "../state/stores.js";
+import type { ChainLabel } from "../chains/registry.js";
+
+/**
+ * 持仓分布（由 Transfer 日志重建余额）：
+ * - 回看最近 HOLDER_SCAN_BLOCKS 个区块的代币 Transfer，逐笔累加出各地址余额
+ * - 排除：池子（pair/pool 或 V4 PoolManager）、销毁地址、锁仓合约、发射台合约
+ * - 余额前 20 的地址再用 balanceOf 校正（反射/分红类代币的日志余额不准），取前十
+ * - 占比按链上 totalSupply 计算；部署者 = 回看范围内第一笔铸造（from 0）的接收者
+ * 回看范围没覆盖到建币时有地址余额为负，complete = false（结论只作参考）
+ */
+
+export interface HolderDistribution {
+  token: `0x${string}`;
+  holderCount: number;
+  top10Pct: number; // 0–1
+  top10: Array<{ address: `0x${string}`; pct: number }>;
+  deployer?: `0x${string}`;
+  deployerPct?: number;
+  complete: boolean;
+}
+
+const BURN_ADDRESSES = [
+  zeroAddress,
+  "0x000000000000000000000000000000000000dead",
+];
+const TOP_N = 10;
+const VERIFY_N = 20;
+
+const TRANSFER = getAbiItem({ abi: PARSED_ABI.erc20, name: "Transfer" });
+
+const cache = new TTLStore<HolderDistribution>(5 * 60_000);
+
+export async function analyzeHolders(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  token: `0x${string}`;
+  exclude: `0x${string}`[]; // 池子等非持有人地址
+}): Promise<HolderDistribution | undefined> {
+  const { chain, client, token } = params;
+  const k = `${chain}:${token.toLowerCase()}`;
+  const hit = cache.get(k);
+  if (hit) return hit;
+
+  const cfg = chainConfig(chain);
+  const excluded = new Set(
+    [
+      ...params.exclude,
+      ...BURN_ADDRESSES,
+      ...cfg.lpLockers.map((l) => l.address),
+      ...cfg.launchpads.map((l) => l.address),
+    ].map((a) => a.toLowerCase())
+  );
+  const balanceOf = (holder: `0x${string}`) =>
+    client.readContract({
+      address: token,
+      abi: PARSED_ABI.erc20,
+      functionName: "balanceOf",
+      args: [holder],
+    });
+
+  try {
+    const [totalSupply, logs] = await Promise.all([
+      client.readContract({
+        address: token,
+        abi: PARSED_ABI.erc20,
+        functionName: "totalSupply",
+      }),
+      getRecentLogs(client, {
+        address: token,
+        event: TRANSFER,
+        maxBlocks: STRATEGY.HOLDER_SCAN_BLOCKS,
+      }),
+    ]);
+    if (totalSupply === 0n) return undefined;
+
+    const balances = new Map<string, bigint>();
+    let deployer: `0x${string}` | undefined;
+    for (const l of logs) {
+      const { from, to, value } = l.args as {
+        from: `0x${string}`;
+        to: `0x${string}`;
+        value: bigint;
+      };
+      if (from === zeroAddress && to !== zeroAddress) deployer ??= to;
+      const f = from.toLowerCase();
+      const t = to.toLowerCase();
+      balances.set(f, (balances.get(f) ?? 0n) - value);
+      balances.set(t, (balances.get(t) ?? 0n) + value);
+    }
+
+    let complete = true;
+    const holders: Array<[`0x${string}`, bigint]> = [];
+    for (const [addr, bal] of balances) {
+      if (addr === zeroAddress) continue; // 铸造来源，恒为负
+      if (bal < 0n) complete = false;
+      if (bal > 0n && !excluded.has(addr)) {
+        holders.push([addr as `0x${string}`, bal]);
+      }
+    }
+    holders.sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0));
+
+    const verified = await Promise.all(
+      holders
+        .slice(0, VERIFY_N)
+        .map(async ([address]) => ({
+          address,
+          balance: await balanceOf(address),
+        }))
+    );
+    verified.sort((a, b) =>
+      b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0
+    );
+    const pct = (v: bigint) => Number(v) / Number(totalSupply);
+    const top10 = verified
+      .slice(0, TOP_N)
+      .filter((h) => h.balance > 0n)
+      .map((h) => ({ address: h.address, pct: pct(h.balance) }));
+
+    const deployerHolds =
+      deployer && !excluded.has(deployer.toLowerCase())
+        ? await balanceOf(deployer)
+        : undefined;
+
+    const dist: HolderDistribution = {
+      token,
+      holderCount: holders.length,
+      top10Pct: top10.reduce((sum, h) => sum + h.pct, 0),
+      top10,
+      deployer,
+      deployerPct: deployerHolds !== undefined ? pct(deployerHolds) : undefined,
+      complete,
+    };
+    cache.set(k, dist);
+    return dist;
+  } catch {
+    return undefined;
+  }
+}
+
+/** 持仓过于集中的原因（未超限返回空数组） */
+export function holderConcentration(dist: HolderDistribution) {
+  const out: string[] = [];
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  if (dist.top10Pct >= STRATEGY.HOLDER_TOP10_MAX_PCT) {
+    out.push(`top10 holders ${pct(dist.top10Pct)}`);
+  }
+  if ((dist.deployerPct ?? 0) >= STRATEGY.HOLDER_DEPLOYER_MAX_PCT) {
+    out.push(`deployer holds ${pct(dist.deployerPct ?? 0)}`);
+  }
+  return out;
+}
+
+/** 告警里的一行说明，如 "前十 45.2%，部署者 3.0%，持有人 320" */
+export function describeHolders(dist: HolderDistribution) {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const parts = [`前十 ${pct(dist.top10Pct)}`];
+  if (dist.deployerPct !== undefined) {
+    parts.push(`部署者 ${pct(dist.deployerPct)}`);
+  }
+  parts.push(`持有人 ${dist.holderCount}${dist.complete ? "" : "+"}`);
+  return parts.join("，");
+}
@@ -0,0 +1,361 @@
+import {
+  encodeAbiParameters,
+  keccak256,
+  maxUint256,
+  numberToHex,
+  parseUnits,
+  type Abi,
+  type PublicClient,
+  type SimulateBlocksParameters,
+} from "viem";
+import { PARSED_ABI } from "../chains/abis.js";
+import { STRATEGY, chainConfig } from "../config.js";
+import { logger } from "../logger.js";
+import { findDex, type ChainLabel } from "../chains/registry.js";
+import { getBaseTokenUsd, isBaseToken } from "../price/baseQuotes.js";
+import { getTokenDecimals } from "../price/reservesPrice.js";
+
+/**
+ * 蜜罐模拟（eth_simulateV1 + 状态覆盖）：
+ * - 覆盖基准币的余额存储槽，给一个合成钱包 HONEYPOT_SIM_USD 的基准币
+ * - 第 1 块：询价 → approve → 经市场所属 DEX 的 router 买入 → 读到账数量
+ * - 第 2 块：把买到的全部卖回基准币（放在下一块，避开同块买卖限制）
+ * - 买入税 = 1 - 到账 / 买入前询价；卖出税 = 1 - 所得 / 卖出前询价
+ * - 买入或卖出 revert、卖出几乎拿不回基准币 → honeypot
+ * 节点不支持 eth_simulateV1、DEX 没有可用 router、找不到余额槽时 simulated=false，
+ * 由闸门记为 warn（模拟请求出错时 error=true，记为 error）后放行（其余静态检查照常生效）
+ */
+
+export interface HoneypotResult {
+  simulated: boolean; // false：无法模拟，结论不可用
+  error?: boolean; // 模拟请求本身失败（节点不支持 eth_simulateV1 或 RPC 出错）
+  honeypot: boolean;
+  buyTax?: number; // 0–1
+  sellTax?: number; // 0–1
+  note: string;
+}
+
+type SimBlock = SimulateBlocksParameters["blocks"][number];
+
+/** 一次合约调用（eth_simulateV1 的 calls 项，按 abi 编码） */
+interface SimCall {
+  to: `0x${string}`;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+}
+
+// 合成钱包：链上没有代码也没有历史，只在模拟中存在
+const SIM_WALLET = "0x7e57000000000000000000000000000000007e57";
+const MAX_SLOT_PROBE = 20;
+const HONEYPOT_SELL_TAX = 0.9; // 卖出拿回不到一成，按蜜罐处理
+const PROBE_BALANCE = 10n ** 30n + 7n;
+
+// chain:token -> 合成钱包余额所在的存储槽（null = 找不到）
+const balanceSlots = new Map<string, `0x${string}` | null>();
+
+/**
+ * 探测 ERC20 余额映射的存储槽：依次覆盖候选槽，balanceOf 读回覆盖值即命中
+ * 同时尝试 Solidity（keccak(holder . slot)）与 Vyper（keccak(slot . holder)）布局
+ */
+async function findBalanceSlot(
+  chain: ChainLabel,
+  client: PublicClient,
+  token: `0x${string}`
+) {
+  const k = `${chain}:${token.toLowerCase()}`;
+  if (balanceSlots.has(k)) return balanceSlots.get(k) ?? undefined;
+
+  const value = numberToHex(PROBE_BALANCE, { size: 32 });
+  for (let i = 0n; i < BigInt(MAX_SLOT_PROBE); i++) {
+    const candidates = [
+      keccak256(
+        encodeAbiParameters(
+          [{ type: "address" }, { type: "uint256" }],
+          [SIM_WALLET, i]
+        )
+      ),
+      keccak256(
+        encodeAbiParameters(
+          [{ type: "uint256" }, { type: "address" }],
+          [i, SIM_WALLET]
+        )
+      ),
+    ];
+    const hits = await Promise.all(
+      candidates.map((slot) =>
+        client
+          .readContract({
+            address: token,
+            abi: PARSED_ABI.erc20,
+            functionName: "balanceOf",
+            args: [SIM_WALLET],
+            stateOverride: [{ address: token, stateDiff: [{ slot, value }] }],
+          })
+          .then((b) => b === PROBE_BALANCE)
+          .catch(() => false)
+      )
+    );
+    const hit = candidates.find((_, j) => hits[j]);
+    if (hit) {
+      balanceSlots.set(k, hit);
+      return hit;
+    }
+  }
+  balanceSlots.set(k, null);
+  return undefined;
+}
+
+/** 一个 DEX 的询价与兑换调用（V2 router / V3 quoter + SwapRouter02） */
+interface SwapRoute {
+  router: `0x${string}`;
+  quote: (
+    tokenIn: `0x${string}`,
+    tokenOut: `0x${string}`,
+    amountIn: bigint
+  ) => SimCall;
+  quoteOut: (result: unknown) => bigint;
+  swap: (
+    tokenIn: `0x${string}`,
+    tokenOut: `0x${string}`,
+    amountIn: bigint
+  ) => SimCall;
+}
+
+function routeFor(
+  chain: ChainLabel,
+  type: "v2" | "v3",
+  fee?: number,
+  dex?: string
+): SwapRoute | undefined {
+  const cfg = chainConfig(chain);
+  if (type === "v2") {
+    const v2 = findDex(cfg, "v2", dex);
+    if (!v2) return undefined;
+    return {
+      router: v2.router,
+      quote: (tokenIn, tokenOut, amountIn) => ({
+        to: v2.router,
+        abi: PARSED_ABI.uniV2RouterLike,
+        functionName: "getAmountsOut",
+        args: [amountIn, [tokenIn, tokenOut]],
+      }),
+      quoteOut: (amounts) => {
+        const list = amounts as readonly bigint[];
+        return list[list.length - 1];
+      },
+      swap: (tokenIn, tokenOut, amountIn) => ({
+        to: v2.router,
+        abi: PARSED_ABI.uniV2RouterLike,
+        functionName: "swapExactTokensForTokensSupportingFeeOnTransferTokens",
+        args: [amountIn, 0n, [tokenIn, tokenOut], SIM_WALLET, maxUint256],
+      }),
+    };
+  }
+
+  const v3 = findDex(cfg, "v3", dex);
+  if (!v3?.swapRouter) return undefined;
+  const router = v3.swapRouter;
+  const poolFee = fee ?? 3000;
+  return {
+    router,
+    quote: (tokenIn, tokenOut, amountIn) =>
+      v3.quoterVersion === 2
+        ? {
+            to: v3.quoter,
+            abi: PARSED_ABI.v3QuoterV2,
+            functionName: "quoteExactInputSingle",
+            args: [
+              {
+                tokenIn,
+                tokenOut,
+                amountIn,
+                fee: poolFee,
+                sqrtPriceLimitX96: 0n,
+              },
+            ],
+          }
+        : {
+            to: v3.quoter,
+            abi: PARSED_ABI.v3Quoter,
+            functionName: "quoteExactInputSingle",
+            args: [tokenIn, tokenOut, poolFee, amountIn, 0n],
+          },
+    quoteOut: (r) =>
+      typeof r === "bigint" ? r : (r as readonly [bigint, ...unknown[]])[0],
+    swap: (tokenIn, tokenOut, amountIn) => ({
+      to: router,
+      abi: PARSED_ABI.v3SwapRouter,
+      functionName: "exactInputSingle",
+      args: [
+        {
+          tokenIn,
+          tokenOut,
+          fee: poolFee,
+          recipient: SIM_WALLET,
+          amountIn,
+          amountOutMinimum: 0n,
+          sqrtPriceLimitX96: 0n,
+        },
+      ],
+    }),
+  };
+}
+
+/** 询价 → approve → 兑换 → 读 tokenOut 余额（结果下标固定为 0..3） */
+function swapCalls(
+  route: SwapRoute,
+  tokenIn: `0x${string}`,
+  tokenOut: `0x${string}`,
+  amountIn: bigint
+): SimBlock["calls"] {
+  const calls: SimCall[] = [
+    route.quote(tokenIn, tokenOut, amountIn),
+    {
+      to: tokenIn,
+      abi: PARSED_ABI.erc20,
+      functionName: "approve",
+      args: [route.router, amountIn],
+    },
+    route.swap(tokenIn, tokenOut, amountIn),
+    {
+      to: tokenOut,
+      abi: PARSED_ABI.erc20,
+      functionName: "balanceOf",
+      args: [SIM_WALLET],
+    },
+  ];
+  return calls.map((call) => ({ ...call, account: SIM_WALLET }));
+}
+
+const errText = (e: any) =>
+  String(e?.shortMessage ?? e?.message ?? e).slice(0, 160);
+
+const taxOf = (got: bigint, expected?: bigint) =>
+  expected && expected > 0n
+    ? Math.max(0, Math.min(1, 1 - Number(got) / Number(expected)))
+    : undefined;
+
+export async function simulateBuySell(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  type: "v2" | "v3";
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  fee?: number;
+  dex?: string;
+}): Promise<HoneypotResult> {
+  const { chain, client, type, token0, token1 } = params;
+  const is0Base = isBaseToken(chain, token0);
+  const is1Base = isBaseToken(chain, token1);
+  if (is0Base === is1Base) {
+    return {
+      simulated: false,
+      honeypot: false,
+      note: is0Base ? "both sides are base" : "no base token in pool",
+    };
+  }
+  const base = is1Base ? token1 : token0;
+  const target = is1Base ? token0 : token1;
+
+  const route = routeFor(chain, type, params.fee, params.dex);
+  if (!route) {
+    return {
+      simulated: false,
+      honeypot: false,
+      note: `no ${type} swap router for ${params.dex ?? chain}`,
+    };
+  }
+
+  try {
+    const [slot, decimals, baseUsd] = await Promise.all([
+      findBalanceSlot(chain, client, base),
+      getTokenDecimals(client, base),
+      getBaseTokenUsd(chain, base),
+    ]);
+    if (!slot) {
+      return {
+        simulated: false,
+        honeypot: false,
+        note: "base balance slot not found",
+      };
+    }
+    if (baseUsd === undefined) {
+      return { simulated: false, honeypot: false, note: "no base USD quote" };
+    }
+    const amountIn = parseUnits(
+      (STRATEGY.HONEYPOT_SIM_USD / baseUsd).toFixed(Math.min(decimals, 12)),
+      decimals
+    );
+    const buyBlock: SimBlock = {
+      calls: swapCalls(route, base, target, amountIn),
+      stateOverrides: [
+        {
+          address: base,
+          stateDiff: [{ slot, value: numberToHex(amountIn, { size: 32 }) }],
+        },
+      ],
+    };
+
+    // 第一轮：只买，拿到到账数量（第二轮的卖出数量要提前写进调用参数）
+    const [first] = await client.simulateBlocks({ blocks: [buyBlock] });
+    const [buyQuote, , buy, bought] = first.calls;
+    if (buy.status !== "success") {
+      return {
+        simulated: true,
+        honeypot: true,
+        note: `buy reverted: ${errText(buy.error)}`,
+      };
+    }
+    const received = bought.result as bigint;
+    if (!received) {
+      return { simulated: true, honeypot: true, note: "buy received 0 tokens" };
+    }
+    const buyTax = taxOf(
+      received,
+      buyQuote.status === "success"
+        ? route.quoteOut(buyQuote.result)
+        : undefined
+    );
+
+    // 第二轮：同样买入，下一块全部卖回
+    const [, second] = await client.simulateBlocks({
+      blocks: [buyBlock, { calls: swapCalls(route, target, base, received) }],
+    });
+    const [sellQuote, , sell, proceeds] = second.calls;
+    if (sell.status !== "success") {
+      return {
+        simulated: true,
+        honeypot: true,
+        buyTax,
+        note: `sell reverted: ${errText(sell.error)}`,
+      };
+    }
+    const sellTax = taxOf(
+      proceeds.result as bigint,
+      sellQuote.status === "success"
+        ? route.quoteOut(sellQuote.result)
+        : undefined
+    );
+    const pct = (v?: number) =>
+      v === undefined ? "?" : `${(v * 100).toFixed(1)}%`;
+    return {
+      simulated: true,
+      honeypot: !proceeds.result || (sellTax ?? 0) >= HONEYPOT_SELL_TAX,
+      buyTax,
+      sellTax,
+      note: `simulated buy tax ${pct(buyTax)}, sell tax ${pct(sellTax)}`,
+    };
+  } catch (e: any) {
+    logger.warn(
+      { chain, target, err: errText(e) },
+      "Honeypot simulation failed"
+    );
+    return {
+      simulated: false,
+      error: true,
+      honeypot: false,
+      note: `simulation unavailable: ${errText(e)}`,
+    };
+  }
+}
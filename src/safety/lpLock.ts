@@ -0,0 +1,99 @@
+import { getAbiItem, zeroAddress, type PublicClient } from "viem";
+import { PARSED_ABI } from "../chains/abis.js";
+import { chainConfig } from "../config.js";
+import { getRecentLogs } from "../chains/backfill.js";
+import { TTLStore } from "../state/stores.js";
+import type { ChainLabel } from "../chains/registry.js";
+
+/**
+ * V2 LP 持仓分析（LP 代币即交易对合约本身）：
+ * - 读 LP totalSupply，以及销毁地址（0 / dead）与各锁仓合约（注册表预设 + LP_LOCKERS）的余额
+ * - 部署者 = 最近 BACKFILL_MAX_BLOCKS 内第一笔 LP 铸造（from 0 且 to 非 0）的接收者，读其当前余额
+ * - 输出 销毁 / 锁仓 / 部署者持有 的占比（0–1），由 lpRiskScore 计入风险
+ * 读取失败返回 undefined；找不到首次铸造时 deployerPct 为空
+ */
+
+export interface LpHolderInfo {
+  totalSupply: bigint;
+  burnedPct: number;
+  lockedPct: number;
+  lockers: Array<{ name: string; pct: number }>; // 只列出有余额的锁仓合约
+  deployer?: `0x${string}`;
+  deployerPct?: number;
+}
+
+const BURN_ADDRESSES = [
+  zeroAddress,
+  "0x000000000000000000000000000000000000dEaD",
+] as const;
+
+const TRANSFER = getAbiItem({ abi: PARSED_ABI.erc20, name: "Transfer" });
+
+// chain:pair -> 首次铸造的接收者（没找到不缓存：闸门可能早于首次加池）
+const deployers = new TTLStore<`0x${string}`>(60 * 60_000);
+
+async function findLpDeployer(
+  chain: ChainLabel,
+  client: PublicClient,
+  pair: `0x${string}`
+) {
+  const k = `${chain}:${pair.toLowerCase()}`;
+  const hit = deployers.get(k);
+  if (hit) return hit;
+
+  const logs = await getRecentLogs(client, {
+    address: pair,
+    event: TRANSFER,
+    args: { from: zeroAddress },
+  });
+  // UniswapV2 首次加池会先把 MINIMUM_LIQUIDITY 铸给 0 地址，跳过
+  const first = logs.find((l) => l.args?.to && l.args.to !== zeroAddress);
+  const deployer = first?.args.to as `0x${string}` | undefined;
+  if (deployer) deployers.set(k, deployer);
+  return deployer;
+}
+
+export async function analyzeV2LpHolders(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  pair: `0x${string}`;
+}): Promise<LpHolderInfo | undefined> {
+  const { chain, client, pair } = params;
+  const balanceOf = (holder: `0x${string}`) =>
+    client.readContract({
+      address: pair,
+      abi: PARSED_ABI.erc20,
+      functionName: "balanceOf",
+      args: [holder],
+    });
+
+  try {
+    const lockers = chainConfig(chain).lpLockers;
+    const [totalSupply, burned, locked, deployer] = await Promise.all([
+      client.readContract({
+        address: pair,
+        abi: PARSED_ABI.erc20,
+        functionName: "totalSupply",
+      }),
+      Promise.all(BURN_ADDRESSES.map(balanceOf)),
+      Promise.all(lockers.map((l) => balanceOf(l.address))),
+      findLpDeployer(chain, client, pair).catch(() => undefined),
+    ]);
+    if (totalSupply === 0n) return undefined;
+
+    const pct = (v: bigint) => Number(v) / Number(totalSupply);
+    const sum = (vs: bigint[]) => vs.reduce((a, b) => a + b, 0n);
+    return {
+      totalSupply,
+      burnedPct: pct(sum(burned)),
+      lockedPct: pct(sum(locked)),
+      lockers: lockers
+        .map((l, i) => ({ name: l.name, pct: pct(locked[i]) }))
+        .filter((l) => l.pct > 0),
+      deployer,
+      deployerPct: deployer ? pct(await balanceOf(deployer)) : undefined,
+    };
+  } catch {
+    return undefined;
+  }
+}
@@ -7,16 +7,27 @@ import {
 import { getBaseTokenUsd, isBaseToken } from "../price/baseQuotes.js";
 import { watchlist } from "../state/watchlist.js";
 import { fetchPairData } from "../datasources/dexScreener.js";
+import { STRATEGY } from "../config.js";
+import { analyzeV2LpHolders, type LpHolderInfo } from "./lpLock.js";
+import {
+  isDeployerFault,
+  launchedToken,
+  recordDeployerToken,
+} from "./deployer.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /**
  * LP 风险评估（MVP）：
  * - 是否与主流基准币配对（非基准 × 非基准 → 降级）
  * - 近一次 Mint（加池）美元值（作为开盘强度加分）
  * - DexScreener 侧信道：若标注的 liquidity.usd 很低，降级
+ * - V2：LP 销毁 + 锁仓不足一半 → 降级；部署者持有 ≥ LP_DEPLOYER_MAX_PCT → 直接拒绝
+ *   新池在 LP_LOCK_GRACE_MS 宽限期内只提示（首次加池后 LP 全在部署者手里、尚未销毁/锁仓是常态），
+ *   宽限期过后的复查仍未销毁/锁仓才计分或拒绝
  */
 
 export async function isBasePaired(
-  chain: "BSC" | "ETH",
+  chain: ChainLabel,
   token0: `0x${string}`,
   token1: `0x${string}`
 ) {
@@ -25,7 +36,7 @@ export async function isBasePaired(
 
 /** 解析一笔 V2 Mint，估算本次加池的 USD 值（当一侧为基准币时精确；否则兜底侧信道） */
 export async function estimateMintUsdV2(params: {
-  chain: "BSC" | "ETH";
+  chain: ChainLabel;
   client: PublicClient;
   pair: `0x${string}`;
   token0: `0x${string}`;
@@ -83,22 +94,57 @@ export async function estimateMintUsdV2(params: {
   }
 }
 
-/** 更新 watchlist 的加池记录（在 V2 Mint 回调里调用） */
-export async function onV2MintRecord(key: string, usd?: number) {
+/**
+ * 更新 watchlist 的加池记录（在 V2 Mint 回调里调用）
+ * minter：加池交易的发起人，闸门没解析出部署者时记为部署者
+ */
+export async function onV2MintRecord(
+  key: string,
+  usd?: number,
+  minter?: `0x${string}`
+) {
+  const entry = watchlist.get(key);
+  if (minter && entry && !entry.meta.deployer) {
+    watchlist.patchMeta(key, { deployer: minter });
+    const token = launchedToken(entry.chain, entry.token0, entry.token1);
+    if (token && (entry.status === "active" || entry.status === "rejected")) {
+      recordDeployerToken({
+        chain: entry.chain,
+        token,
+        deployer: minter,
+        firstSeen: entry.firstSeen,
+        fault: isDeployerFault(entry.verdict),
+      });
+    }
+  }
   if (usd === undefined) return;
   watchlist.patchMeta(key, { lastMintUsd: usd });
 }
 
 /** 简易 LP 风险打分（越低越安全；仅用于闸门） */
 export async function lpRiskScore(params: {
-  chain: "BSC" | "ETH";
-  type: "v2" | "v3";
+  chain: ChainLabel;
+  client: PublicClient;
+  type: "v2" | "v3" | "v4";
   addr: `0x${string}`;
   token0: `0x${string}`;
   token1: `0x${string}`;
-}): Promise<{ score: number; notes: string[] }> {
+  ageMs?: number; // 市场自首次发现以来的时长；缺省按已过宽限期处理
+}): Promise<{
+  score: number;
+  notes: string[];
+  hardReject?: string;
+  lockPending?: boolean; // 宽限期内 LP 尚未销毁/锁仓（只提示）
+  lp?: LpHolderInfo;
+  source: "onchain" | "dexscreener"; // 分数里有 DexScreener 流动性加分时为 dexscreener
+}> {
   const notes: string[] = [];
   let score = 0;
+  let source: "onchain" | "dexscreener" = "onchain";
+  let hardReject: string | undefined;
+  let lockPending = false;
+  const inGrace =
+    params.ageMs !== undefined && params.ageMs < STRATEGY.LP_LOCK_GRACE_MS;
 
   // 基础：是否与基准币配对
   const basePaired = await isBasePaired(
@@ -120,9 +166,11 @@ export async function lpRiskScore(params: {
     if (Number.isFinite(liq) && liq > 0) {
       if (liq < 3000) {
         score += 2;
+        source = "dexscreener";
         notes.push(`low liq ${liq.toFixed(0)} USD`);
       } else if (liq < 8000) {
         score += 1;
+        source = "dexscreener";
         notes.push(`medium liq ${liq.toFixed(0)} USD`);
       } else {
         notes.push(`good liq ${liq.toFixed(0)} USD`);
@@ -130,5 +178,40 @@ export async function lpRiskScore(params: {
     }
   } catch {}
 
-  return { score, notes };
+  // LP 去向：销毁 / 锁仓 / 部署者手里
+  let lp: LpHolderInfo | undefined;
+  if (params.type === "v2") {
+    lp = await analyzeV2LpHolders({
+      chain: params.chain,
+      client: params.client,
+      pair: params.addr,
+    });
+  }
+  if (lp) {
+    const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+    const safe = lp.burnedPct + lp.lockedPct;
+    notes.push(
+      `LP burned ${pct(lp.burnedPct)}, locked ${pct(lp.lockedPct)}${
+        lp.lockers.length
+          ? ` (${lp.lockers.map((l) => `${l.name} ${pct(l.pct)}`).join(", ")})`
+          : ""
+      }`
+    );
+    if (safe < 0.5 && inGrace) {
+      lockPending = true;
+      notes.push("LP not burned/locked yet (grace period)");
+    } else if (safe < 0.5) {
+      score += 1;
+    }
+    if (lp.deployerPct !== undefined) {
+      notes.push(`LP deployer ${pct(lp.deployerPct)}`);
+      if (lp.deployerPct >= STRATEGY.LP_DEPLOYER_MAX_PCT && !inGrace) {
+        hardReject = `deployer holds ${pct(lp.deployerPct)} of LP (${
+          lp.deployer
+        })`;
+      }
+    }
+  }
+
+  return { score, notes, hardReject, lockPending, lp, source };
 }
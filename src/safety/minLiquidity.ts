@@ -3,15 +3,26 @@ import { PARSED_ABI } from "../chains/abis.js";
 import { getBaseTokenUsd, isBaseToken } from "../price/baseQuotes.js";
 import { STRATEGY } from "../config.js";
 import { fetchPairData } from "../datasources/dexScreener.js";
+import { quorumRead } from "../chains/rpcPool.js";
+import {
+  readV3PoolState,
+  readV4PoolState,
+  valueV3Pool,
+  valueV4Pool,
+} from "../metrics/liquidity.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /**
  * 计算当前池子的“可见美元流动性”并与阈值比较
  * - 优先：若一侧是基准币，读取 reserves 并按基准币 USD 折算
+ * - V3：按 slot0/liquidity/池子余额估算在区间流动性（见 hasMinLiquidityV3）
+ * - V4：经 extsload 读 PoolManager 里的 slot0/liquidity 估算在区间流动性（见 hasMinLiquidityV4）
  * - 否则：使用 DexScreener 的 liquidity.usd 作为兜底
+ * - reserves / 池子状态为闸门关键读取，开启 RPC_QUORUM 时需多端点一致
  */
 
 export async function hasMinLiquidityV2(params: {
-  chain: "BSC" | "ETH";
+  chain: ChainLabel;
   client: PublicClient;
   pair: `0x${string}`;
   token0: `0x${string}`;
@@ -22,12 +33,14 @@ export async function hasMinLiquidityV2(params: {
   const min = params.minUsd ?? STRATEGY.MIN_LIQ_USD;
 
   try {
-    const c = getContract({ address: pair, abi: PARSED_ABI.v2Pair, client });
-    const [r0, r1] = (await c.read.getReserves()) as unknown as [
-      bigint,
-      bigint,
-      number
-    ];
+    const [r0, r1] = (await quorumRead(chain, client, (c, blockNumber) =>
+      c.readContract({
+        address: pair,
+        abi: PARSED_ABI.v2Pair,
+        functionName: "getReserves",
+        blockNumber,
+      })
+    )) as unknown as [bigint, bigint, number];
 
     // 若 token1 是基准币：直接用 reserve1 × priceUsd
     if (isBaseToken(chain, token1)) {
@@ -72,20 +85,94 @@ export async function hasMinLiquidityV2(params: {
   return { ok: false, note: "unable to determine liquidity" };
 }
 
-/** V3 直接走 DexScreener 兜底（MVP 简化） */
+/**
+ * V3 链上估值：slot0 + liquidity + 池子余额（多端点一致读），按基准币折 USD
+ * - 闸门只看当前价位上的在区间流动性（区间外头寸吃不到成交）
+ * - 两侧都不是基准币时退回 DexScreener
+ */
 export async function hasMinLiquidityV3(params: {
-  chain: "BSC" | "ETH";
+  chain: ChainLabel;
+  client: PublicClient;
   pool: `0x${string}`;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
   minUsd?: number;
 }): Promise<{ ok: boolean; usd?: number; note?: string }> {
-  const { chain, pool } = params;
+  const { chain, client, pool, token0, token1 } = params;
   const min = params.minUsd ?? STRATEGY.MIN_LIQ_USD;
+
+  if (isBaseToken(chain, token0) || isBaseToken(chain, token1)) {
+    try {
+      const state = await quorumRead(chain, client, (c, blockNumber) =>
+        readV3PoolState(c, pool, token0, token1, blockNumber)
+      );
+      const value = await valueV3Pool({ chain, client, token0, token1, state });
+      if (value && Number.isFinite(value.inRangeUsd)) {
+        return {
+          ok: value.inRangeUsd >= min,
+          usd: value.inRangeUsd,
+          note: `v3 in-range liquidity (tvl≈$${Math.round(value.tvlUsd)})`,
+        };
+      }
+    } catch {}
+  }
+
+  return dexScreenerLiquidity(chain, pool, min, "v3");
+}
+
+/**
+ * V4 链上估值：PoolManager 里该 PoolId 的 slot0 + liquidity（多端点一致读），按基准币/原生币折 USD
+ * - 余额都在单例 PoolManager 里，只按当前 L 的虚拟储备计在区间流动性
+ * - 刚 Initialize 的池子 L 为 0，链上即可判定尚未加池，不必等 DexScreener 收录
+ * - 两侧都不是基准币时退回 DexScreener
+ */
+export async function hasMinLiquidityV4(params: {
+  chain: ChainLabel;
+  client: PublicClient;
+  poolManager: `0x${string}`;
+  poolId: `0x${string}`;
+  token0: `0x${string}`;
+  token1: `0x${string}`;
+  minUsd?: number;
+}): Promise<{ ok: boolean; usd?: number; note?: string }> {
+  const { chain, client, poolManager, poolId, token0, token1 } = params;
+  const min = params.minUsd ?? STRATEGY.MIN_LIQ_USD;
+
+  if (isBaseToken(chain, token0) || isBaseToken(chain, token1)) {
+    try {
+      const state = await quorumRead(chain, client, (c, blockNumber) =>
+        readV4PoolState(c, poolManager, poolId, blockNumber)
+      );
+      const value = await valueV4Pool({ chain, client, token0, token1, state });
+      if (value && Number.isFinite(value.inRangeUsd)) {
+        return {
+          ok: value.inRangeUsd >= min,
+          usd: value.inRangeUsd,
+          note: "v4 in-range liquidity",
+        };
+      }
+    } catch {}
+  }
+
+  return dexScreenerLiquidity(chain, poolId, min, "v4");
+}
+
+async function dexScreenerLiquidity(
+  chain: ChainLabel,
+  addr: `0x${string}`,
+  min: number,
+  type: "v3" | "v4"
+): Promise<{ ok: boolean; usd?: number; note?: string }> {
   try {
-    const data = await fetchPairData(chain, pool);
+    const data = await fetchPairData(chain, addr);
     const liq = Number(data?.pair?.liquidity?.usd ?? 0);
     if (Number.isFinite(liq) && liq > 0) {
-      return { ok: liq >= min, usd: liq, note: "dexscreener liquidity (v3)" };
+      return {
+        ok: liq >= min,
+        usd: liq,
+        note: `dexscreener liquidity (${type})`,
+      };
     }
   } catch {}
-  return { ok: false, note: "unable to determine liquidity (v3)" };
+  return { ok: false, note: `unable to determine liquidity (${type})` };
 }
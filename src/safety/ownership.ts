@@ -0,0 +1,209 @@
+import { PublicClient, keccak256, toHex, zeroAddress, zeroHash } from "viem";
+import { PARSED_ABI } from "../chains/abis.js";
+import { TTLStore } from "../state/stores.js";
+import type { ChainLabel } from "../chains/registry.js";
+
+/**
+ * 代币权限归属：
+ * - 依次读 owner() / getOwner()；0 地址或 dead 地址视为已放弃所有权
+ * - AccessControl：支持 IAccessControl 接口时读 DEFAULT_ADMIN / MINTER / PAUSER 角色成员
+ *   （需 Enumerable 才能列出成员；只支持接口时只记“有角色控制”）
+ * - 控制者分类：无代码 → EOA；有 getThreshold/getOwners → 多签；
+ *   有 getMinDelay/delay → 时间锁；其余为普通合约
+ * 读取全部失败不抛错，status = "none"（没有可识别的权限接口）
+ */
+
+export type ControllerKind = "eoa" | "multisig" | "timelock" | "contract";
+
+export interface Controller {
+  address: `0x${string}`;
+  kind: ControllerKind;
+  detail?: string; // 多签门限 / 时间锁延迟
+}
+
+export interface OwnershipInfo {
+  token: `0x${string}`;
+  status: "renounced" | "owned" | "roles" | "none";
+  owner?: Controller;
+  roles: Array<{ role: string; members: Controller[]; count?: number }>;
+}
+
+const DEAD_ADDRESSES = new Set([
+  zeroAddress,
+  "0x000000000000000000000000000000000000dead",
+]);
+
+const ACCESS_CONTROL_INTERFACE = "0x7965db0b";
+const ROLES = [
+  ["DEFAULT_ADMIN", zeroHash],
+  ["MINTER", keccak256(toHex("MINTER_ROLE"))],
+  ["PAUSER", keccak256(toHex("PAUSER_ROLE"))],
+] as const;
+const MAX_ROLE_MEMBERS = 3;
+
+const cache = new TTLStore<OwnershipInfo>(10 * 60_000);
+
+const isDead = (addr: string) => DEAD_ADDRESSES.has(addr.toLowerCase());
+
+/** 识别控制者类型：EOA / Safe 多签 / 时间锁 / 普通合约 */
+async function classify(
+  client: PublicClient,
+  address: `0x${string}`
+): Promise<Controller> {
+  const code = await client.getBytecode({ address }).catch(() => undefined);
+  if (!code || code === "0x") return { address, kind: "eoa" };
+
+  const read = (abi: any, functionName: string) =>
+    client
+      .readContract({ address, abi, functionName })
+      .then((v) => v as unknown)
+      .catch(() => undefined);
+  const [threshold, owners, minDelay, delay] = await Promise.all([
+    read(PARSED_ABI.safe, "getThreshold"),
+    read(PARSED_ABI.safe, "getOwners"),
+    read(PARSED_ABI.timelock, "getMinDelay"),
+    read(PARSED_ABI.timelock, "delay"),
+  ]);
+  if (typeof threshold === "bigint" && Array.isArray(owners)) {
+    return {
+      address,
+      kind: "multisig",
+      detail: `${threshold}/${owners.length}`,
+    };
+  }
+  const wait = typeof minDelay === "bigint" ? minDelay : delay;
+  if (typeof wait === "bigint") {
+    return {
+      address,
+      kind: "timelock",
+      detail: `${(Number(wait) / 3600).toFixed(1)}h`,
+    };
+  }
+  return { address, kind: "contract" };
+}
+
+async function readOwner(client: PublicClient, token: `0x${string}`) {
+  for (const functionName of ["owner", "getOwner"] as const) {
+    try {
+      return await client.readContract({
+        address: token,
+        abi: PARSED_ABI.ownable,
+        functionName,
+      });
+    } catch {}
+  }
+  return undefined;
+}
+
+async function readRoles(
+  client: PublicClient,
+  token: `0x${string}`
+): Promise<OwnershipInfo["roles"]> {
+  const supported = await client
+    .readContract({
+      address: token,
+      abi: PARSED_ABI.accessControl,
+      functionName: "supportsInterface",
+      args: [ACCESS_CONTROL_INTERFACE],
+    })
+    .catch(() => false);
+  if (!supported) return [];
+
+  const out: OwnershipInfo["roles"] = [];
+  for (const [role, hash] of ROLES) {
+    const count = await client
+      .readContract({
+        address: token,
+        abi: PARSED_ABI.accessControl,
+        functionName: "getRoleMemberCount",
+        args: [hash],
+      })
+      .catch(() => undefined);
+    if (count === undefined) {
+      // 非 Enumerable：无法列出成员，只记下角色体系存在
+      return [{ role: "AccessControl", members: [] }];
+    }
+    const members: Controller[] = [];
+    for (let i = 0n; i < count && i < BigInt(MAX_ROLE_MEMBERS); i++) {
+      const member = await client
+        .readContract({
+          address: token,
+          abi: PARSED_ABI.accessControl,
+          functionName: "getRoleMember",
+          args: [hash, i],
+        })
+        .catch(() => undefined);
+      if (member && !isDead(member)) {
+        members.push(await classify(client, member));
+      }
+    }
+    if (members.length) out.push({ role, members, count: Number(count) });
+  }
+  return out;
+}
+
+/** 读取代币的权限归属（带 10 分钟缓存） */
+export async function checkOwnership(
+  chain: ChainLabel,
+  client: PublicClient,
+  token: `0x${string}`
+): Promise<OwnershipInfo> {
+  const k = `${chain}:${token.toLowerCase()}`;
+  const hit = cache.get(k);
+  if (hit) return hit;
+
+  const [owner, roles] = await Promise.all([
+    readOwner(client, token),
+    readRoles(client, token),
+  ]);
+  const info: OwnershipInfo = {
+    token,
+    status:
+      owner !== undefined && !isDead(owner)
+        ? "owned"
+        : roles.length
+        ? "roles"
+        : owner !== undefined
+        ? "renounced"
+        : "none",
+    owner:
+      owner !== undefined && !isDead(owner)
+        ? await classify(client, owner)
+        : undefined,
+    roles,
+  };
+  cache.set(k, info);
+  return info;
+}
+
+/** 仍有人能行使特权（owner 未放弃，或存在角色成员 / 不可枚举的角色体系） */
+export const isControlled = (info: OwnershipInfo) =>
+  info.status === "owned" || info.status === "roles";
+
+const KIND_TEXT: Record<ControllerKind, string> = {
+  eoa: "EOA",
+  multisig: "多签",
+  timelock: "时间锁",
+  contract: "合约",
+};
+
+const describeController = (c: Controller) =>
+  `${KIND_TEXT[c.kind]}${c.detail ? ` ${c.detail}` : ""} ${c.address}`;
+
+/** 告警/闸门备注里的一行说明 */
+export function describeOwnership(info: OwnershipInfo) {
+  const parts: string[] = [];
+  if (info.owner) parts.push(`owner 为${describeController(info.owner)}`);
+  else if (info.status === "renounced") parts.push("已放弃所有权");
+  else if (info.status === "none") parts.push("无 owner 接口");
+  for (const r of info.roles) {
+    parts.push(
+      r.members.length
+        ? `${r.role} 角色：${r.members.map(describeController).join("、")}${
+            (r.count ?? 0) > r.members.length ? ` 等 ${r.count} 个` : ""
+          }`
+        : `${r.role} 角色（成员不可枚举）`
+    );
+  }
+  return parts.join("；");
+}
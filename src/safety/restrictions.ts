@@ -0,0 +1,205 @@
+import type { PublicClient } from "viem";
+import { PARSED_ABI } from "../chains/abis.js";
+
+/**
+ * 交易限制探测：
+ * - 依次试读常见 getter：单笔上限（_maxTxAmount 等）、持仓上限（maxWallet 等）、
+ *   交易开关（tradingEnabled / tradingOpen / tradingActive）、冷却（cooldownEnabled、transferDelayEnabled 等）
+ * - 上限折成 totalSupply 的占比；≥ 100% 视为已解除
+ * - 能模拟时确认上限：以池子为 from 做一次 transfer 模拟（等同一笔买入），
+ *   小额能转而“上限 + 1”被拒 → confirmed
+ * 读不到的项保持 undefined（不等于没有限制，只是合约没暴露 getter）
+ */
+
+export interface TradingLimits {
+  tradingOpen?: boolean;
+  maxTxPct?: number; // 0–1
+  maxWalletPct?: number; // 0–1
+  maxTxConfirmed?: boolean;
+  maxWalletConfirmed?: boolean;
+  cooldown?: boolean;
+  cooldownSec?: number;
+}
+
+type RestrictionGetter = (typeof PARSED_ABI.restrictions)[number]["name"];
+
+const MAX_TX_GETTERS: RestrictionGetter[] = [
+  "_maxTxAmount",
+  "maxTxAmount",
+  "maxTransactionAmount",
+  "maxBuyAmount",
+];
+const MAX_WALLET_GETTERS: RestrictionGetter[] = [
+  "_maxWalletSize",
+  "maxWallet",
+  "maxWalletSize",
+  "maxWalletAmount",
+  "_maxWalletToken",
+];
+const TRADING_GETTERS: RestrictionGetter[] = [
+  "tradingEnabled",
+  "tradingOpen",
+  "tradingActive",
+];
+const COOLDOWN_GETTERS: RestrictionGetter[] = [
+  "cooldownEnabled",
+  "buyCooldownEnabled",
+  "transferDelayEnabled",
+];
+
+// 模拟买入的接收方：与蜜罐模拟的合成钱包区分开
+const PROBE_RECEIVER = "0x7e57000000000000000000000000000000001111";
+
+/** 按顺序试读，返回第一个读得到的值 */
+async function readFirst(
+  client: PublicClient,
+  token: `0x${string}`,
+  names: RestrictionGetter[]
+) {
+  for (const functionName of names) {
+    try {
+      return (await client.readContract({
+        address: token,
+        abi: PARSED_ABI.restrictions,
+        functionName,
+      })) as bigint | boolean;
+    } catch {}
+  }
+  return undefined;
+}
+
+/** 只读交易开关（等待开盘时轮询用）；没有开关 getter 返回 undefined */
+export async function isTradingOpen(
+  client: PublicClient,
+  token: `0x${string}`
+) {
+  const v = await readFirst(client, token, TRADING_GETTERS);
+  return typeof v === "boolean" ? v : undefined;
+}
+
+/** 以 holder 为 from 模拟一次 transfer，能成功返回 true */
+async function canTransfer(
+  client: PublicClient,
+  token: `0x${string}`,
+  holder: `0x${string}`,
+  amount: bigint
+) {
+  try {
+    await client.simulateContract({
+      address: token,
+      abi: PARSED_ABI.erc20,
+      functionName: "transfer",
+      args: [PROBE_RECEIVER, amount],
+      account: holder,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 探测代币的交易限制
+ * holder：持有该代币的池子（V2 pair / V3 pool），用来模拟确认上限；不传则只读 getter
+ */
+export async function probeTradingLimits(params: {
+  client: PublicClient;
+  token: `0x${string}`;
+  holder?: `0x${string}`;
+}): Promise<TradingLimits> {
+  const { client, token, holder } = params;
+  const [totalSupply, maxTx, maxWallet, trading, cooldown, interval] =
+    await Promise.all([
+      client
+        .readContract({
+          address: token,
+          abi: PARSED_ABI.erc20,
+          functionName: "totalSupply",
+        })
+        .catch(() => undefined),
+      readFirst(client, token, MAX_TX_GETTERS),
+      readFirst(client, token, MAX_WALLET_GETTERS),
+      readFirst(client, token, TRADING_GETTERS),
+      readFirst(client, token, COOLDOWN_GETTERS),
+      readFirst(client, token, ["cooldownTimerInterval"]),
+    ]);
+
+  // 上限为 0 或 ≥ totalSupply 视为未设置/已解除
+  const limitOf = (v: unknown) =>
+    typeof v === "bigint" &&
+    totalSupply !== undefined &&
+    v > 0n &&
+    v < totalSupply
+      ? v
+      : undefined;
+  const txLimit = limitOf(maxTx);
+  const walletLimit = limitOf(maxWallet);
+  const pct = (v?: bigint) =>
+    v !== undefined && totalSupply
+      ? Number(v) / Number(totalSupply)
+      : undefined;
+
+  const limits: TradingLimits = {
+    tradingOpen: typeof trading === "boolean" ? trading : undefined,
+    maxTxPct: pct(txLimit),
+    maxWalletPct: pct(walletLimit),
+    cooldown: typeof cooldown === "boolean" ? cooldown : undefined,
+    cooldownSec:
+      typeof interval === "bigint" && interval > 0n
+        ? Number(interval)
+        : undefined,
+  };
+
+  // 模拟确认：交易未开启时池子转出必然失败，没有意义
+  if (holder && limits.tradingOpen !== false && (txLimit || walletLimit)) {
+    const poolBalance = await client
+      .readContract({
+        address: token,
+        abi: PARSED_ABI.erc20,
+        functionName: "balanceOf",
+        args: [holder],
+      })
+      .catch(() => 0n);
+    if (await canTransfer(client, token, holder, 1n)) {
+      const confirm = async (limit?: bigint) =>
+        limit !== undefined && poolBalance > limit
+          ? !(await canTransfer(client, token, holder, limit + 1n))
+          : undefined;
+      limits.maxTxConfirmed = await confirm(txLimit);
+      // 单笔上限更紧时，持仓上限 + 1 必然先撞上单笔上限，无法单独确认
+      if (!txLimit || (walletLimit !== undefined && walletLimit < txLimit)) {
+        limits.maxWalletConfirmed = await confirm(walletLimit);
+      }
+    }
+  }
+  return limits;
+}
+
+/** 告警/闸门备注里的一行说明；没有任何限制返回 undefined */
+export function describeTradingLimits(limits: TradingLimits) {
+  const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+  const parts: string[] = [];
+  if (limits.tradingOpen === false) parts.push("交易未开启");
+  if (limits.maxTxPct !== undefined) {
+    parts.push(
+      `单笔上限 ${pct(limits.maxTxPct)}${
+        limits.maxTxConfirmed ? "（模拟确认）" : ""
+      }`
+    );
+  }
+  if (limits.maxWalletPct !== undefined) {
+    parts.push(
+      `持仓上限 ${pct(limits.maxWalletPct)}${
+        limits.maxWalletConfirmed ? "（模拟确认）" : ""
+      }`
+    );
+  }
+  if (limits.cooldown) {
+    parts.push(
+      limits.cooldownSec !== undefined
+        ? `买卖冷却 ${limits.cooldownSec}s`
+        : "买卖冷却开启"
+    );
+  }
+  return parts.length ? parts.join("，") : undefined;
+}
@@ -1,70 +1,41 @@
 import { getContract, PublicClient } from "viem";
 import { PARSED_ABI } from "../chains/abis.js";
-import { CHAINS } from "../config.js";
+import { chainConfig } from "../config.js";
 import { getTokenDecimals } from "../price/reservesPrice.js";
 import { getBaseTokenUsd, isBaseToken } from "../price/baseQuotes.js";
 import { fetchPairData } from "../datasources/dexScreener.js";
-
-/** ---- 常用路由 / Factory / Quoter 地址 ---- */
-const Routers = {
-  BSC: {
-    v2: "0x10ED43C718714eb63d5aA57B78B54704E256024E", // Pancake V2 router
-  },
-  ETH: {
-    v2: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", // Uniswap V2 router
-  },
-} as const;
-
-const V3Factories = {
-  // PancakeSwap V3 Factory (BSC)
-  BSC: "0x1097053Fd2ea711dad45caCcc45EfF7548fCB362",
-  // Uniswap V3 Factory (Ethereum)
-  ETH: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
-} as const;
-
-const V3Quoters = {
-  // PancakeSwap V3 QuoterV2 (BSC)
-  BSC: "0x78Df70615ffc8066cC0887917f2Cd72092C86409",
-  // Uniswap V3 Quoter (Ethereum)
-  ETH: "0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6",
-} as const;
+import { findDex, type ChainLabel } from "../chains/registry.js";
 
 /** ---- 选择“常见基准币集合”做 V2 多路径枚举 ---- */
-function pickCommonBases(chain: "BSC" | "ETH"): `0x${string}`[] {
-  const base =
-    chain === "BSC" ? CHAINS.bsc.baseTokens : CHAINS.ethereum.baseTokens;
+function pickCommonBases(chain: ChainLabel): `0x${string}`[] {
+  const { baseTokens, wrappedNative, stables } = chainConfig(chain);
 
-  // 尝试按优先级组织：原生包裹币 → 主流稳定 → 其他
-  const order = ["WBNB", "WETH", "USDT", "USDC", "BUSD", "DAI"];
+  // 按优先级组织：原生包裹币 → 主流稳定 → 其他
   const got: `0x${string}`[] = [];
-
-  for (const k of order) {
-    const addr = (base as any)[k];
+  for (const k of [wrappedNative, ...stables]) {
+    const addr = baseTokens[k];
     if (addr) got.push(addr);
   }
   // 兜底：把剩余的（若有）也补上
-  for (const v of Object.values(base)) {
-    if (!got.includes(v as `0x${string}`)) got.push(v as `0x${string}`);
+  for (const v of Object.values(baseTokens)) {
+    if (!got.includes(v)) got.push(v);
   }
   // 去重
   return Array.from(new Set(got));
 }
 
 /** ---- 单一“首选基准币”（用于 sanity）---- */
-function pickBase(chain: "BSC" | "ETH"): `0x${string}` {
-  const base =
-    chain === "BSC" ? CHAINS.bsc.baseTokens : CHAINS.ethereum.baseTokens;
+function pickBase(chain: ChainLabel): `0x${string}` {
+  const { baseTokens, wrappedNative, stables } = chainConfig(chain);
   return (
-    (base as any).USDT ??
-    (base as any).USDC ??
-    (base as any).WBNB ??
-    (base as any).WETH ??
-    (Object.values(base)[0] as `0x${string}`)
+    baseTokens[stables[0]] ??
+    baseTokens[wrappedNative] ??
+    Object.values(baseTokens)[0]
   );
 }
 
 /** ---- DexScreener 旁证：最近是否有卖单（弱信号）---- */
-async function hasRecentSells(chain: "BSC" | "ETH", pool: `0x${string}`) {
+async function hasRecentSells(chain: ChainLabel, pool: `0x${string}`) {
   try {
     const data = await fetchPairData(chain, pool);
     const txns = data?.pair?.txns;
@@ -86,11 +57,13 @@ async function hasRecentSells(chain: "BSC" | "ETH", pool: `0x${string}`) {
  * 可卖性快速检查（V2，多路径枚举，静态只读）
  * - 会尝试 1 跳（token→base）与 2 跳（token→mid→dst）
  * - 任一路径返回正数，视为“存在可行路由”→ 弱肯定
+ * - 使用市场所属 DEX 的 router（未知时取链上主 V2 DEX）
  */
 export async function checkSellabilityV2(
-  chain: "BSC" | "ETH",
+  chain: ChainLabel,
   client: PublicClient,
-  token: `0x${string}`
+  token: `0x${string}`,
+  dex?: string
 ): Promise<{ ok: boolean; note?: string; path?: `0x${string}`[] }> {
   try {
     // token 本身就是基准币：视为可卖（换基准币没意义，但不阻断）
@@ -105,8 +78,11 @@ export async function checkSellabilityV2(
       return { ok: false, note: "no base USD quote" };
     }
 
+    const routerAddr = findDex(chainConfig(chain), "v2", dex)?.router;
+    if (!routerAddr) {
+      return { ok: false, note: `no V2 router for ${dex ?? chain}` };
+    }
     const bases = pickCommonBases(chain);
-    const routerAddr = chain === "BSC" ? Routers.BSC.v2 : Routers.ETH.v2;
 
     const router = getContract({
       address: routerAddr,
@@ -171,16 +147,21 @@ export async function checkSellabilityV2(
  * - DexScreener 最近卖单作为弱旁证
  */
 export async function checkSellabilityV3(params: {
-  chain: "BSC" | "ETH";
+  chain: ChainLabel;
   client: PublicClient;
   token0: `0x${string}`;
   token1: `0x${string}`;
   pool: `0x${string}`;
   fee?: number; // 若未传，默认 3000；也可外层循环 500/3000/10000
+  dex?: string; // registry 中的 DEX 名，决定 factory/quoter
 }): Promise<{ ok: boolean; note?: string; details?: any }> {
   try {
     const { chain, client, token0, token1 } = params;
     const fee = params.fee ?? 3000;
+    const v3 = findDex(chainConfig(chain), "v3", params.dex);
+    if (!v3) {
+      return { ok: false, note: `no V3 DEX for ${params.dex ?? chain}` };
+    }
 
     // 判定池内哪一侧是“基准币”；如果两边都不是或两边都是，策略如下：
     const is0Base = isBaseToken(chain, token0);
@@ -195,7 +176,7 @@ export async function checkSellabilityV3(params: {
       // 仍可检查 pool 与 fee 匹配性
       const poolOk = await verifyPool(
         client,
-        chain,
+        v3.factory,
         token0,
         token1,
         fee,
@@ -220,7 +201,7 @@ export async function checkSellabilityV3(params: {
     // 校验：factory.getPool(token0, token1, fee) 是否等于传入的 pool
     const poolCheck = await verifyPool(
       client,
-      chain,
+      v3.factory,
       token0,
       token1,
       fee,
@@ -234,17 +215,34 @@ export async function checkSellabilityV3(params: {
     const unit = 10n ** exp || 1n;
     const probes = [1n * unit, 10n * unit, 100n * unit];
 
-    const quoterAddr = V3Quoters[chain] as `0x${string}`;
     const results: Array<{ amtIn: bigint; out?: bigint; err?: string }> = [];
 
     for (const amt of probes) {
       try {
-        const out = (await client.readContract({
-          address: quoterAddr,
-          abi: PARSED_ABI.v3Quoter,
-          functionName: "quoteExactInputSingle",
-          args: [target, baseInPool, fee, amt, 0n],
-        })) as bigint;
+        const out =
+          v3.quoterVersion === 2
+            ? (
+                await client.readContract({
+                  address: v3.quoter,
+                  abi: PARSED_ABI.v3QuoterV2,
+                  functionName: "quoteExactInputSingle",
+                  args: [
+                    {
+                      tokenIn: target,
+                      tokenOut: baseInPool,
+                      amountIn: amt,
+                      fee,
+                      sqrtPriceLimitX96: 0n,
+                    },
+                  ],
+                })
+              )[0]
+            : await client.readContract({
+                address: v3.quoter,
+                abi: PARSED_ABI.v3Quoter,
+                functionName: "quoteExactInputSingle",
+                args: [target, baseInPool, fee, amt, 0n],
+              });
 
         results.push({ amtIn: amt, out });
       } catch (e: any) {
@@ -288,7 +286,7 @@ export async function checkSellabilityV3(params: {
 /** ---- 校验 Factory.getPool 与 fee 档匹配，并对 pool 地址做一致性检查 ---- */
 async function verifyPool(
   client: PublicClient,
-  chain: "BSC" | "ETH",
+  factory: `0x${string}`,
   token0: `0x${string}`,
   token1: `0x${string}`,
   fee: number,
@@ -301,7 +299,6 @@ async function verifyPool(
         ? [token0, token1]
         : [token1, token0];
 
-    const factory = V3Factories[chain] as `0x${string}`;
     const onChainPool = (await client.readContract({
       address: factory,
       abi: PARSED_ABI.v3Factory,
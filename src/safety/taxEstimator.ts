@@ -3,6 +3,7 @@ import {
   getV2RelativePrice,
   getV3RelativePrice,
 } from "../price/reservesPrice.js";
+import type { ChainLabel } from "../chains/registry.js";
 
 /**
  * 税率粗估（近似）：
@@ -15,8 +16,7 @@ import {
  * 该方法受池子深度/滑点影响，但在极端税/蜜罐场景会显著偏高，足以用于闸门剔除。
  */
 
-export type MarketType = "v2" | "v3";
-type ChainLabel = "BSC" | "ETH";
+export type MarketType = "v2" | "v3" | "v4";
 
 export interface TaxSample {
   ts: number;
@@ -67,7 +67,8 @@ export async function recordTaxApprox(params: {
   const { chain, type, addr, client, token0, token1, direction } = params;
   const k = key(chain, type, addr);
 
-  // mid price
+  // mid price（V4 暂不采样）
+  if (type === "v4") return;
   const rel =
     type === "v2"
       ? await getV2RelativePrice(client, addr as any, token0, token1)
@@ -0,0 +1,53 @@
+import { zeroAddress } from "viem";
+import { STRATEGY } from "../config.js";
+
+/**
+ * Uniswap V4 hooks 检查：
+ * - hooks 合约的权限由其地址低 14 位决定（PoolManager 按位调用），无需链上读取
+ * - 无 hooks（0 地址）直接通过
+ * - 返回 delta 的 hooks 可以改写成交结果（隐形抽税/拦截卖出），始终拒绝
+ * - 其余 hooks 默认拒绝，V4_ALLOW_HOOKS=true 时放行并在原因中标出
+ */
+
+const HOOK_FLAGS = [
+  [13, "beforeInitialize"],
+  [12, "afterInitialize"],
+  [11, "beforeAddLiquidity"],
+  [10, "afterAddLiquidity"],
+  [9, "beforeRemoveLiquidity"],
+  [8, "afterRemoveLiquidity"],
+  [7, "beforeSwap"],
+  [6, "afterSwap"],
+  [5, "beforeDonate"],
+  [4, "afterDonate"],
+  [3, "beforeSwapReturnDelta"],
+  [2, "afterSwapReturnDelta"],
+  [1, "afterAddLiquidityReturnDelta"],
+  [0, "afterRemoveLiquidityReturnDelta"],
+] as const;
+
+const RETURNS_DELTA_MASK = 0b1111n;
+
+/** 解析 hooks 地址上的权限位 */
+export function decodeHookFlags(hooks: `0x${string}`) {
+  const bits = BigInt(hooks) & 0x3fffn;
+  return {
+    bits,
+    flags: HOOK_FLAGS.filter(([bit]) => (bits >> BigInt(bit)) & 1n).map(
+      ([, name]) => name as string
+    ),
+    returnsDelta: (bits & RETURNS_DELTA_MASK) !== 0n,
+  };
+}
+
+export function checkV4Hooks(hooks?: `0x${string}`): {
+  ok: boolean;
+  note?: string;
+} {
+  if (!hooks || hooks.toLowerCase() === zeroAddress) return { ok: true };
+  const { flags, returnsDelta } = decodeHookFlags(hooks);
+  const note = `hooks ${hooks} [${flags.join(",") || "none"}]`;
+  if (returnsDelta) return { ok: false, note: `${note} 可改写成交结果` };
+  if (!STRATEGY.V4_ALLOW_HOOKS) return { ok: false, note };
+  return { ok: true, note };
+}
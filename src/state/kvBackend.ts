@@ -0,0 +1,233 @@
+import { Redis } from "ioredis";
+import { KV } from "../config.js";
+import { logger } from "../logger.js";
+import {
+  AsyncDedupSet,
+  AsyncKVStore,
+  AsyncTTLStore,
+  MemoryAsyncDedupSet,
+  MemoryAsyncKVStore,
+  MemoryAsyncTTLStore,
+} from "./stores.js";
+
+/**
+ * KV 后端选择（KV_BACKEND）：
+ * - memory（默认）：进程内 KVStore/TTLStore/DedupSet 的异步包装
+ * - redis：任意 RESP 兼容服务（Redis/KeyDB/Dragonfly…），多实例共享去重与缓存
+ *   键名 `${prefix}:${namespace}:${key}`，值为 JSON；TTL 直接映射为 PX 过期
+ * Redis 不可用时：每个实例退回自带的进程内存储（只记日志），不阻塞主流程；
+ *   恢复后重新读写 Redis，故障期间只写进内存的值不回灌
+ */
+
+let shared: Redis | undefined;
+
+function getRedis() {
+  if (!shared) {
+    shared = new Redis(KV.redisUrl, {
+      maxRetriesPerRequest: 2,
+      enableAutoPipelining: true,
+    });
+    shared.on("error", (err) =>
+      logger.warn(
+        { err: String(err?.message ?? err) },
+        "Redis connection error"
+      )
+    );
+  }
+  return shared;
+}
+
+/** 关闭共享连接（进程退出前调用） */
+export async function closeKvBackend() {
+  if (!shared) return;
+  const client = shared;
+  shared = undefined;
+  await client.quit().catch(() => client.disconnect());
+}
+
+abstract class RedisNamespace {
+  constructor(
+    protected client: Redis,
+    protected ns: string,
+    protected prefix = KV.prefix
+  ) {}
+
+  protected k(key: string) {
+    return `${this.prefix}:${this.ns}:${key}`;
+  }
+
+  /** 先走 Redis，失败时改由 fallback（进程内存储）完成同一操作 */
+  protected async safe<T>(
+    op: string,
+    fn: () => Promise<T>,
+    fallback: () => Promise<T>
+  ) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      logger.warn(
+        { ns: this.ns, op, err: String(err?.message ?? err) },
+        "Redis op failed, using in-memory fallback"
+      );
+      return fallback();
+    }
+  }
+}
+
+function decode<V>(raw: string | null): V | undefined {
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw) as V;
+  } catch {
+    return undefined;
+  }
+}
+
+export class RedisKVStore<V> extends RedisNamespace implements AsyncKVStore<V> {
+  private memory = new MemoryAsyncKVStore<V>();
+
+  get(key: string) {
+    return this.safe(
+      "get",
+      async () => decode<V>(await this.client.get(this.k(key))),
+      () => this.memory.get(key)
+    );
+  }
+  async set(key: string, v: V) {
+    await this.safe(
+      "set",
+      async () => {
+        await this.client.set(this.k(key), JSON.stringify(v));
+      },
+      () => this.memory.set(key, v)
+    );
+  }
+  has(key: string) {
+    return this.safe(
+      "has",
+      async () => (await this.client.exists(this.k(key))) > 0,
+      () => this.memory.has(key)
+    );
+  }
+  delete(key: string) {
+    return this.safe(
+      "delete",
+      async () => (await this.client.del(this.k(key))) > 0,
+      () => this.memory.delete(key)
+    );
+  }
+}
+
+export class RedisTTLStore<V>
+  extends RedisNamespace
+  implements AsyncTTLStore<V>
+{
+  private memory: MemoryAsyncTTLStore<V>;
+
+  constructor(
+    client: Redis,
+    ns: string,
+    private defaultTtlMs: number,
+    prefix?: string
+  ) {
+    super(client, ns, prefix);
+    this.memory = new MemoryAsyncTTLStore<V>(defaultTtlMs);
+  }
+
+  get(key: string) {
+    return this.safe(
+      "get",
+      async () => decode<V>(await this.client.get(this.k(key))),
+      () => this.memory.get(key)
+    );
+  }
+  async set(key: string, v: V, ttlMs?: number) {
+    const ttl = Math.max(1, Math.round(ttlMs ?? this.defaultTtlMs));
+    await this.safe(
+      "set",
+      async () => {
+        await this.client.set(this.k(key), JSON.stringify(v), "PX", ttl);
+      },
+      () => this.memory.set(key, v, ttl)
+    );
+  }
+  has(key: string) {
+    return this.safe(
+      "has",
+      async () => (await this.client.exists(this.k(key))) > 0,
+      () => this.memory.has(key)
+    );
+  }
+  delete(key: string) {
+    return this.safe(
+      "delete",
+      async () => (await this.client.del(this.k(key))) > 0,
+      () => this.memory.delete(key)
+    );
+  }
+}
+
+export class RedisDedupSet extends RedisNamespace implements AsyncDedupSet {
+  private memory: MemoryAsyncDedupSet;
+
+  constructor(
+    client: Redis,
+    ns: string,
+    private ttlMs = 0,
+    prefix?: string
+  ) {
+    super(client, ns, prefix);
+    this.memory = new MemoryAsyncDedupSet(ttlMs);
+  }
+
+  has(key: string) {
+    return this.safe(
+      "has",
+      async () => (await this.client.exists(this.k(key))) > 0,
+      () => this.memory.has(key)
+    );
+  }
+  add(key: string) {
+    // Redis 不可用时只在本进程内去重（跨实例可能重复处理，但不丢候选）
+    return this.safe(
+      "add",
+      async () => {
+        const res =
+          this.ttlMs > 0
+            ? await this.client.set(this.k(key), "1", "PX", this.ttlMs, "NX")
+            : await this.client.set(this.k(key), "1", "NX");
+        return res === "OK";
+      },
+      () => this.memory.add(key)
+    );
+  }
+  delete(key: string) {
+    return this.safe(
+      "delete",
+      async () => (await this.client.del(this.k(key))) > 0,
+      () => this.memory.delete(key)
+    );
+  }
+}
+
+/** —— 工厂：按 KV_BACKEND 创建，ns 用于隔离不同用途的键 —— */
+export function createKVStore<V>(ns: string): AsyncKVStore<V> {
+  return KV.backend === "redis"
+    ? new RedisKVStore<V>(getRedis(), ns)
+    : new MemoryAsyncKVStore<V>();
+}
+
+export function createTTLStore<V>(
+  ns: string,
+  defaultTtlMs: number
+): AsyncTTLStore<V> {
+  return KV.backend === "redis"
+    ? new RedisTTLStore<V>(getRedis(), ns, defaultTtlMs)
+    : new MemoryAsyncTTLStore<V>(defaultTtlMs);
+}
+
+export function createDedupSet(ns: string, ttlMs = 0): AsyncDedupSet {
+  return KV.backend === "redis"
+    ? new RedisDedupSet(getRedis(), ns, ttlMs)
+    : new MemoryAsyncDedupSet(ttlMs);
+}
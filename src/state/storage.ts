@@ -0,0 +1,383 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type BetterSqlite3 from "better-sqlite3";
+import { STORAGE } from "../config.js";
+import { logger } from "../logger.js";
+import { KVStore } from "./stores.js";
+import type { WatchEntry } from "./watchlist.js";
+import type { GateVerdict } from "../rules/verdict.js";
+
+/**
+ * 持久化存储抽象：
+ * - WatchEntry 记录（重启后恢复 active 市场并重新订阅）
+ * - 闸门结论、原因与逐项结论（每次 runGates 一条）
+ * - 已发送的告警
+ * - 部署者发过的币（每个代币一条：结局与存活时长，供部署者信誉统计）
+ * 默认内存实现（进程退出即丢失）；STORAGE=sqlite 时落盘到单文件 SQLite。
+ * 接口为同步调用，与 watchlist 的同步读写保持一致。
+ */
+
+export interface GateRecord {
+  key: string;
+  ts: number;
+  ok: boolean;
+  reasons: string[];
+  verdict?: GateVerdict; // 逐项结论（审计用）
+  context?: Record<string, unknown>;
+}
+
+export interface AlertRecord {
+  key: string;
+  ts: number;
+  level: string;
+  chain: string;
+  type: string;
+  addr: `0x${string}`;
+  headline: string;
+  body: string;
+  channels?: string[];
+}
+
+export interface DeployerTokenRecord {
+  key: string; // chain:token（同一代币的多个池子共用一条）
+  chain: string;
+  deployer: `0x${string}`; // 小写
+  firstSeen: number;
+  outcome: "active" | "rejected" | "rugged";
+  endedAt?: number; // 撤池时间
+}
+
+export interface Storage {
+  readonly kind: "memory" | "sqlite";
+  saveWatchEntry(entry: WatchEntry): void;
+  deleteWatchEntry(key: string): void;
+  loadWatchEntries(): WatchEntry[];
+  recordGateResult(rec: GateRecord): void;
+  lastGateResult(key: string): GateRecord | undefined;
+  recordAlert(rec: AlertRecord): void;
+  recentAlerts(key?: string, limit?: number): AlertRecord[];
+  saveDeployerToken(rec: DeployerTokenRecord): void;
+  getDeployerToken(key: string): DeployerTokenRecord | undefined;
+  deployerTokens(chain: string, deployer: `0x${string}`): DeployerTokenRecord[];
+  close(): void;
+}
+
+const MEMORY_HISTORY_LIMIT = 5_000;
+
+/** 内存实现：历史记录只保留最近 N 条 */
+export class MemoryStorage implements Storage {
+  readonly kind = "memory" as const;
+  private entries = new KVStore<WatchEntry>();
+  private gates: GateRecord[] = [];
+  private alerts: AlertRecord[] = [];
+  private deployers = new KVStore<DeployerTokenRecord>();
+
+  saveWatchEntry(entry: WatchEntry) {
+    this.entries.set(entry.key, structuredClone(entry));
+  }
+  deleteWatchEntry(key: string) {
+    this.entries.delete(key);
+  }
+  loadWatchEntries() {
+    return [...this.entries.values()].map((e) => structuredClone(e));
+  }
+  recordGateResult(rec: GateRecord) {
+    this.gates.push(rec);
+    if (this.gates.length > MEMORY_HISTORY_LIMIT) this.gates.shift();
+  }
+  lastGateResult(key: string) {
+    for (let i = this.gates.length - 1; i >= 0; i--) {
+      if (this.gates[i].key === key) return this.gates[i];
+    }
+    return undefined;
+  }
+  recordAlert(rec: AlertRecord) {
+    this.alerts.push(rec);
+    if (this.alerts.length > MEMORY_HISTORY_LIMIT) this.alerts.shift();
+  }
+  recentAlerts(key?: string, limit = 50) {
+    const out: AlertRecord[] = [];
+    for (let i = this.alerts.length - 1; i >= 0 && out.length < limit; i--) {
+      if (!key || this.alerts[i].key === key) out.push(this.alerts[i]);
+    }
+    return out;
+  }
+  saveDeployerToken(rec: DeployerTokenRecord) {
+    this.deployers.set(rec.key, { ...rec });
+  }
+  getDeployerToken(key: string) {
+    const rec = this.deployers.get(key);
+    return rec ? { ...rec } : undefined;
+  }
+  deployerTokens(chain: string, deployer: `0x${string}`) {
+    return [...this.deployers.values()]
+      .filter((r) => r.chain === chain && r.deployer === deployer)
+      .map((r) => ({ ...r }));
+  }
+  close() {}
+}
+
+function migrate(db: BetterSqlite3.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS watch_entries (
+      key TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      last_updated INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS gate_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      key TEXT NOT NULL,
+      ts INTEGER NOT NULL,
+      ok INTEGER NOT NULL,
+      reasons TEXT NOT NULL,
+      context TEXT,
+      verdict TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_gate_results_key ON gate_results (key, ts);
+    CREATE TABLE IF NOT EXISTS alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      key TEXT NOT NULL,
+      ts INTEGER NOT NULL,
+      level TEXT NOT NULL,
+      chain TEXT NOT NULL,
+      type TEXT NOT NULL,
+      addr TEXT NOT NULL,
+      headline TEXT NOT NULL,
+      body TEXT NOT NULL,
+      channels TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_alerts_key ON alerts (key, ts);
+    CREATE TABLE IF NOT EXISTS deployer_tokens (
+      key TEXT PRIMARY KEY,
+      chain TEXT NOT NULL,
+      deployer TEXT NOT NULL,
+      first_seen INTEGER NOT NULL,
+      outcome TEXT NOT NULL,
+      ended_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_deployer_tokens_deployer
+      ON deployer_tokens (chain, deployer);
+  `);
+  // 旧库的 gate_results 没有 verdict 列
+  const gateColumns = db
+    .prepare<[], { name: string }>(`PRAGMA table_info(gate_results)`)
+    .all();
+  if (!gateColumns.some((c) => c.name === "verdict")) {
+    db.exec(`ALTER TABLE gate_results ADD COLUMN verdict TEXT`);
+  }
+}
+
+/** 各表的行（列名即 SQL 列名） */
+interface WatchEntryRow {
+  data: string;
+}
+
+interface GateRow {
+  id: number;
+  key: string;
+  ts: number;
+  ok: number;
+  reasons: string;
+  context: string | null;
+  verdict: string | null;
+}
+
+interface AlertRow {
+  id: number;
+  key: string;
+  ts: number;
+  level: string;
+  chain: string;
+  type: string;
+  addr: `0x${string}`;
+  headline: string;
+  body: string;
+  channels: string | null;
+}
+
+interface DeployerTokenRow {
+  key: string;
+  chain: string;
+  deployer: `0x${string}`;
+  first_seen: number;
+  outcome: DeployerTokenRecord["outcome"];
+  ended_at: number | null;
+}
+
+function prepareStatements(db: BetterSqlite3.Database) {
+  return {
+    upsertEntry: db.prepare<{
+      key: string;
+      status: string;
+      lastUpdated: number;
+      data: string;
+    }>(
+      `INSERT INTO watch_entries (key, status, last_updated, data)
+       VALUES (@key, @status, @lastUpdated, @data)
+       ON CONFLICT(key) DO UPDATE SET
+         status = excluded.status,
+         last_updated = excluded.last_updated,
+         data = excluded.data`
+    ),
+    deleteEntry: db.prepare<[string]>(
+      `DELETE FROM watch_entries WHERE key = ?`
+    ),
+    allEntries: db.prepare<[], WatchEntryRow>(`SELECT data FROM watch_entries`),
+    insertGate: db.prepare<Omit<GateRow, "id">>(
+      `INSERT INTO gate_results (key, ts, ok, reasons, context, verdict)
+       VALUES (@key, @ts, @ok, @reasons, @context, @verdict)`
+    ),
+    lastGate: db.prepare<[string], GateRow>(
+      `SELECT * FROM gate_results WHERE key = ? ORDER BY ts DESC, id DESC LIMIT 1`
+    ),
+    insertAlert: db.prepare<Omit<AlertRow, "id">>(
+      `INSERT INTO alerts (key, ts, level, chain, type, addr, headline, body, channels)
+       VALUES (@key, @ts, @level, @chain, @type, @addr, @headline, @body, @channels)`
+    ),
+    recentAlerts: db.prepare<[number], AlertRow>(
+      `SELECT * FROM alerts ORDER BY ts DESC, id DESC LIMIT ?`
+    ),
+    recentAlertsByKey: db.prepare<[string, number], AlertRow>(
+      `SELECT * FROM alerts WHERE key = ? ORDER BY ts DESC, id DESC LIMIT ?`
+    ),
+    upsertDeployerToken: db.prepare<
+      Omit<DeployerTokenRecord, "endedAt"> & { endedAt: number | null }
+    >(
+      `INSERT INTO deployer_tokens (key, chain, deployer, first_seen, outcome, ended_at)
+       VALUES (@key, @chain, @deployer, @firstSeen, @outcome, @endedAt)
+       ON CONFLICT(key) DO UPDATE SET
+         deployer = excluded.deployer,
+         outcome = excluded.outcome,
+         ended_at = excluded.ended_at`
+    ),
+    getDeployerToken: db.prepare<[string], DeployerTokenRow>(
+      `SELECT * FROM deployer_tokens WHERE key = ?`
+    ),
+    deployerTokens: db.prepare<[string, string], DeployerTokenRow>(
+      `SELECT * FROM deployer_tokens WHERE chain = ? AND deployer = ?`
+    ),
+  };
+}
+
+const toDeployerToken = (r: DeployerTokenRow): DeployerTokenRecord => ({
+  key: r.key,
+  chain: r.chain,
+  deployer: r.deployer,
+  firstSeen: r.first_seen,
+  outcome: r.outcome,
+  endedAt: r.ended_at ?? undefined,
+});
+
+/** SQLite 实现（better-sqlite3，WAL 模式） */
+export class SqliteStorage implements Storage {
+  readonly kind = "sqlite" as const;
+  private stmts: ReturnType<typeof prepareStatements>;
+
+  constructor(private db: BetterSqlite3.Database) {
+    db.pragma("journal_mode = WAL");
+    db.pragma("synchronous = NORMAL");
+    migrate(db);
+    this.stmts = prepareStatements(db);
+  }
+
+  saveWatchEntry(entry: WatchEntry) {
+    this.stmts.upsertEntry.run({
+      key: entry.key,
+      status: entry.status,
+      lastUpdated: entry.lastUpdated,
+      data: JSON.stringify(entry),
+    });
+  }
+  deleteWatchEntry(key: string) {
+    this.stmts.deleteEntry.run(key);
+  }
+  loadWatchEntries() {
+    const rows = this.stmts.allEntries.all();
+    return rows.map((r) => JSON.parse(r.data) as WatchEntry);
+  }
+  recordGateResult(rec: GateRecord) {
+    this.stmts.insertGate.run({
+      key: rec.key,
+      ts: rec.ts,
+      ok: rec.ok ? 1 : 0,
+      reasons: JSON.stringify(rec.reasons),
+      context: rec.context ? JSON.stringify(rec.context) : null,
+      verdict: rec.verdict ? JSON.stringify(rec.verdict) : null,
+    });
+  }
+  lastGateResult(key: string) {
+    const row = this.stmts.lastGate.get(key);
+    if (!row) return undefined;
+    const rec: GateRecord = {
+      key: row.key,
+      ts: row.ts,
+      ok: !!row.ok,
+      reasons: JSON.parse(row.reasons),
+      verdict: row.verdict ? JSON.parse(row.verdict) : undefined,
+      context: row.context ? JSON.parse(row.context) : undefined,
+    };
+    return rec;
+  }
+  recordAlert(rec: AlertRecord) {
+    this.stmts.insertAlert.run({
+      ...rec,
+      channels: rec.channels ? JSON.stringify(rec.channels) : null,
+    });
+  }
+  recentAlerts(key?: string, limit = 50) {
+    const rows = key
+      ? this.stmts.recentAlertsByKey.all(key, limit)
+      : this.stmts.recentAlerts.all(limit);
+    return rows.map(
+      (r): AlertRecord => ({
+        key: r.key,
+        ts: r.ts,
+        level: r.level,
+        chain: r.chain,
+        type: r.type,
+        addr: r.addr,
+        headline: r.headline,
+        body: r.body,
+        channels: r.channels ? JSON.parse(r.channels) : undefined,
+      })
+    );
+  }
+  saveDeployerToken(rec: DeployerTokenRecord) {
+    this.stmts.upsertDeployerToken.run({
+      ...rec,
+      endedAt: rec.endedAt ?? null,
+    });
+  }
+  getDeployerToken(key: string) {
+    const row = this.stmts.getDeployerToken.get(key);
+    return row ? toDeployerToken(row) : undefined;
+  }
+  deployerTokens(chain: string, deployer: `0x${string}`) {
+    const rows = this.stmts.deployerTokens.all(chain, deployer);
+    return rows.map(toDeployerToken);
+  }
+  close() {
+    this.db.close();
+  }
+}
+
+let current: Storage = new MemoryStorage();
+
+/** 当前生效的存储（initStorage 之前为内存实现） */
+export function getStorage() {
+  return current;
+}
+
+/** 按配置打开存储；SQLite 驱动为原生模块，仅在需要时加载 */
+export async function initStorage(cfg = STORAGE): Promise<Storage> {
+  if (cfg.kind === "sqlite") {
+    const { default: Database } = await import("better-sqlite3");
+    mkdirSync(dirname(cfg.sqlitePath), { recursive: true });
+    current = new SqliteStorage(new Database(cfg.sqlitePath));
+    logger.info({ path: cfg.sqlitePath }, "SQLite storage opened");
+  } else {
+    current = new MemoryStorage();
+  }
+  return current;
+}
@@ -84,3 +84,82 @@ export class DedupSet {
     return this.m.delete(key);
   }
 }
+
+/**
+ * —— 异步接口 ——
+ * 供可共享后端（Redis 等）使用；内存版本通过下方适配器包装同步实现，
+ * 调用方统一 await，切换后端不用改业务代码。
+ */
+export interface AsyncKVStore<V> {
+  get(key: string): Promise<V | undefined>;
+  set(key: string, v: V): Promise<void>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+}
+
+export interface AsyncTTLStore<V> {
+  get(key: string): Promise<V | undefined>;
+  set(key: string, v: V, ttlMs?: number): Promise<void>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+}
+
+export interface AsyncDedupSet {
+  has(key: string): Promise<boolean>;
+  /** 原子地加入；返回 true 表示此前不存在（多实例下用于“认领”） */
+  add(key: string): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+}
+
+export class MemoryAsyncKVStore<V> implements AsyncKVStore<V> {
+  private inner = new KVStore<V>();
+  async get(key: string) {
+    return this.inner.get(key);
+  }
+  async set(key: string, v: V) {
+    this.inner.set(key, v);
+  }
+  async has(key: string) {
+    return this.inner.has(key);
+  }
+  async delete(key: string) {
+    return this.inner.delete(key);
+  }
+}
+
+export class MemoryAsyncTTLStore<V> implements AsyncTTLStore<V> {
+  private inner: TTLStore<V>;
+  constructor(defaultTtlMs: number) {
+    this.inner = new TTLStore<V>(defaultTtlMs);
+  }
+  async get(key: string) {
+    return this.inner.get(key);
+  }
+  async set(key: string, v: V, ttlMs?: number) {
+    this.inner.set(key, v, ttlMs);
+  }
+  async has(key: string) {
+    return this.inner.has(key);
+  }
+  async delete(key: string) {
+    return this.inner.delete(key);
+  }
+}
+
+export class MemoryAsyncDedupSet implements AsyncDedupSet {
+  private inner: DedupSet;
+  constructor(ttlMs = 0) {
+    this.inner = new DedupSet(ttlMs);
+  }
+  async has(key: string) {
+    return this.inner.has(key);
+  }
+  async add(key: string) {
+    if (this.inner.has(key)) return false;
+    this.inner.add(key);
+    return true;
+  }
+  async delete(key: string) {
+    return this.inner.delete(key);
+  }
+}
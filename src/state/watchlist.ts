@@ -1,26 +1,52 @@
 import { KVStore } from "./stores.js";
+import { getStorage } from "./storage.js";
+import type { ChainLabel } from "../chains/registry.js";
+import type { TradingLimits } from "../safety/restrictions.js";
+import type { GateVerdict } from "../rules/verdict.js";
 
-export type ChainLabel = "BSC" | "ETH";
-export type MarketType = "v2" | "v3";
+export type { ChainLabel };
 
-export type WatchStatus = "pending" | "active" | "rejected";
+export type MarketType = "v2" | "v3" | "v4";
+
+export type WatchStatus =
+  | "pending"
+  | "pending-liquidity" // 只因流动性不足未过闸门，等待加池后重跑
+  | "active"
+  | "rejected";
 
 export interface WatchEntry {
   key: string; // `${chain}:${type}:${addr}`
   chain: ChainLabel;
   type: MarketType;
-  address: `0x${string}`; // pair（v2）或 pool（v3）
-  token0: `0x${string}`;
+  dex?: string; // 所属 DEX（registry 中的 name）；旧记录可能缺失，按链上主 DEX 处理
+  address: `0x${string}`; // pair（v2）、pool（v3）或 PoolId（v4，bytes32）
+  token0: `0x${string}`; // v4 中 0 地址表示原生币
   token1: `0x${string}`;
-  fee?: number; // v3 可选
+  fee?: number; // v3/v4 可选
+  tickSpacing?: number; // v4：与 fee/hooks 一起构成 PoolKey
+  hooks?: `0x${string}`; // v4：hooks 合约（0 地址 = 无）
   firstSeen: number; // ts
   lastUpdated: number;
   status: WatchStatus;
   reason?: string; // 被拒绝原因或备注
+  verdict?: GateVerdict; // 最近一次闸门的逐项结论（放行/拒绝的依据）
   meta: {
     lastMintUsd?: number; // 最近一次加池美元值（给权重加分）
     baseTokenHint?: `0x${string}`; // 识别哪个是主流基准币（价格换算用的“报价资产”）
-    liquidityUsd?: number; // 激活时可见的 LP 美元
+    liquidityUsd?: number; // 可见的 LP 美元（激活时写入，V2 随 Sync 实时更新）
+    lastBurnUsd?: number; // 最近一次撤池美元值
+    simBuyTax?: number; // 闸门买卖模拟实测的买入税（0–1）
+    simSellTax?: number; // 同上，卖出税
+    riskFlags?: string[]; // 代币字节码风险标记（如 "可增发(3)"）
+    riskScore?: number; // 风险权重之和
+    ownership?: string; // 权限归属说明（owner / 角色成员）
+    ownerDowngrade?: boolean; // 未放弃权限且可增发：告警最高 normal
+    holders?: string; // 持仓分布说明（前十 / 部署者占比、持有人数）
+    holderWarnings?: string[]; // 持仓过于集中的项（HOLDER_POLICY=flag 时放行并标出）
+    deployer?: `0x${string}`; // 代币部署者（闸门解析，或首次加池交易的发起人）
+    deployerVerdict?: "new" | "neutral" | "good" | "bad"; // 部署者信誉
+    deployerSummary?: string; // 部署者历史说明
+    tradingLimits?: TradingLimits; // 交易限制（单笔/持仓上限、冷却、交易开关）
   };
 }
 
@@ -33,9 +59,18 @@ export function marketKey(
   return `${chain}:${type}:${address.toLowerCase()}`;
 }
 
-/** Watchlist in-memory 实现 */
+/** meta 变更延迟落盘的间隔（同一条目在此期间的多次 patchMeta 合并为一次写入） */
+const META_FLUSH_MS = 5_000;
+
+/**
+ * Watchlist in-memory 实现：
+ * - 状态、闸门结论等变更立即写穿到 getStorage()
+ * - patchMeta（V2 每条 Sync 都会写回流动性）只标脏，定时批量落盘，不在事件回调里同步写库
+ */
 class WatchlistStore {
   private store = new KVStore<WatchEntry>();
+  private dirty = new Set<string>(); // meta 已改、尚未落盘的条目
+  private flushTimer: NodeJS.Timeout | undefined;
   constructor(
     private activeTtlMs = 24 * 60 * 60_000,
     private inactiveTtlMs = 60 * 60_000
@@ -58,6 +93,7 @@ class WatchlistStore {
       meta: {},
     };
     this.store.set(key, entry);
+    this.persist(entry);
     return entry;
   }
 
@@ -75,6 +111,7 @@ class WatchlistStore {
     e.status = "active";
     e.lastUpdated = Date.now();
     e.meta = { ...e.meta, ...(patch ?? {}) };
+    this.persist(e);
   }
 
   /** 未通过闸门，拒绝并附带原因 */
@@ -84,14 +121,50 @@ class WatchlistStore {
     e.status = "rejected";
     e.reason = reason;
     e.lastUpdated = Date.now();
+    this.persist(e);
+  }
+
+  /** 记录最近一次闸门的逐项结论 */
+  setVerdict(key: string, verdict: GateVerdict) {
+    const e = this.store.get(key);
+    if (!e) return;
+    e.verdict = verdict;
+    e.lastUpdated = Date.now();
+    this.persist(e);
   }
 
-  /** 更新附加元信息（例如记录一次大额加池） */
+  /** 只因最小流动性未过闸门：转入等待加池（不计入拒绝） */
+  awaitLiquidity(key: string, reason: string) {
+    const e = this.store.get(key);
+    if (!e) return;
+    e.status = "pending-liquidity";
+    e.reason = reason;
+    e.lastUpdated = Date.now();
+    this.persist(e);
+  }
+
+  /** 更新附加元信息（例如记录一次大额加池）；延迟落盘，见 flush */
   patchMeta(key: string, patch: Partial<WatchEntry["meta"]>) {
     const e = this.store.get(key);
     if (!e) return;
     e.meta = { ...e.meta, ...patch };
     e.lastUpdated = Date.now();
+    this.dirty.add(key);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), META_FLUSH_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  /** 把延迟的 meta 变更写入存储（定时触发；进程退出前也要调用） */
+  flush() {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    for (const key of this.dirty) {
+      const e = this.store.get(key);
+      if (e) getStorage().saveWatchEntry(e);
+    }
+    this.dirty.clear();
   }
 
   list(status?: WatchStatus) {
@@ -102,18 +175,51 @@ class WatchlistStore {
     return out;
   }
 
-  /** 清理过期条目，返回被移除的 key */
+  /** 清理过期条目，返回被移除的 key（等待加池的条目由 pendingLiquidity 按截止时间处理） */
   sweep(now = Date.now()) {
     const removed: string[] = [];
     for (const [key, entry] of this.store.entries()) {
+      if (entry.status === "pending-liquidity") continue;
       const ttl = entry.status === "active" ? this.activeTtlMs : this.inactiveTtlMs;
       if (now - entry.lastUpdated > ttl) {
         this.store.delete(key);
+        this.dirty.delete(key);
+        getStorage().deleteWatchEntry(key);
         removed.push(key);
       }
     }
     return removed;
   }
+
+  /**
+   * 从持久化记录恢复（启动时调用）：
+   * - 过期条目直接清掉
+   * - pending / pending-liquidity 条目丢弃（闸门未跑完或加池订阅已断，等重新发现后再跑）
+   * 返回恢复进内存的条目
+   */
+  restore(entries: WatchEntry[], now = Date.now()) {
+    const restored: WatchEntry[] = [];
+    for (const entry of entries) {
+      const ttl =
+        entry.status === "active" ? this.activeTtlMs : this.inactiveTtlMs;
+      if (
+        entry.status === "pending" ||
+        entry.status === "pending-liquidity" ||
+        now - entry.lastUpdated > ttl
+      ) {
+        getStorage().deleteWatchEntry(entry.key);
+        continue;
+      }
+      this.store.set(entry.key, entry);
+      restored.push(entry);
+    }
+    return restored;
+  }
+
+  private persist(entry: WatchEntry) {
+    this.dirty.delete(entry.key); // 整条写入，已包含未落盘的 meta
+    getStorage().saveWatchEntry(entry);
+  }
 }
 
 export const watchlist = new WatchlistStore();
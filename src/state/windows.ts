@@ -1,3 +1,8 @@
+import { DedupSet } from "./stores.js";
+import type { ChainLabel } from "../chains/registry.js";
+
+export type { ChainLabel };
+
 /**
  * 交易滑动窗口（USD 维度）
  * - 记录 10 分钟内的成交摘要（按“事件粒度”，而非按固定分桶存储）
@@ -7,16 +12,18 @@
  * 说明：
  * - 价格换算（token -> USD）不在这里做；调用方传入已折算好的 usd 值
  * - “买入/卖出”由上游根据路径/方向判断（比如以“目标token”为基准）
+ * - 链重组：每笔成交可带 id（blockHash:txHash:logIndex），日志被 removed 时按 id 撤回
  */
 
-export type ChainLabel = "BSC" | "ETH";
-export type MarketType = "v2" | "v3";
+// curve：发射台联合曲线上的成交（addr 为 token 地址）
+export type MarketType = "v2" | "v3" | "v4" | "curve";
 
 export interface TradeEvent {
   ts: number;
   usd: number; // 该笔成交折合 USD
   isBuy: boolean; // 是否买入“目标token”
   buyer?: `0x${string}`; // 用于去重统计独立买家
+  id?: string; // 来源日志标识，重组撤回用
 }
 
 class SlidingWindow {
@@ -42,6 +49,17 @@ class SlidingWindow {
     if (this.events.length % 128 === 0) this.prune(ev.ts);
   }
 
+  /** 撤回一笔成交（日志被重组移除）；返回是否找到 */
+  retract(id: string) {
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      if (this.events[i].id === id) {
+        this.events.splice(i, 1);
+        return true;
+      }
+    }
+    return false;
+  }
+
   /** 最近 X 毫秒内的聚合 */
   private aggregateWithin(ms: number, now = Date.now()) {
     const start = now - ms;
@@ -108,6 +126,8 @@ class SlidingWindow {
 /** 多市场窗口管理 */
 class WindowsManager {
   private m = new Map<string, SlidingWindow>();
+  // 先于成交落窗到达的撤回（USD 折算是异步的），落窗时直接丢弃
+  private retracted = new DedupSet(10 * 60_000);
   constructor(
     private keepMs = 10 * 60_000,
     private idleDropMs = 2 * 60 * 60_000
@@ -136,15 +156,30 @@ class WindowsManager {
     isBuy: boolean;
     buyer?: `0x${string}`;
     ts?: number;
+    id?: string;
   }) {
+    if (params.id && this.retracted.has(params.id)) return false;
     const w = this.get(params.chain, params.type, params.addr);
     w.record({
       ts: params.ts ?? Date.now(),
       usd: params.usd,
       isBuy: params.isBuy,
       buyer: params.buyer,
+      id: params.id,
     });
     this.pruneIdle();
+    return true;
+  }
+
+  /** 撤回一笔已记录（或尚未落窗）的成交 */
+  retractTrade(
+    chain: ChainLabel,
+    type: MarketType,
+    addr: `0x${string}`,
+    id: string
+  ) {
+    this.retracted.add(id);
+    return this.m.get(this.key(chain, type, addr))?.retract(id) ?? false;
   }
 
   /** 快捷查询：1 分钟聚合 */
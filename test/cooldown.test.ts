@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AlertThrottle } from "../src/rules/cooldown.js";
+
+const COOLDOWN = 60_000;
+
+describe("AlertThrottle.decide", () => {
+  it("sends the first alert and suppresses repeats within the cooldown", () => {
+    const t = new AlertThrottle(COOLDOWN, 0);
+    assert.deepEqual(t.decide("m", "normal", { hitVol: true }, 0), {
+      action: "send",
+      reason: "first",
+      suppressed: 0,
+    });
+    assert.deepEqual(t.decide("m", "normal", { hitVol: true }, 1_000), {
+      action: "suppress",
+      suppressed: 1,
+    });
+    assert.deepEqual(t.decide("m", "normal", {}, 2_000), {
+      action: "suppress",
+      suppressed: 2,
+    });
+  });
+
+  it("lets an escalation through and carries the suppressed count", () => {
+    const t = new AlertThrottle(COOLDOWN, 0);
+    t.decide("m", "normal", {}, 0);
+    t.decide("m", "normal", {}, 1_000);
+    assert.deepEqual(t.decide("m", "strong", {}, 2_000), {
+      action: "send",
+      reason: "escalated",
+      suppressed: 1,
+    });
+    // 已升到 strong：再来 normal 不算升级
+    assert.equal(t.decide("m", "normal", {}, 3_000).action, "suppress");
+  });
+
+  it("lets a new trigger flag through once", () => {
+    const t = new AlertThrottle(COOLDOWN, 0);
+    t.decide("m", "normal", { hitVol: true }, 0);
+    assert.deepEqual(
+      t.decide("m", "normal", { hitVol: true, hitWhale: true }, 1_000),
+      { action: "send", reason: "newFlags", suppressed: 0 }
+    );
+    assert.equal(
+      t.decide("m", "normal", { hitWhale: true }, 2_000).action,
+      "suppress"
+    );
+    // false 的 flag 不算触发
+    assert.equal(
+      t.decide("m", "normal", { hitFdv: false }, 3_000).action,
+      "suppress"
+    );
+  });
+
+  it("emits a digest after N suppressions and restarts the count", () => {
+    const t = new AlertThrottle(COOLDOWN, 3);
+    t.decide("m", "normal", {}, 0);
+    assert.equal(t.decide("m", "normal", {}, 1).action, "suppress");
+    assert.equal(t.decide("m", "normal", {}, 2).action, "suppress");
+    assert.deepEqual(t.decide("m", "normal", {}, 3), {
+      action: "digest",
+      suppressed: 3,
+    });
+    assert.deepEqual(t.decide("m", "normal", {}, 4), {
+      action: "suppress",
+      suppressed: 1,
+    });
+  });
+
+  it("sends again after the cooldown with the suppressed count", () => {
+    const t = new AlertThrottle(COOLDOWN, 0);
+    t.decide("m", "strong", {}, 0);
+    t.decide("m", "normal", {}, 1_000);
+    t.decide("m", "normal", {}, 2_000);
+    assert.deepEqual(t.decide("m", "normal", {}, COOLDOWN), {
+      action: "send",
+      reason: "cooldown",
+      suppressed: 2,
+    });
+    // 冷却重置后级别从 normal 重新起算
+    assert.equal(t.decide("m", "strong", {}, COOLDOWN + 1).action, "send");
+  });
+
+  it("keeps markets independent and forgets state", () => {
+    const t = new AlertThrottle(COOLDOWN, 0);
+    t.decide("a", "normal", {}, 0);
+    assert.equal(t.decide("b", "normal", {}, 1).action, "send");
+    t.forget("a");
+    assert.deepEqual(t.decide("a", "normal", {}, 2), {
+      action: "send",
+      reason: "first",
+      suppressed: 0,
+    });
+  });
+});
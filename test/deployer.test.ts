@@ -0,0 +1,151 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { STRATEGY } from "../src/config.js";
+import {
+  deployerReputation,
+  isDeployerFault,
+  markDeployerRugged,
+  recordDeployerToken,
+} from "../src/safety/deployer.js";
+
+/**
+ * 部署者信誉：STORAGE=memory，每个用例用不同的部署者地址互不干扰
+ * 阈值按默认配置：撤池 2 次 / 占比 0.6 → bad，3 个币无坏结局 → good
+ */
+
+const addr = (n: number) =>
+  `0x${n.toString(16).padStart(40, "0")}` as `0x${string}`;
+
+let next = 1;
+/** 给部署者发 n 个币，返回代币地址 */
+function launch(deployer: `0x${string}`, n: number, fault = false) {
+  return Array.from({ length: n }, () => {
+    const token = addr(0x1000 + next++);
+    recordDeployerToken({
+      chain: "BSC",
+      token,
+      deployer,
+      firstSeen: Date.now() - 60_000,
+      fault,
+    });
+    return token;
+  });
+}
+
+describe("deployerReputation", () => {
+  it("is new without history and neutral below the good threshold", () => {
+    const deployer = addr(1);
+    assert.equal(deployerReputation("BSC", deployer).verdict, "new");
+    launch(deployer, STRATEGY.DEPLOYER_GOOD_MIN_TOKENS - 1);
+    const rep = deployerReputation("BSC", deployer);
+    assert.equal(rep.verdict, "neutral");
+    assert.equal(rep.launched, STRATEGY.DEPLOYER_GOOD_MIN_TOKENS - 1);
+  });
+
+  it("is good after enough clean launches", () => {
+    const deployer = addr(2);
+    launch(deployer, STRATEGY.DEPLOYER_GOOD_MIN_TOKENS);
+    const rep = deployerReputation("BSC", deployer);
+    assert.equal(rep.verdict, "good");
+    assert.ok(rep.avgLifetimeMs !== undefined && rep.avgLifetimeMs >= 60_000);
+  });
+
+  it("is bad once rugs reach the limit, regardless of ratio", () => {
+    const deployer = addr(3);
+    const tokens = launch(deployer, 10);
+    for (const t of tokens.slice(0, STRATEGY.DEPLOYER_REJECT_RUGS - 1)) {
+      markDeployerRugged("BSC", t);
+    }
+    assert.notEqual(deployerReputation("BSC", deployer).verdict, "bad");
+    markDeployerRugged("BSC", tokens[9]);
+    const rep = deployerReputation("BSC", deployer);
+    assert.equal(rep.rugged, STRATEGY.DEPLOYER_REJECT_RUGS);
+    assert.equal(rep.verdict, "bad");
+  });
+
+  it("is bad when rejected + rugged share reaches the ratio", () => {
+    const deployer = addr(4);
+    launch(deployer, 2);
+    // 不足 3 个币不看占比
+    launch(addr(5), 2, true);
+    assert.equal(deployerReputation("BSC", addr(5)).verdict, "neutral");
+    launch(deployer, 3, true);
+    const rep = deployerReputation("BSC", deployer);
+    assert.equal(rep.rejected, 3);
+    assert.equal(rep.verdict, "bad"); // 3 / 5 = 0.6
+  });
+
+  it("excludes the token being gated", () => {
+    const deployer = addr(6);
+    const tokens = launch(deployer, STRATEGY.DEPLOYER_GOOD_MIN_TOKENS);
+    const rep = deployerReputation("BSC", deployer, tokens[0]);
+    assert.equal(rep.launched, STRATEGY.DEPLOYER_GOOD_MIN_TOKENS - 1);
+    assert.equal(rep.verdict, "neutral");
+    // 地址大小写不影响匹配
+    assert.equal(
+      deployerReputation(
+        "BSC",
+        deployer,
+        tokens[0].toUpperCase().replace("0X", "0x") as `0x${string}`
+      ).launched,
+      STRATEGY.DEPLOYER_GOOD_MIN_TOKENS - 1
+    );
+  });
+});
+
+describe("recordDeployerToken", () => {
+  it("counts each token once and keeps a fault or rug outcome", () => {
+    const deployer = addr(7);
+    const [token] = launch(deployer, 1, true);
+    // 同一代币另一个池子通过闸门：不改回 active
+    recordDeployerToken({
+      chain: "BSC",
+      token,
+      deployer,
+      firstSeen: Date.now(),
+      fault: false,
+    });
+    let rep = deployerReputation("BSC", deployer);
+    assert.equal(rep.launched, 1);
+    assert.equal(rep.rejected, 1);
+
+    const [other] = launch(deployer, 1);
+    markDeployerRugged("BSC", other);
+    recordDeployerToken({
+      chain: "BSC",
+      token: other,
+      deployer,
+      firstSeen: Date.now(),
+      fault: true,
+    });
+    rep = deployerReputation("BSC", deployer);
+    assert.equal(rep.rugged, 1);
+    assert.equal(rep.rejected, 1);
+  });
+});
+
+describe("isDeployerFault", () => {
+  it("only counts failed deployer checks", () => {
+    assert.equal(isDeployerFault(undefined), false);
+    assert.equal(
+      isDeployerFault({
+        ok: false,
+        ts: 0,
+        checks: [
+          { id: "minLiquidity", status: "fail" },
+          { id: "honeypot", status: "error" },
+          { id: "tax", status: "warn" },
+        ],
+      }),
+      false
+    );
+    assert.equal(
+      isDeployerFault({
+        ok: false,
+        ts: 0,
+        checks: [{ id: "honeypot", status: "fail" }],
+      }),
+      true
+    );
+  });
+});
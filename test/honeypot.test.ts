@@ -0,0 +1,179 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import {
+  createPublicClient,
+  custom,
+  encodeErrorResult,
+  encodeFunctionResult,
+  numberToHex,
+  parseAbi,
+  type PublicClient,
+} from "viem";
+import { bsc } from "viem/chains";
+import { PARSED_ABI } from "../src/chains/abis.js";
+import { simulateBuySell } from "../src/safety/honeypot.js";
+
+/**
+ * 蜜罐模拟：mock RPC（eth_call 探测余额槽与 decimals，eth_simulateV1 按调用下标回放结果）
+ * DexScreener 请求直接失败，USDT 按稳定币回退为 1 美元
+ */
+
+const USDT = "0x55d398326f99059fF775485246999027B3197955";
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const ONE = 10n ** 18n;
+
+interface FakeCall {
+  returnData?: `0x${string}`;
+  revert?: string;
+}
+
+/** 一块模拟结果：询价、approve、兑换、读余额四个调用 */
+function swapBlock(params: {
+  quoteOut: bigint;
+  balance: bigint;
+  swapRevert?: string;
+}): FakeCall[] {
+  return [
+    {
+      returnData: encodeFunctionResult({
+        abi: PARSED_ABI.uniV2RouterLike,
+        functionName: "getAmountsOut",
+        result: [0n, params.quoteOut],
+      }),
+    },
+    {
+      returnData: encodeFunctionResult({
+        abi: PARSED_ABI.erc20,
+        functionName: "approve",
+        result: true,
+      }),
+    },
+    params.swapRevert ? { revert: params.swapRevert } : { returnData: "0x" },
+    {
+      returnData: encodeFunctionResult({
+        abi: PARSED_ABI.erc20,
+        functionName: "balanceOf",
+        result: params.balance,
+      }),
+    },
+  ];
+}
+
+const toRpcCall = (c: FakeCall) =>
+  c.revert
+    ? {
+        status: "0x0",
+        returnData: "0x",
+        gasUsed: "0x5208",
+        logs: [],
+        error: {
+          code: 3,
+          message: "execution reverted",
+          data: encodeErrorResult({
+            abi: parseAbi(["error Error(string)"]),
+            errorName: "Error",
+            args: [c.revert],
+          }),
+        },
+      }
+    : { status: "0x1", returnData: c.returnData, gasUsed: "0x5208", logs: [] };
+
+/** simulate：按请求的块数返回对应的模拟结果；抛错模拟节点不支持 eth_simulateV1 */
+function mockClient(simulate: (blockCount: number) => FakeCall[][]) {
+  return createPublicClient({
+    chain: bsc,
+    transport: custom(
+      {
+        async request({ method, params }: { method: string; params?: any }) {
+          if (method === "eth_chainId") return numberToHex(bsc.id);
+          if (method === "eth_call") {
+            const [tx, , overrides] = params;
+            if (tx.data.startsWith("0x313ce567")) {
+              return numberToHex(18, { size: 32 }); // decimals()
+            }
+            // balanceOf：有状态覆盖时读回覆盖值，第一个候选槽即命中
+            const diff: any = overrides && Object.values(overrides)[0];
+            const value = diff?.stateDiff && Object.values(diff.stateDiff)[0];
+            return value ?? numberToHex(0, { size: 32 });
+          }
+          if (method === "eth_simulateV1") {
+            const blocks = simulate(params[0].blockStateCalls.length);
+            return blocks.map((calls, i) => ({
+              number: numberToHex(100 + i),
+              calls: calls.map(toRpcCall),
+            }));
+          }
+          throw new Error(`unexpected method ${method}`);
+        },
+      },
+      { retryCount: 0 }
+    ),
+  }) as PublicClient;
+}
+
+const simulate = (client: PublicClient) =>
+  simulateBuySell({
+    chain: "BSC",
+    client,
+    type: "v2",
+    token0: TOKEN,
+    token1: USDT,
+    dex: "pancakeswap-v2",
+  });
+
+describe("simulateBuySell", () => {
+  before(() => {
+    mock.method(axios.Axios.prototype, "request", async () => {
+      throw new Error("offline");
+    });
+  });
+  after(() => mock.restoreAll());
+
+  it("measures buy and sell tax from a round trip", async () => {
+    const buy = swapBlock({ quoteOut: 1000n * ONE, balance: 950n * ONE });
+    const client = mockClient((n) =>
+      n === 1
+        ? [buy]
+        : [buy, swapBlock({ quoteOut: 100n * ONE, balance: 90n * ONE })]
+    );
+    const res = await simulate(client);
+    assert.equal(res.simulated, true);
+    assert.equal(res.honeypot, false);
+    assert.ok(Math.abs((res.buyTax ?? 0) - 0.05) < 1e-9);
+    assert.ok(Math.abs((res.sellTax ?? 0) - 0.1) < 1e-9);
+  });
+
+  it("flags a reverted sell as honeypot", async () => {
+    const buy = swapBlock({ quoteOut: 1000n * ONE, balance: 1000n * ONE });
+    const client = mockClient((n) =>
+      n === 1
+        ? [buy]
+        : [
+            buy,
+            swapBlock({
+              quoteOut: 100n * ONE,
+              balance: 0n,
+              swapRevert: "TRANSFER_FAILED",
+            }),
+          ]
+    );
+    const res = await simulate(client);
+    assert.equal(res.simulated, true);
+    assert.equal(res.honeypot, true);
+    assert.match(res.note, /^sell reverted/);
+  });
+
+  it("reports an unsupported node as an error, not a pass", async () => {
+    const client = mockClient(() => {
+      throw Object.assign(new Error("method eth_simulateV1 not found"), {
+        code: -32601,
+      });
+    });
+    const res = await simulate(client);
+    assert.equal(res.simulated, false);
+    assert.equal(res.error, true);
+    assert.equal(res.honeypot, false);
+    assert.match(res.note, /^simulation unavailable/);
+  });
+});
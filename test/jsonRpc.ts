@@ -0,0 +1,51 @@
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * 本地 JSON-RPC 替身（HTTP）：handler 按 method 返回结果、RPC 错误或 HTTP 状态码，
+ * 可选延迟（模拟慢节点/超时）；calls 记下收到的 method
+ */
+
+export type RpcReply =
+  | { result: unknown; delayMs?: number }
+  | { error: { code: number; message: string }; delayMs?: number }
+  | { status: number; delayMs?: number };
+
+export type RpcHandler = (method: string, params: unknown[]) => RpcReply;
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let data = "";
+    req.on("data", (c) => (data += c));
+    req.on("end", () => resolve(data));
+  });
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export async function startJsonRpcServer(handler: RpcHandler) {
+  const calls: string[] = [];
+  const server = createServer(async (req, res) => {
+    const { id, method, params } = JSON.parse(await readBody(req));
+    calls.push(method);
+    const { delayMs, ...reply } = handler(method, params ?? []);
+    if (delayMs) await sleep(delayMs);
+    if (res.destroyed) return;
+    if ("status" in reply) {
+      res.writeHead(reply.status).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", id, ...reply }));
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    calls,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,115 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:net";
+import type { AddressInfo } from "node:net";
+import { Redis } from "ioredis";
+import { startRespServer } from "./resp.js";
+
+/**
+ * Redis 适配层：进程内 RESP 替身，KV_BACKEND=redis、REDIS_PREFIX=test
+ */
+
+const resp = await startRespServer();
+process.env.KV_BACKEND = "redis";
+process.env.REDIS_URL = resp.url;
+process.env.REDIS_PREFIX = "test";
+
+const {
+  closeKvBackend,
+  createDedupSet,
+  createKVStore,
+  createTTLStore,
+  RedisDedupSet,
+  RedisKVStore,
+  RedisTTLStore,
+} = await import("../src/state/kvBackend.js");
+
+after(async () => {
+  await closeKvBackend();
+  await resp.close();
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("Redis KV adapters", () => {
+  it("namespaces keys as prefix:ns:key and stores JSON", async () => {
+    const a = createKVStore<{ n: number }>("a");
+    const b = createKVStore<{ n: number }>("b");
+    await a.set("k", { n: 1 });
+    await b.set("k", { n: 2 });
+    assert.equal(resp.data.get("test:a:k")?.value, '{"n":1}');
+    assert.deepEqual(await a.get("k"), { n: 1 });
+    assert.deepEqual(await b.get("k"), { n: 2 });
+    assert.equal(await a.has("k"), true);
+    assert.equal(await a.delete("k"), true);
+    assert.equal(await a.get("k"), undefined);
+    assert.equal(await b.has("k"), true);
+  });
+
+  it("maps TTL to PX expiry", async () => {
+    const ttl = createTTLStore<string>("ttl", 60_000);
+    await ttl.set("default", "x");
+    await ttl.set("short", "y", 50);
+    const now = Date.now();
+    const expiry = (k: string) =>
+      (resp.data.get(`test:ttl:${k}`)?.expiresAt ?? 0) - now;
+    assert.ok(expiry("default") > 59_000 && expiry("default") <= 60_000);
+    assert.ok(expiry("short") <= 50);
+    await sleep(80);
+    assert.equal(await ttl.get("short"), undefined);
+    assert.equal(await ttl.get("default"), "x");
+  });
+
+  it("claims dedup keys once across instances with SET NX", async () => {
+    const mine = createDedupSet("seen");
+    const client = new Redis(resp.url);
+    const other = new RedisDedupSet(client, "seen");
+    assert.equal(await mine.add("0xpair"), true);
+    assert.equal(await other.add("0xpair"), false);
+    assert.equal(await mine.add("0xpair"), false);
+    assert.equal(await other.has("0xpair"), true);
+    await client.quit();
+  });
+
+  it("lets a dedup key be claimed again after its TTL", async () => {
+    const seen = createDedupSet("ttl-seen", 50);
+    assert.equal(await seen.add("0xpair"), true);
+    assert.ok((resp.data.get("test:ttl-seen:0xpair")?.expiresAt ?? 0) > 0);
+    await sleep(80);
+    assert.equal(await seen.add("0xpair"), true);
+  });
+
+  it("falls back to in-memory stores when Redis is unreachable", async () => {
+    // 先占一个端口再关掉，保证连接被拒绝
+    const probe = createServer();
+    await new Promise<void>((r) => probe.listen(0, "127.0.0.1", r));
+    const { port } = probe.address() as AddressInfo;
+    await new Promise((r) => probe.close(r));
+
+    const client = new Redis(`redis://127.0.0.1:${port}`, {
+      enableOfflineQueue: false,
+    });
+    client.on("error", () => {});
+    try {
+      const kv = new RedisKVStore<number>(client, "down");
+      await kv.set("k", 1);
+      assert.equal(await kv.get("k"), 1);
+      assert.equal(await kv.delete("k"), true);
+      assert.equal(await kv.has("k"), false);
+
+      const ttl = new RedisTTLStore<string>(client, "down", 60_000);
+      await ttl.set("short", "x", 50);
+      assert.equal(await ttl.get("short"), "x");
+      await sleep(80);
+      assert.equal(await ttl.get("short"), undefined);
+
+      // 去重退回进程内：同一实例仍只认领一次
+      const seen = new RedisDedupSet(client, "down");
+      assert.equal(await seen.add("0xpair"), true);
+      assert.equal(await seen.add("0xpair"), false);
+      assert.equal(await seen.has("0xpair"), true);
+    } finally {
+      client.disconnect();
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { STRATEGY } from "../src/config.js";
+import { LiquidityTracker } from "../src/metrics/liquidity.js";
+
+const W = BigInt(STRATEGY.RUG_WINDOW_BLOCKS);
+const close = (a: number | undefined, b: number) =>
+  assert.ok(a !== undefined && Math.abs(a - b) < 1e-9, `${a} ≈ ${b}`);
+
+describe("LiquidityTracker.burnShare", () => {
+  it("is undefined before any reserves are known", () => {
+    const t = new LiquidityTracker();
+    assert.equal(t.burnShare("m", 1n, 1n), undefined);
+  });
+
+  it("measures the burn against the post-burn reserves", () => {
+    const t = new LiquidityTracker();
+    // Sync 已是撤池之后：取走 300 / 剩 700 → 30%
+    t.setReserves("m", 700n, 1_400n);
+    close(t.burnShare("m", 300n, 600n), 0.3);
+    // 两侧取较大者
+    close(t.burnShare("m", 300n, 1_400n), 0.5);
+    assert.equal(t.burnShare("other", 300n, 600n), undefined);
+  });
+
+  it("treats an empty pool as zero share", () => {
+    const t = new LiquidityTracker();
+    t.setReserves("m", 0n, 0n);
+    assert.equal(t.burnShare("m", 0n, 0n), 0);
+  });
+});
+
+describe("LiquidityTracker.record", () => {
+  it("measures the √k drop from the window peak", () => {
+    const t = new LiquidityTracker();
+    t.record("m", { block: 100n, depth: 800, usd: 8_000 });
+    t.record("m", { block: 101n, depth: 1_000, usd: 10_000 });
+    const drop = t.record("m", { block: 105n, depth: 400, usd: 4_000 });
+    close(drop.dropPct, 0.6);
+    assert.equal(drop.peakUsd, 10_000);
+    assert.equal(drop.usd, 4_000);
+    assert.equal(drop.blocks, 4);
+    // 上涨不算下跌
+    assert.equal(t.record("m", { block: 106n, depth: 1_200 }).dropPct, 0);
+  });
+
+  it("drops samples older than the window", () => {
+    const t = new LiquidityTracker();
+    t.record("m", { block: 100n, depth: 1_000 });
+    const drop = t.record("m", { block: 101n + W, depth: 500 });
+    assert.equal(drop.dropPct, 0);
+    assert.equal(drop.blocks, 0);
+    // 恰在窗口边界的样本仍保留
+    const u = new LiquidityTracker();
+    u.record("m", { block: 100n, depth: 1_000 });
+    close(u.record("m", { block: 100n + W, depth: 500 }).dropPct, 0.5);
+  });
+
+  it("reports a base-side dump separately from the √k drop", () => {
+    const t = new LiquidityTracker();
+    t.record("m", { block: 100n, depth: 1_000, base: 50, usd: 100 });
+    const drop = t.record("m", {
+      block: 102n,
+      depth: 1_000,
+      base: 10,
+      usd: 20,
+    });
+    assert.equal(drop.dropPct, 0);
+    assert.ok(drop.dump);
+    close(drop.dump.pct, 0.8);
+    assert.equal(drop.dump.peakUsd, 100);
+    assert.equal(drop.dump.blocks, 2);
+  });
+
+  it("omits dump without a base side", () => {
+    const t = new LiquidityTracker();
+    t.record("m", { block: 100n, depth: 1_000 });
+    assert.equal(t.record("m", { block: 101n, depth: 900 }).dump, undefined);
+  });
+
+  it("starts over after reset", () => {
+    const t = new LiquidityTracker();
+    t.record("m", { block: 100n, depth: 1_000 });
+    t.reset("m");
+    assert.equal(t.record("m", { block: 101n, depth: 100 }).dropPct, 0);
+  });
+});
+
+describe("LiquidityTracker.recordBurn", () => {
+  it("compounds burns within the window", () => {
+    const t = new LiquidityTracker();
+    close(t.recordBurn("m", 100n, 0.5).dropPct, 0.5);
+    const res = t.recordBurn("m", 103n, 0.5);
+    close(res.dropPct, 0.75);
+    assert.equal(res.blocks, 3);
+    // 窗口外的旧 Burn 不再累计
+    close(t.recordBurn("m", 104n + W, 0.1).dropPct, 0.1);
+  });
+});
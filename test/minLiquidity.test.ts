@@ -0,0 +1,115 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  numberToHex,
+  type PublicClient,
+} from "viem";
+import { bsc } from "viem/chains";
+import { PARSED_ABI } from "../src/chains/abis.js";
+import { v4PoolStateSlot } from "../src/price/reservesPrice.js";
+import { hasMinLiquidityV4 } from "../src/safety/minLiquidity.js";
+
+/**
+ * V4 最小流动性：mock RPC 按 extsload 的槽位返回 PoolManager 里的 slot0 / liquidity
+ * DexScreener 请求直接失败，USDT 按稳定币回退为 1 美元
+ */
+
+const USDT = "0x55d398326f99059fF775485246999027B3197955";
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const POOL_MANAGER = "0x2222222222222222222222222222222222222222";
+const POOL_ID = `0x${"ab".repeat(32)}` as const;
+const ONE = 10n ** 18n;
+const Q96 = 1n << 96n;
+
+/** PoolManager 中 POOL_ID 的状态：slot0 低 160 位为 sqrtPriceX96，+3 槽为 liquidity */
+function mockClient(state: { sqrtPriceX96: bigint; liquidity: bigint }) {
+  const stateSlot = BigInt(v4PoolStateSlot(POOL_ID));
+  return createPublicClient({
+    chain: bsc,
+    transport: custom(
+      {
+        async request({ method, params }: { method: string; params?: any }) {
+          if (method === "eth_chainId") return numberToHex(bsc.id);
+          if (method === "eth_call") {
+            const [tx] = params;
+            if (tx.data.startsWith("0x313ce567")) {
+              return numberToHex(18, { size: 32 }); // decimals()
+            }
+            assert.equal(tx.to.toLowerCase(), POOL_MANAGER);
+            const { args } = decodeFunctionData({
+              abi: PARSED_ABI.v4PoolManager,
+              data: tx.data,
+            });
+            const slot = BigInt(args[0] as `0x${string}`);
+            // slot0 高位还有 tick / fee，读取时应只取低 160 位
+            if (slot === stateSlot)
+              return numberToHex((1n << 200n) | state.sqrtPriceX96, {
+                size: 32,
+              });
+            if (slot === stateSlot + 3n)
+              return numberToHex(state.liquidity, { size: 32 });
+            return numberToHex(0, { size: 32 });
+          }
+          throw new Error(`unexpected method ${method}`);
+        },
+      },
+      { retryCount: 0 }
+    ),
+  }) as PublicClient;
+}
+
+const check = (
+  client: PublicClient,
+  token0: `0x${string}` = TOKEN,
+  token1: `0x${string}` = USDT
+) =>
+  hasMinLiquidityV4({
+    chain: "BSC",
+    client,
+    poolManager: POOL_MANAGER,
+    poolId: POOL_ID,
+    token0,
+    token1,
+    minUsd: 1_000,
+  });
+
+describe("hasMinLiquidityV4", () => {
+  before(() => {
+    mock.method(axios.Axios.prototype, "request", async () => {
+      throw new Error("offline");
+    });
+  });
+  after(() => mock.restoreAll());
+
+  it("values in-range liquidity from PoolManager state", async () => {
+    // 价格 1:1，L = 1000 → 两侧虚拟储备各 1000，共 $2000
+    const res = await check(
+      mockClient({ sqrtPriceX96: Q96, liquidity: 1000n * ONE })
+    );
+    assert.equal(res.ok, true);
+    assert.ok(Math.abs((res.usd ?? 0) - 2000) < 1e-6, `${res.usd}`);
+    assert.equal(res.note, "v4 in-range liquidity");
+  });
+
+  it("fails a freshly initialized pool without waiting for DexScreener", async () => {
+    const res = await check(mockClient({ sqrtPriceX96: Q96, liquidity: 0n }));
+    assert.equal(res.ok, false);
+    assert.equal(res.usd, 0);
+    assert.equal(res.note, "v4 in-range liquidity");
+  });
+
+  it("falls back to DexScreener when neither side is a base token", async () => {
+    const OTHER = "0x3333333333333333333333333333333333333333";
+    const res = await check(
+      mockClient({ sqrtPriceX96: Q96, liquidity: 1000n * ONE }),
+      TOKEN,
+      OTHER
+    );
+    assert.equal(res.ok, false);
+    assert.equal(res.note, "unable to determine liquidity (v4)");
+  });
+});
@@ -0,0 +1,156 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  numberToHex,
+  pad,
+  toEventSelector,
+  type PublicClient,
+} from "viem";
+import { bsc } from "viem/chains";
+import { ABI, PARSED_ABI } from "../src/chains/abis.js";
+import { chainConfig, STRATEGY } from "../src/config.js";
+import { findDex } from "../src/chains/registry.js";
+import { v4PoolStateSlot } from "../src/price/reservesPrice.js";
+import {
+  awaitLiquidity,
+  isAwaitingLiquidity,
+  startPendingLiquidityWatcher,
+} from "../src/pipeline/pendingLiquidity.js";
+import { watchlist, type WatchEntry } from "../src/state/watchlist.js";
+
+/**
+ * V4 等待加池：mock RPC 按 extsload 返回 PoolManager 里的池状态，
+ * watchEvent 截获日志多路复用器的订阅，由测试推送 ModifyLiquidity 日志
+ * DexScreener 请求直接失败，USDT 按稳定币回退为 1 美元
+ */
+
+const USDT = "0x55d398326f99059fF775485246999027B3197955";
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const POOL_ID = `0x${"cd".repeat(32)}` as const;
+const POOL_MANAGER = findDex(chainConfig("BSC"), "v4")!.factory;
+const ONE = 10n ** 18n;
+
+let liquidity = 0n; // 当前池子的 L（价格固定 1:1）
+const subscriptions: {
+  events: { name: string }[];
+  onLogs: (logs: any[]) => void;
+}[] = [];
+
+const rpc = createPublicClient({
+  chain: bsc,
+  transport: custom(
+    {
+      async request({ method, params }: { method: string; params?: any }) {
+        if (method === "eth_chainId") return numberToHex(bsc.id);
+        if (method === "eth_call") {
+          const [tx] = params;
+          if (tx.data.startsWith("0x313ce567")) {
+            return numberToHex(18, { size: 32 }); // decimals()
+          }
+          const { args } = decodeFunctionData({
+            abi: PARSED_ABI.v4PoolManager,
+            data: tx.data,
+          });
+          const slot = BigInt(args[0] as `0x${string}`);
+          const stateSlot = BigInt(v4PoolStateSlot(POOL_ID));
+          if (slot === stateSlot) return numberToHex(1n << 96n, { size: 32 });
+          if (slot === stateSlot + 3n)
+            return numberToHex(liquidity, { size: 32 });
+          return numberToHex(0, { size: 32 });
+        }
+        throw new Error(`unexpected method ${method}`);
+      },
+    },
+    { retryCount: 0 }
+  ),
+});
+const client = Object.assign(rpc, {
+  watchEvent: (args: any) => {
+    subscriptions.push(args);
+    return () => {};
+  },
+  watchBlockNumber: () => () => {},
+}) as unknown as PublicClient;
+
+let txSeq = 0;
+/** PoolManager 上该 PoolId 的一条 ModifyLiquidity 日志 */
+const modifyLiquidity = (liquidityDelta: bigint) => ({
+  address: POOL_MANAGER,
+  topics: [
+    toEventSelector(ABI.v4PoolManager[2]),
+    POOL_ID,
+    pad("0x00000000000000000000000000000000000000aa"),
+  ],
+  args: {
+    id: POOL_ID,
+    sender: "0x00000000000000000000000000000000000000aa",
+    tickLower: -600,
+    tickUpper: 600,
+    liquidityDelta,
+    salt: pad("0x0"),
+  },
+  blockNumber: 100n,
+  transactionHash: pad(numberToHex(++txSeq)),
+  logIndex: 0,
+  removed: false,
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("awaitLiquidity (v4)", () => {
+  const funded: WatchEntry[] = [];
+  let stop: () => void;
+
+  before(() => {
+    mock.method(axios.Axios.prototype, "request", async () => {
+      throw new Error("offline");
+    });
+    stop = startPendingLiquidityWatcher({ BSC: client }, (entry) =>
+      funded.push(entry)
+    );
+  });
+  after(() => {
+    stop();
+    mock.restoreAll();
+  });
+
+  it("re-gates once ModifyLiquidity brings the pool above the minimum", async () => {
+    const entry = watchlist.enqueueNew({
+      chain: "BSC",
+      type: "v4",
+      dex: "uniswap-v4",
+      address: POOL_ID,
+      token0: TOKEN,
+      token1: USDT,
+    });
+    assert.equal(awaitLiquidity(entry, "minLiquidity: v4"), true);
+    assert.equal(watchlist.get(entry.key)?.status, "pending-liquidity");
+    assert.equal(isAwaitingLiquidity(entry.key), true);
+
+    // 只订 PoolManager 上的 ModifyLiquidity（同轮事件循环结束后建立订阅）
+    await sleep(20);
+    assert.equal(subscriptions.length, 1);
+    assert.deepEqual(
+      subscriptions[0].events.map((e) => e.name),
+      ["ModifyLiquidity"]
+    );
+
+    // 撤池日志不触发重读
+    liquidity = BigInt(STRATEGY.MIN_LIQ_USD) * ONE;
+    subscriptions[0].onLogs([modifyLiquidity(-1n)]);
+    await sleep(20);
+    assert.equal(funded.length, 0);
+
+    subscriptions[0].onLogs([modifyLiquidity(liquidity)]);
+    await sleep(20);
+    assert.deepEqual(
+      funded.map((e) => e.key),
+      [entry.key]
+    );
+    assert.equal(isAwaitingLiquidity(entry.key), false);
+  });
+});
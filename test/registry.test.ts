@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { zeroAddress } from "viem";
+import { computeV4PoolId, type V4PoolKey } from "../src/chains/registry.js";
+
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+// 以太坊主网 Uniswap V4 ETH/USDC 0.05% 池
+const ETH_USDC_500: V4PoolKey = {
+  currency0: zeroAddress,
+  currency1: USDC,
+  fee: 500,
+  tickSpacing: 10,
+  hooks: zeroAddress,
+};
+
+describe("computeV4PoolId", () => {
+  it("matches a known mainnet PoolId", () => {
+    assert.equal(
+      computeV4PoolId(ETH_USDC_500),
+      "0x21c67e77068de97969ba93d4aab21826d33ca12bb9f565d8496e8fda8a82ca27"
+    );
+  });
+
+  it("does not depend on address casing", () => {
+    assert.equal(
+      computeV4PoolId({
+        ...ETH_USDC_500,
+        currency1: USDC.toLowerCase() as `0x${string}`,
+      }),
+      computeV4PoolId(ETH_USDC_500)
+    );
+  });
+
+  it("changes with every PoolKey field", () => {
+    const base = computeV4PoolId(ETH_USDC_500);
+    const variants: Partial<V4PoolKey>[] = [
+      { fee: 3000 },
+      { tickSpacing: 60 },
+      { hooks: "0x00000000000000000000000000000000000000c0" },
+      { currency0: USDC, currency1: zeroAddress },
+    ];
+    for (const v of variants) {
+      assert.notEqual(computeV4PoolId({ ...ETH_USDC_500, ...v }), base);
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { createServer, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+
+/**
+ * 进程内 RESP 替身：只实现 KV 适配层用到的命令
+ * （PING / INFO / GET / SET [EX|PX] [NX] / EXISTS / DEL / QUIT）
+ * 过期按墙钟时间判断；data 暴露给测试检查实际写入的键
+ */
+
+interface Entry {
+  value: string;
+  expiresAt?: number;
+}
+
+const bulk = (s: string | null) =>
+  s === null ? "$-1\r\n" : `$${Buffer.byteLength(s)}\r\n${s}\r\n`;
+
+/** 从缓冲区解析一条命令（数组形式的 bulk string），不完整返回 undefined */
+function parseCommand(
+  buf: Buffer
+): { args: string[]; rest: Buffer } | undefined {
+  if (!buf.length || buf[0] !== 0x2a /* * */) return undefined;
+  let pos = 0;
+  const line = () => {
+    const end = buf.indexOf("\r\n", pos);
+    if (end < 0) return undefined;
+    const s = buf.toString("utf8", pos, end);
+    pos = end + 2;
+    return s;
+  };
+  const header = line();
+  if (header === undefined) return undefined;
+  const args: string[] = [];
+  for (let i = 0; i < Number(header.slice(1)); i++) {
+    const len = line();
+    if (len === undefined) return undefined;
+    const n = Number(len.slice(1));
+    if (buf.length < pos + n + 2) return undefined;
+    args.push(buf.toString("utf8", pos, pos + n));
+    pos += n + 2;
+  }
+  return { args, rest: buf.subarray(pos) };
+}
+
+export async function startRespServer() {
+  const data = new Map<string, Entry>();
+  const sockets = new Set<Socket>();
+
+  const live = (key: string) => {
+    const e = data.get(key);
+    if (e?.expiresAt !== undefined && e.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return e;
+  };
+
+  const exec = ([name, ...args]: string[]): string => {
+    switch (name.toUpperCase()) {
+      case "PING":
+        return "+PONG\r\n";
+      case "INFO":
+        return bulk("# Server\r\nredis_version:7.2.0\r\nloading:0\r\n");
+      case "GET":
+        return bulk(live(args[0])?.value ?? null);
+      case "SET": {
+        const [key, value, ...opts] = args;
+        let expiresAt: number | undefined;
+        let nx = false;
+        for (let i = 0; i < opts.length; i++) {
+          const opt = opts[i].toUpperCase();
+          if (opt === "NX") nx = true;
+          else if (opt === "PX") expiresAt = Date.now() + Number(opts[++i]);
+          else if (opt === "EX")
+            expiresAt = Date.now() + Number(opts[++i]) * 1000;
+          else return "-ERR syntax error\r\n";
+        }
+        if (nx && live(key)) return bulk(null);
+        data.set(key, { value, expiresAt });
+        return "+OK\r\n";
+      }
+      case "EXISTS":
+        return `:${args.filter((k) => live(k)).length}\r\n`;
+      case "DEL": {
+        const n = args.filter((k) => live(k) && data.delete(k)).length;
+        return `:${n}\r\n`;
+      }
+      case "QUIT":
+        return "+OK\r\n";
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let buf: Buffer = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      buf = Buffer.concat([buf, chunk]);
+      for (let cmd = parseCommand(buf); cmd; cmd = parseCommand(buf)) {
+        buf = cmd.rest;
+        socket.write(exec(cmd.args));
+        if (cmd.args[0].toUpperCase() === "QUIT") socket.end();
+      }
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+
+  return {
+    url: `redis://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    data,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const s of sockets) s.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,157 @@
+import { after, afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { numberToHex } from "viem";
+import { bsc } from "viem/chains";
+import { RPC } from "../src/config.js";
+import { createRpcPool, quorumRead, RpcPool } from "../src/chains/rpcPool.js";
+import { startJsonRpcServer, type RpcReply } from "./jsonRpc.js";
+
+/**
+ * RPC 池：本地 JSON-RPC 替身，验证故障转移、健康度排序与多端点一致读
+ */
+
+RPC.TIMEOUT_MS = 300;
+
+const servers: Awaited<ReturnType<typeof startJsonRpcServer>>[] = [];
+afterEach(async () => {
+  await Promise.all(servers.map((s) => s.close()));
+  servers.length = 0;
+});
+after(() => {
+  RPC.QUORUM = 1;
+});
+
+/** 起一个替身：eth_blockNumber 返回 head，其余按 reply */
+async function node(
+  head: number,
+  reply: (method: string) => RpcReply | undefined = () => undefined
+) {
+  const server = await startJsonRpcServer(
+    (method) => reply(method) ?? { result: numberToHex(head) }
+  );
+  servers.push(server);
+  return server;
+}
+
+const pool = (...urls: string[]) =>
+  new RpcPool("BSC", bsc, { wss: [], http: urls });
+
+const blockNumber = (p: RpcPool) =>
+  p.publicClient().getBlockNumber({ cacheTime: 0 });
+
+describe("RpcPool failover", () => {
+  it("moves on to the next endpoint when one errors", async () => {
+    const bad = await node(100, () => ({ status: 500 }));
+    const good = await node(100);
+    const p = pool(bad.url, good.url);
+    assert.equal(await blockNumber(p), 100n);
+    assert.deepEqual(bad.calls, ["eth_blockNumber"]);
+    assert.deepEqual(good.calls, ["eth_blockNumber"]);
+    assert.ok(p.health()[0].errorRate > 0);
+    assert.equal(p.health()[1].errorRate, 0);
+  });
+
+  it("moves on when an endpoint times out", async () => {
+    const slow = await node(100, () => ({ result: "0x1", delayMs: 2_000 }));
+    const good = await node(100);
+    const start = Date.now();
+    assert.equal(await blockNumber(pool(slow.url, good.url)), 100n);
+    const elapsed = Date.now() - start;
+    assert.ok(elapsed >= RPC.TIMEOUT_MS && elapsed < 2_000, `${elapsed}ms`);
+  });
+
+  it("throws reverts without failing over or counting them", async () => {
+    const a = await node(100, () => ({
+      error: { code: 3, message: "execution reverted" },
+    }));
+    const b = await node(100);
+    const p = pool(a.url, b.url);
+    await assert.rejects(
+      p
+        .publicClient()
+        .call({ to: bsc.contracts.multicall3.address, data: "0x" })
+    );
+    assert.equal(b.calls.length, 0);
+    assert.equal(p.health()[0].errorRate, 0);
+  });
+
+  it("fails when every endpoint fails", async () => {
+    const a = await node(100, () => ({ status: 502 }));
+    const b = await node(100, () => ({ status: 503 }));
+    await assert.rejects(blockNumber(pool(a.url, b.url)));
+  });
+});
+
+describe("RpcPool health ranking", () => {
+  it("orders endpoints by EWMA error rate and latency", async () => {
+    const slow = await node(100, () => ({
+      result: numberToHex(100),
+      delayMs: 100,
+    }));
+    const fast = await node(100);
+    const flaky = await node(100, () => ({ status: 500 }));
+    const p = pool(slow.url, flaky.url, fast.url);
+    for (let i = 0; i < 3; i++) await p.probe();
+    assert.deepEqual(
+      p.ranked().map((e) => e.url),
+      [fast.url, slow.url, flaky.url]
+    );
+    // 请求先落到最健康的端点
+    const before = slow.calls.length;
+    assert.equal(await blockNumber(p), 100n);
+    assert.equal(fast.calls.at(-1), "eth_blockNumber");
+    assert.equal(slow.calls.length, before);
+  });
+
+  it("ranks endpoints lagging behind the head last", async () => {
+    const lagging = await node(100 - RPC.MAX_LAG_BLOCKS - 1);
+    const synced = await node(100, () => ({
+      result: numberToHex(100),
+      delayMs: 50,
+    }));
+    const p = pool(lagging.url, synced.url);
+    await p.probe();
+    assert.deepEqual(
+      p.health().map((h) => h.lagBlocks),
+      [0, RPC.MAX_LAG_BLOCKS + 1]
+    );
+    assert.equal(p.ranked()[0].url, synced.url);
+  });
+});
+
+describe("quorumRead", () => {
+  const MULTICALL3 = bsc.contracts.multicall3.address;
+
+  /** 一组端点：eth_getStorageAt 各自返回给定的值 */
+  const slotNodes = (values: string[]) =>
+    Promise.all(
+      values.map((v) =>
+        node(100, (m) => (m === "eth_getStorageAt" ? { result: v } : undefined))
+      )
+    );
+
+  const read = (urls: string[]) =>
+    quorumRead(
+      "BSC",
+      createRpcPool("BSC", bsc, { wss: [], http: urls }).publicClient(),
+      (client, blockNumber) =>
+        client.getStorageAt({ address: MULTICALL3, slot: "0x0", blockNumber })
+    );
+
+  it("returns the value a quorum of endpoints agree on", async () => {
+    RPC.QUORUM = 2;
+    const nodes = await slotNodes(["0x01", "0x01", "0x02"]);
+    assert.equal(await read(nodes.map((n) => n.url)), "0x01");
+    // 每个端点都参与了读取
+    assert.ok(nodes.every((n) => n.calls.includes("eth_getStorageAt")));
+  });
+
+  it("throws when endpoints disagree", async () => {
+    RPC.QUORUM = 2;
+    const nodes = await slotNodes(["0x01", "0x02", "0x03"]);
+    await assert.rejects(
+      read(nodes.map((n) => n.url)),
+      /rpc quorum not reached \(1\/2, 3 distinct/
+    );
+  });
+});
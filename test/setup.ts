@@ -0,0 +1,9 @@
+/**
+ * 测试环境：只启用 BSC，RPC 地址不会被真正连接（需要外部服务的测试自带本地替身或 mock transport）
+ * 在被测模块加载 config 之前执行（node --import）
+ */
+process.env.CHAINS_ENABLED = "BSC";
+process.env.BSC_HTTP ??= "http://127.0.0.1:8545";
+process.env.STORAGE = "memory";
+process.env.KV_BACKEND = "memory";
+process.env.LOG_LEVEL ??= "silent";
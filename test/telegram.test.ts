@@ -0,0 +1,175 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { AlertNotice } from "../src/notifiers/registry.js";
+
+/**
+ * Telegram 通知层：本地 HTTP 替身模拟 Bot API（TG_API_BASE 指向它）
+ * 替身按队列回放响应，队列空时返回 ok
+ */
+
+interface Reply {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+const received: { url: string; body: any }[] = [];
+const replies: Reply[] = [];
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let data = "";
+    req.on("data", (c) => (data += c));
+    req.on("end", () => resolve(data));
+  });
+
+const server = createServer(async (req, res) => {
+  received.push({ url: req.url ?? "", body: JSON.parse(await readBody(req)) });
+  const reply = replies.shift() ?? {
+    status: 200,
+    body: { ok: true, result: {} },
+  };
+  res.writeHead(reply.status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(reply.body));
+});
+await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+
+process.env.TG_API_BASE = `http://127.0.0.1:${
+  (server.address() as AddressInfo).port
+}`;
+process.env.TG_BOT_TOKEN = "123:secret";
+process.env.TG_CHAT_ID = "-10042";
+
+const {
+  createTelegramNotifier,
+  escapeHtml,
+  escapeMarkdownV2,
+  sendTelegramMessage,
+  splitMessage,
+} = await import("../src/notifiers/telegram.js");
+
+after(() => server.close());
+
+describe("splitMessage", () => {
+  it("keeps a message of exactly the limit in one chunk", () => {
+    assert.deepEqual(splitMessage("ab\ncd", 5), ["ab\ncd"]);
+  });
+
+  it("splits on newlines once the limit is exceeded", () => {
+    assert.deepEqual(splitMessage("ab\ncd\nef", 5), ["ab\ncd", "ef"]);
+  });
+
+  it("hard-splits an over-long line without breaking surrogate pairs", () => {
+    assert.deepEqual(splitMessage("abcdefg", 3), ["abc", "def", "g"]);
+    assert.deepEqual(splitMessage("😀😀😀", 4), ["😀😀", "😀"]);
+  });
+
+  it("measures chunks after escaping", () => {
+    const measure = (s: string) => escapeHtml(s).length;
+    // "&" 转义后 5 个字符
+    assert.deepEqual(splitMessage("&&\n&", 10, measure), ["&&", "&"]);
+  });
+
+  it("returns one empty chunk for an empty message", () => {
+    assert.deepEqual(splitMessage(""), [""]);
+  });
+});
+
+describe("escaping", () => {
+  it("escapes HTML entities", () => {
+    assert.equal(escapeHtml("<b>a & b</b>"), "&lt;b&gt;a &amp; b&lt;/b&gt;");
+  });
+
+  it("escapes every MarkdownV2 special character", () => {
+    assert.equal(
+      escapeMarkdownV2("_*[]()~`>#+-=|{}.!\\"),
+      "\\_\\*\\[\\]\\(\\)\\~\\`\\>\\#\\+\\-\\=\\|\\{\\}\\.\\!\\\\"
+    );
+    assert.equal(escapeMarkdownV2("$1.5"), "$1\\.5");
+  });
+});
+
+describe("sendTelegramMessage", () => {
+  beforeEach(() => {
+    received.length = 0;
+    replies.length = 0;
+  });
+
+  it("posts escaped HTML with link previews disabled", async () => {
+    assert.equal(await sendTelegramMessage("<PEPE> & co"), 1);
+    assert.equal(received.length, 1);
+    assert.equal(received[0].url, "/bot123:secret/sendMessage");
+    assert.deepEqual(received[0].body, {
+      chat_id: "-10042",
+      text: "&lt;PEPE&gt; &amp; co",
+      parse_mode: "HTML",
+      link_preview_options: { is_disabled: true },
+    });
+  });
+
+  it("escapes for MarkdownV2 when selected", async () => {
+    await sendTelegramMessage("price 1.5 (x2)", { parseMode: "MarkdownV2" });
+    assert.equal(received[0].body.parse_mode, "MarkdownV2");
+    assert.equal(received[0].body.text, "price 1\\.5 \\(x2\\)");
+  });
+
+  it("sends messages over 4096 characters as ordered chunks", async () => {
+    const lines = Array.from({ length: 3 }, (_, i) => `${i}`.repeat(2000));
+    assert.equal(await sendTelegramMessage(lines.join("\n")), 2);
+    assert.deepEqual(
+      received.map((r) => r.body.text),
+      [`${lines[0]}\n${lines[1]}`, lines[2]]
+    );
+    assert.ok(received.every((r) => r.body.text.length <= 4096));
+  });
+
+  it("waits retry_after on 429 and retries", async () => {
+    replies.push({
+      status: 429,
+      body: {
+        ok: false,
+        error_code: 429,
+        description: "Too Many Requests: retry after 1",
+        parameters: { retry_after: 1 },
+      },
+    });
+    const start = Date.now();
+    assert.equal(await sendTelegramMessage("hello"), 1);
+    assert.equal(received.length, 2);
+    assert.ok(Date.now() - start >= 1_000);
+  });
+
+  it("fails on other errors without retrying or leaking the token", async () => {
+    replies.push({
+      status: 400,
+      body: {
+        ok: false,
+        error_code: 400,
+        description: "Bad Request: chat not found",
+      },
+    });
+    await assert.rejects(sendTelegramMessage("hello"), (err: Error) => {
+      assert.match(err.message, /chat not found/);
+      assert.doesNotMatch(err.message, /secret/);
+      return true;
+    });
+    assert.equal(received.length, 1);
+  });
+});
+
+describe("createTelegramNotifier", () => {
+  beforeEach(() => {
+    received.length = 0;
+    replies.length = 0;
+  });
+
+  it("sends alert text to the channel's chat, defaulting to TG_*", async () => {
+    const notifier = createTelegramNotifier("vip", { chatId: "-10099" });
+    assert.equal(notifier.kind, "telegram");
+    await notifier.send({ text: "pump <1m>", ts: 0 } as AlertNotice);
+    assert.equal(received[0].url, "/bot123:secret/sendMessage");
+    assert.equal(received[0].body.chat_id, "-10099");
+    assert.equal(received[0].body.text, "pump &lt;1m&gt;");
+  });
+});
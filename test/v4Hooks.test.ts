@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { zeroAddress } from "viem";
+import { decodeHookFlags } from "../src/safety/v4Hooks.js";
+
+describe("decodeHookFlags", () => {
+  it("reads no permissions from the zero address", () => {
+    assert.deepEqual(decodeHookFlags(zeroAddress), {
+      bits: 0n,
+      flags: [],
+      returnsDelta: false,
+    });
+  });
+
+  it("decodes the low 14 bits of the hooks address", () => {
+    // beforeSwap (bit 7) + afterSwap (bit 6)
+    const res = decodeHookFlags("0x00000000000000000000000000000000000000c0");
+    assert.equal(res.bits, 0xc0n);
+    assert.deepEqual(res.flags, ["beforeSwap", "afterSwap"]);
+    assert.equal(res.returnsDelta, false);
+  });
+
+  it("ignores bits above the permission range", () => {
+    const res = decodeHookFlags("0xffffffffffffffffffffffffffffffffffffc000");
+    assert.equal(res.bits, 0n);
+    assert.deepEqual(res.flags, []);
+  });
+
+  it("flags hooks that can return deltas", () => {
+    // beforeSwap + beforeSwapReturnDelta (bit 3)
+    const res = decodeHookFlags("0x0000000000000000000000000000000000000088");
+    assert.deepEqual(res.flags, ["beforeSwap", "beforeSwapReturnDelta"]);
+    assert.equal(res.returnsDelta, true);
+    // 只有 afterRemoveLiquidityReturnDelta（bit 0）
+    assert.equal(
+      decodeHookFlags("0x0000000000000000000000000000000000000001")
+        .returnsDelta,
+      true
+    );
+  });
+
+  it("decodes every permission bit in order", () => {
+    const res = decodeHookFlags("0x0000000000000000000000000000000000003fff");
+    assert.equal(res.flags.length, 14);
+    assert.equal(res.flags[0], "beforeInitialize");
+    assert.equal(res.flags[13], "afterRemoveLiquidityReturnDelta");
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createPublicClient,
+  custom,
+  numberToHex,
+  type PublicClient,
+} from "viem";
+import { bsc } from "viem/chains";
+import { passSafetyGates } from "../src/rules/gates.js";
+import {
+  describeVerdict,
+  failedChecks,
+  type GateVerdict,
+} from "../src/rules/verdict.js";
+
+const verdict: GateVerdict = {
+  ok: false,
+  ts: 0,
+  checks: [
+    { id: "code", status: "pass" },
+    {
+      id: "minLiquidity",
+      status: "fail",
+      value: 3200,
+      threshold: 5000,
+      source: "onchain",
+    },
+    { id: "holders", status: "warn", value: 0.55, threshold: 0.5 },
+    { id: "honeypot", status: "error", note: "simulation unavailable" },
+    { id: "lpRisk", status: "skipped" },
+    { id: "tax", status: "fail", value: 0.3, threshold: 0.2 },
+  ],
+};
+
+describe("failedChecks", () => {
+  it("returns only failed checks, in order", () => {
+    assert.deepEqual(
+      failedChecks(verdict).map((c) => c.id),
+      ["minLiquidity", "tax"]
+    );
+  });
+
+  it("is empty when nothing failed", () => {
+    assert.deepEqual(
+      failedChecks({
+        ok: true,
+        ts: 0,
+        checks: [
+          { id: "code", status: "pass" },
+          { id: "holders", status: "warn" },
+          { id: "tax", status: "skipped" },
+        ],
+      }),
+      []
+    );
+  });
+});
+
+describe("describeVerdict", () => {
+  it("counts statuses and lists warn / fail / error checks", () => {
+    assert.equal(
+      describeVerdict(verdict),
+      "通过 1 / 未通过 2 / 提示 1 / 出错 1 / 跳过 1；" +
+        "✗ minLiquidity 3200（阈值 5000，onchain）；" +
+        "⚠ holders 0.55（阈值 0.5）；" +
+        "？ honeypot（simulation unavailable）；" +
+        "✗ tax 0.3（阈值 0.2）"
+    );
+  });
+});
+
+describe("passSafetyGates verdict", () => {
+  it("records every remaining check as skipped when contract code is missing", async () => {
+    // 所有地址都没有代码：code 未通过，其余检查一个都不执行
+    const client = createPublicClient({
+      chain: bsc,
+      transport: custom(
+        {
+          async request({ method }: { method: string }) {
+            if (method === "eth_chainId") return numberToHex(bsc.id);
+            if (method === "eth_getCode") return "0x";
+            throw new Error(`unexpected method ${method}`);
+          },
+        },
+        { retryCount: 0 }
+      ),
+    }) as PublicClient;
+    const res = await passSafetyGates({
+      chain: "BSC",
+      type: "v2",
+      addr: "0x1111111111111111111111111111111111111111",
+      client,
+      token0: "0x2222222222222222222222222222222222222222",
+      token1: "0x55d398326f99059fF775485246999027B3197955",
+    });
+    assert.equal(res.ok, false);
+    assert.deepEqual(
+      res.verdict.checks.map((c) => [c.id, c.status]),
+      [
+        ["code", "fail"],
+        ["minLiquidity", "skipped"],
+        ["bytecode", "skipped"],
+        ["ownership", "skipped"],
+        ["holders", "skipped"],
+        ["deployer", "skipped"],
+        ["tradingLimits", "skipped"],
+        ["sellability", "skipped"],
+        ["honeypot", "skipped"],
+        ["lpRisk", "skipped"],
+        ["tax", "skipped"],
+      ]
+    );
+    assert.deepEqual(
+      failedChecks(res.verdict).map((c) => c.id),
+      ["code"]
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getStorage } from "../src/state/storage.js";
+import { watchlist } from "../src/state/watchlist.js";
+
+/**
+ * Watchlist 落盘：状态变更写穿，patchMeta 只标脏、flush 时批量写入（STORAGE=memory）
+ */
+
+const stored = (key: string) =>
+  getStorage()
+    .loadWatchEntries()
+    .find((e) => e.key === key);
+
+const enqueue = (address: `0x${string}`) =>
+  watchlist.enqueueNew({
+    chain: "BSC",
+    type: "v2",
+    address,
+    token0: "0x1111111111111111111111111111111111111111",
+    token1: "0x55d398326f99059fF775485246999027B3197955",
+  });
+
+describe("watchlist persistence", () => {
+  it("defers meta patches until flush", () => {
+    const { key } = enqueue("0x000000000000000000000000000000000000a001");
+    watchlist.activate(key);
+    assert.equal(stored(key)?.status, "active");
+
+    watchlist.patchMeta(key, { liquidityUsd: 1_000 });
+    watchlist.patchMeta(key, { liquidityUsd: 2_000 });
+    assert.equal(stored(key)?.meta.liquidityUsd, undefined);
+
+    watchlist.flush();
+    assert.equal(stored(key)?.meta.liquidityUsd, 2_000);
+  });
+
+  it("writes pending meta along with the next status change", () => {
+    const { key } = enqueue("0x000000000000000000000000000000000000a002");
+    watchlist.patchMeta(key, {
+      deployer: "0x00000000000000000000000000000000000000d1",
+    });
+    watchlist.reject(key, "tax");
+    const entry = stored(key);
+    assert.equal(entry?.status, "rejected");
+    assert.equal(
+      entry?.meta.deployer,
+      "0x00000000000000000000000000000000000000d1"
+    );
+  });
+});